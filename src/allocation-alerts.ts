@@ -0,0 +1,165 @@
+import type { Issue } from './types.js';
+import type { Employee } from './google-sheets.js';
+import { UNPLANNED_SPRINT } from './planning.js';
+import type { PlanningResult } from './planning.js';
+import { getDoneStatuses } from './flow-metrics.js';
+
+export type AllocationAlertType =
+    // Meer werk in een Jira sprint dan de capaciteit, of werk dat niet meer binnen de sprints past
+    | 'overallocated'
+    // Een groot deel van de capaciteit in een sprint is niet gepland
+    | 'underallocated'
+    | 'unassigned'
+    | 'no-estimate'
+    // Assignee staat niet in de Employees sheet
+    | 'unknown-assignee'
+    // Assignee staat in de Employees sheet, maar heeft geen capaciteit in dit project
+    | 'no-capacity';
+
+export interface AllocationAlert {
+    type: AllocationAlertType;
+    severity: 'danger' | 'warning' | 'info';
+    message: string;
+    employee?: string;
+    sprint?: string;
+    hours?: number;
+    issues?: string[];
+}
+
+// Deel van de capaciteit dat ongebruikt moet zijn voordat een sprint als onderbezet telt
+const DEFAULT_IDLE_THRESHOLD = 0.5;
+
+const SEVERITY_ORDER = ['danger', 'warning', 'info'];
+
+function roundHours(hours: number): number {
+    return Number(hours.toFixed(1));
+}
+
+function getIdleThreshold(): number {
+    const threshold = Number(process.env.ALLOCATION_IDLE_THRESHOLD);
+    return threshold > 0 && threshold <= 1 ? threshold : DEFAULT_IDLE_THRESHOLD;
+}
+
+// Signaleringen bij een planning: over- en onderbezetting per medewerker en sprint, en open issues die
+// niet (goed) gepland kunnen worden. De issues zijn de issues uit Jira, inclusief issues zonder assignee.
+// De planning boekt nooit meer uren dan de capaciteit; overbezetting gaat daarom over het werk dat in Jira
+// al in een sprint staat (planning.issueSprints) en over werk dat niet meer binnen de sprints past.
+export function buildAllocationAlerts(planning: PlanningResult, issues: Issue[], employees: Employee[] | null): AllocationAlert[] {
+    const alerts: AllocationAlert[] = [];
+    const idleThreshold = getIdleThreshold();
+
+    const doneStatuses = getDoneStatuses();
+    const openIssues = issues.filter(issue => !doneStatuses.includes((issue.fields?.status?.name || '').toLowerCase()));
+    const getEstimate = (issue: Issue) => (issue.fields?.timeestimate || 0) / 3600;
+
+    // Resterende uren per medewerker en Jira sprint
+    const committed = new Map<string, { hours: number; issues: string[] }>();
+    openIssues
+        .filter(issue => issue.fields?.assignee && planning.issueSprints?.has(issue.key))
+        .forEach(issue => {
+            const key = `${issue.fields!.assignee!.displayName}|${planning.issueSprints!.get(issue.key)}`;
+            const entry = committed.get(key) || { hours: 0, issues: [] };
+            entry.hours += getEstimate(issue);
+            entry.issues.push(issue.key);
+            committed.set(key, entry);
+        });
+
+    planning.sprintCapacity.forEach(capacity => {
+        const used = planning.employeeSprintUsedHours
+            .find(employee => employee.employee === capacity.employee)?.sprintHours
+            .find(sprintHours => sprintHours.sprint === capacity.sprint)?.hours || 0;
+        const inSprint = committed.get(`${capacity.employee}|${capacity.sprint}`);
+
+        if (inSprint && inSprint.hours > capacity.capacity) {
+            alerts.push({
+                type: 'overallocated',
+                severity: 'danger',
+                message: `${capacity.employee} heeft in sprint ${capacity.sprint} in Jira ${roundHours(inSprint.hours - capacity.capacity)} uur meer werk dan de capaciteit van ${capacity.capacity} uur`,
+                employee: capacity.employee,
+                sprint: capacity.sprint,
+                hours: roundHours(inSprint.hours - capacity.capacity),
+                issues: inSprint.issues
+            });
+        } else if (capacity.capacity > 0 && capacity.capacity - used >= capacity.capacity * idleThreshold) {
+            alerts.push({
+                type: 'underallocated',
+                severity: 'info',
+                message: `${capacity.employee} heeft in sprint ${capacity.sprint} ${roundHours(capacity.capacity - used)} van ${capacity.capacity} uur niet gepland`,
+                employee: capacity.employee,
+                sprint: capacity.sprint,
+                hours: roundHours(capacity.capacity - used)
+            });
+        }
+    });
+
+    // Werk van medewerkers met capaciteit dat niet meer binnen de beschikbare sprints past
+    const employeesWithCapacity = new Set(planning.sprintCapacity.map(capacity => capacity.employee));
+    const overflow = new Map<string, { hours: number; issues: string[] }>();
+    planning.plannedIssues
+        .filter(planned => planned.sprint === UNPLANNED_SPRINT)
+        .filter(planned => employeesWithCapacity.has(planned.issue.fields.assignee?.displayName))
+        .forEach(planned => {
+            const employee = planned.issue.fields.assignee.displayName;
+            const entry = overflow.get(employee) || { hours: 0, issues: [] };
+            entry.hours += planned.hours;
+            entry.issues.push(planned.issue.key);
+            overflow.set(employee, entry);
+        });
+    overflow.forEach((entry, employee) => {
+        alerts.push({
+            type: 'overallocated',
+            severity: 'danger',
+            message: `${employee} heeft ${roundHours(entry.hours)} uur werk dat niet meer binnen de sprints past`,
+            employee,
+            sprint: UNPLANNED_SPRINT,
+            hours: roundHours(entry.hours),
+            issues: entry.issues
+        });
+    });
+
+    const unassigned = openIssues.filter(issue => !issue.fields?.assignee && getEstimate(issue) > 0);
+    if (unassigned.length > 0) {
+        const hours = roundHours(unassigned.reduce((total, issue) => total + getEstimate(issue), 0));
+        alerts.push({
+            type: 'unassigned',
+            severity: 'warning',
+            message: `${unassigned.length} issue(s) met een schatting van samen ${hours} uur zijn niet toegewezen en worden niet gepland`,
+            hours,
+            issues: unassigned.map(issue => issue.key)
+        });
+    }
+
+    const unestimated = openIssues.filter(issue => getEstimate(issue) <= 0);
+    if (unestimated.length > 0) {
+        alerts.push({
+            type: 'no-estimate',
+            severity: 'warning',
+            message: `${unestimated.length} open issue(s) hebben geen resterende schatting en worden niet gepland`,
+            issues: unestimated.map(issue => issue.key)
+        });
+    }
+
+    // Assignees zonder capaciteit, apart voor assignees die helemaal niet in de Employees sheet staan
+    const knownEmployees = new Set((employees || []).map(employee => employee.name));
+    const issuesByAssignee = new Map<string, string[]>();
+    openIssues
+        .filter(issue => issue.fields?.assignee && !employeesWithCapacity.has(issue.fields.assignee.displayName))
+        .forEach(issue => {
+            const assignee = issue.fields!.assignee!.displayName;
+            issuesByAssignee.set(assignee, [...(issuesByAssignee.get(assignee) || []), issue.key]);
+        });
+    issuesByAssignee.forEach((keys, employee) => {
+        const known = knownEmployees.has(employee);
+        alerts.push({
+            type: known ? 'no-capacity' : 'unknown-assignee',
+            severity: 'warning',
+            message: known
+                ? `${employee} heeft geen capaciteit in dit project maar wel ${keys.length} toegewezen issue(s)`
+                : `${employee} staat niet in de Employees sheet maar heeft ${keys.length} toegewezen issue(s)`,
+            employee,
+            issues: keys
+        });
+    });
+
+    return alerts.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
@@ -0,0 +1,158 @@
+import { addDays, addWeeks, eachDayOfInterval, isWeekend, max, min } from 'date-fns';
+import { logger } from './logger.js';
+import type { Employee, SprintCapacity as SheetSprintCapacity } from './google-sheets.js';
+import { getLeaveHoursOnDay } from './leave.js';
+import type { LeaveEntry } from './leave.js';
+import type { SprintState } from './sprints.js';
+
+// De effectieve uren in de Employees sheet zijn per week, verdeeld over de werkdagen
+const WORKING_DAYS_PER_WEEK = 5;
+
+// Aantal weken per sprint als SPRINT_LENGTH_WEEKS niet is ingesteld
+const DEFAULT_SPRINT_WEEKS = 2;
+
+export interface SprintPeriod {
+    sprintId: number;
+    startDate: Date;
+    endDate: Date;
+    // Alleen voor sprints uit Jira
+    name?: string;
+    state?: SprintState;
+}
+
+export interface ExpectedHours {
+    // Uren op de werkdagen dat de medewerker in dienst is
+    workingHours: number;
+    // Uren verlof en feestdagen op die werkdagen
+    leaveHours: number;
+    expectedHours: number;
+}
+
+export interface CapacityEntry {
+    employee: string;
+    sprintId: number;
+    capacity: number;
+    // 'sheet' als de capaciteit uit de Sprint Capacity sheet komt, anders berekend uit de werkdagen
+    source: 'sheet' | 'calculated';
+}
+
+function roundHours(hours: number): number {
+    return Number(hours.toFixed(1));
+}
+
+export function getSprintWeeks(): number {
+    const weeks = Number(process.env.SPRINT_LENGTH_WEEKS);
+    return weeks > 0 ? weeks : DEFAULT_SPRINT_WEEKS;
+}
+
+// Start- en einddatum per sprint. Sprints uit de Jira sprintkalender hebben hun eigen datums; voor de
+// overige sprints begint sprint 1 op SPRINT_START_DATE en elke volgende sprint direct na de vorige.
+// Zonder SPRINT_START_DATE zijn alleen de datums van de Jira sprints bekend.
+export function getSprintCalendar(sprintIds: number[], jiraCalendar: SprintPeriod[] = []): SprintPeriod[] | null {
+    const fromJira = (sprintId: number) => jiraCalendar.find(period => period.sprintId === sprintId);
+    const start = process.env.SPRINT_START_DATE;
+    if (!start) {
+        const periods = sprintIds.map(fromJira).filter((period): period is SprintPeriod => Boolean(period));
+        return periods.length > 0 ? periods : null;
+    }
+
+    const firstStart = new Date(`${start}T00:00:00`);
+    if (isNaN(firstStart.getTime())) {
+        throw new Error(`Ongeldige SPRINT_START_DATE: ${start} (verwacht yyyy-mm-dd)`);
+    }
+
+    const weeks = getSprintWeeks();
+    return sprintIds.map(sprintId => {
+        const period = fromJira(sprintId);
+        if (period) {
+            return period;
+        }
+        const startDate = addWeeks(firstStart, (sprintId - 1) * weeks);
+        return { sprintId, startDate, endDate: addDays(addWeeks(startDate, weeks), -1) };
+    });
+}
+
+function getWorkingDays(startDate: Date, endDate: Date): Date[] {
+    if (startDate > endDate) {
+        return [];
+    }
+    return eachDayOfInterval({ start: startDate, end: endDate }).filter(day => !isWeekend(day));
+}
+
+// Aantal werkdagen (maandag t/m vrijdag) van start t/m eind
+export function countWorkingDays(startDate: Date, endDate: Date): number {
+    return getWorkingDays(startDate, endDate).length;
+}
+
+// Verwachte uren van een medewerker in een periode: de effectieve uren per werkdag voor de werkdagen
+// dat de medewerker in dienst is, min verlof en feestdagen
+export function calculateExpectedHours(employee: Employee, startDate: Date, endDate: Date, leave: LeaveEntry[] = []): ExpectedHours {
+    const from = max([startDate, employee.startDate ?? startDate]);
+    const to = min([endDate, employee.endDate ?? endDate]);
+    const dailyHours = employee.effectiveHours / WORKING_DAYS_PER_WEEK;
+
+    const days = getWorkingDays(from, to);
+    const workingHours = days.length * dailyHours;
+    const leaveHours = days.reduce((total, day) => total + getLeaveHoursOnDay(leave, employee.name, day, dailyHours), 0);
+
+    return {
+        workingHours: roundHours(workingHours),
+        leaveHours: roundHours(leaveHours),
+        expectedHours: roundHours(workingHours - leaveHours)
+    };
+}
+
+// Beschikbare uren van een medewerker in een sprint. Zonder sprintdatums rekenen we met hele
+// sprints en kan er geen rekening gehouden worden met verlof.
+export function getAvailableHours(employee: Employee, sprint: SprintPeriod | null, leave: LeaveEntry[] = []): number {
+    if (!sprint) {
+        return roundHours(employee.effectiveHours * getSprintWeeks());
+    }
+    return calculateExpectedHours(employee, sprint.startDate, sprint.endDate, leave).expectedHours;
+}
+
+// Bouw de capaciteit per medewerker per sprint. Alleen medewerkers uit de Employees sheet krijgen
+// capaciteit; een regel in de Sprint Capacity sheet gaat voor de berekende capaciteit. Verlof gaat van
+// beide af. Zonder opgegeven sprints worden de sprints uit de Sprint Capacity sheet gebruikt.
+export function buildCapacityCalendar(
+    employees: Employee[],
+    sheetCapacities: SheetSprintCapacity[],
+    leave: LeaveEntry[] = [],
+    sprintIds: number[] = Array.from(new Set(sheetCapacities.map(c => c.sprintId))),
+    jiraCalendar: SprintPeriod[] = []
+): CapacityEntry[] {
+    const sprints = [...sprintIds].sort((a, b) => a - b);
+    const calendar = getSprintCalendar(sprints, jiraCalendar);
+    if (!calendar) {
+        logger.log(`Geen SPRINT_START_DATE ingesteld, capaciteit berekend met sprints van ${getSprintWeeks()} weken`);
+    }
+
+    const uniqueEmployees = new Map<string, Employee>();
+    employees.forEach(employee => {
+        if (!uniqueEmployees.has(employee.name)) {
+            uniqueEmployees.set(employee.name, employee);
+        }
+    });
+
+    const unknown = Array.from(new Set(sheetCapacities.map(c => c.assignee))).filter(name => !uniqueEmployees.has(name));
+    if (unknown.length > 0) {
+        logger.log(`Sprint Capacity regels overgeslagen voor ${unknown.join(', ')}: niet gevonden bij de medewerkers uit de Employees sheet`);
+    }
+
+    const entries: CapacityEntry[] = [];
+    uniqueEmployees.forEach(employee => {
+        sprints.forEach(sprintId => {
+            const sprint = calendar?.find(period => period.sprintId === sprintId) ?? null;
+            const sheetCapacity = sheetCapacities.find(c => c.assignee === employee.name && c.sprintId === sprintId);
+            if (sheetCapacity) {
+                const leaveHours = sprint ? calculateExpectedHours(employee, sprint.startDate, sprint.endDate, leave).leaveHours : 0;
+                entries.push({ employee: employee.name, sprintId, capacity: roundHours(Math.max(0, sheetCapacity.capacity - leaveHours)), source: 'sheet' });
+                return;
+            }
+
+            entries.push({ employee: employee.name, sprintId, capacity: getAvailableHours(employee, sprint, leave), source: 'calculated' });
+        });
+    });
+
+    return entries;
+}
@@ -1,11 +1,77 @@
 import React, { useState } from 'react';
+import type { WorkLogsResponse, WorkLogsTable, EmployeeAvailability } from '../types.js';
+
+function HoursTable({ title, table }: { title: string; table: WorkLogsTable }) {
+    return (
+        <div className="mb-8">
+            <h3 className="text-xl font-bold mb-2">{title}</h3>
+            <table className="w-full border">
+                <thead>
+                    <tr>
+                        <th className="text-left p-2">Medewerker</th>
+                        {table.columns.map(column => <th key={column} className="text-right p-2">{column}</th>)}
+                        <th className="text-right p-2">Totaal</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {table.employees.map(employee => (
+                        <tr key={employee.employee}>
+                            <td className="p-2">{employee.employee}</td>
+                            {table.columns.map(column => (
+                                <td key={column} className="text-right p-2">{employee.hours[column].toFixed(1)}</td>
+                            ))}
+                            <td className="text-right p-2">{employee.total.toFixed(1)}</td>
+                        </tr>
+                    ))}
+                    <tr className="font-bold">
+                        <td className="p-2">Totaal</td>
+                        {table.columns.map(column => (
+                            <td key={column} className="text-right p-2">{table.columnTotals[column].toFixed(1)}</td>
+                        ))}
+                        <td className="text-right p-2">{table.total.toFixed(1)}</td>
+                    </tr>
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+function AvailabilityTable({ availability }: { availability: EmployeeAvailability[] }) {
+    return (
+        <div className="mb-8">
+            <h3 className="text-xl font-bold mb-2">Verwachte uren</h3>
+            <table className="w-full border">
+                <thead>
+                    <tr>
+                        <th className="text-left p-2">Medewerker</th>
+                        <th className="text-right p-2">Verwachte uren</th>
+                        <th className="text-right p-2">Verlof en feestdagen</th>
+                        <th className="text-right p-2">Gelogde uren</th>
+                        <th className="text-right p-2">Gelogd (%)</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {availability.map(row => (
+                        <tr key={row.employee}>
+                            <td className="p-2">{row.employee}</td>
+                            <td className="text-right p-2">{row.expectedHours.toFixed(1)}</td>
+                            <td className="text-right p-2">{row.leaveHours.toFixed(1)}</td>
+                            <td className="text-right p-2">{row.loggedHours.toFixed(1)}</td>
+                            <td className="text-right p-2">{row.percentage}%</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
 
 export default function WorkLogs() {
     const [startDate, setStartDate] = useState('');
     const [endDate, setEndDate] = useState('');
     const [loading, setLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
-    const [worklogsHtml, setWorklogsHtml] = useState<string>('');
+    const [report, setReport] = useState<WorkLogsResponse | null>(null);
 
     const fetchWorkLogs = async () => {
         if (!startDate || !endDate) {
@@ -16,12 +82,11 @@ export default function WorkLogs() {
         setLoading(true);
         setError(null);
         try {
-            const response = await fetch(`/api/worklogs?startDate=${startDate}&endDate=${endDate}`);
+            const response = await fetch(`/api/worklogs/report?startDate=${startDate}&endDate=${endDate}`);
             if (!response.ok) {
                 throw new Error('Fout bij ophalen worklogs');
             }
-            const html = await response.text();
-            setWorklogsHtml(html);
+            setReport(await response.json());
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Onbekende fout');
         } finally {
@@ -77,7 +142,19 @@ export default function WorkLogs() {
                 </div>
             )}
 
-            <div dangerouslySetInnerHTML={{ __html: worklogsHtml }} />
+            {report && report.jiraFailures.length > 0 && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+                    {report.jiraFailures.length} Jira request(s) zijn mislukt, de gegevens hieronder zijn mogelijk onvolledig.
+                </div>
+            )}
+
+            {report && report.projects.map(project => (
+                <HoursTable key={project.projectName} title={project.projectName} table={project} />
+            ))}
+
+            {report && <HoursTable title="Worklogs Totaal" table={report.totals} />}
+
+            {report && <AvailabilityTable availability={report.availability} />}
         </div>
     );
 } 
\ No newline at end of file
@@ -10,18 +10,17 @@ import {
   Typography
 } from '@mui/material';
 import type { WorkLog } from '../types.js';
+import type { CategorisedWorklog } from '../worklog-rules.js';
 
 interface WorkLogsTableProps {
-  workLogs: WorkLog[];
-  resourceIssues: {
-    nietGewerkt: string[];
-    overigeNietDeclarabel: string[];
-    productontwikkeling: string[];
-  };
-  projectEmployees: string[]; // Nieuwe prop voor medewerkers die bij het project horen
+  // Worklogs die al door de indelingsregels zijn ingedeeld (zie worklog-rules.ts)
+  workLogs: CategorisedWorklog[];
+  // Kolommen in de volgorde van de Worklogs sheet
+  categories: string[];
+  projectEmployees: string[]; // Medewerkers die bij het project horen
 }
 
-export const WorkLogsTable: React.FC<WorkLogsTableProps> = ({ workLogs, resourceIssues, projectEmployees }) => {
+export const WorkLogsTable: React.FC<WorkLogsTableProps> = ({ workLogs, categories, projectEmployees }) => {
   // Helper functie om de displayName van een author te krijgen
   const getAuthorDisplayName = (author: WorkLog['author']): string => {
     if (typeof author === 'string') {
@@ -33,80 +32,23 @@ export const WorkLogsTable: React.FC<WorkLogsTableProps> = ({ workLogs, resource
   // Filter worklogs op basis van medewerkers die bij het project horen
   const filteredWorkLogs = workLogs.filter(log => projectEmployees.includes(getAuthorDisplayName(log.author)));
 
-  // Groepeer worklogs per medewerker
-  const workLogsByAssignee = filteredWorkLogs.reduce((acc, log) => {
+  // Tel de seconden per medewerker en categorie
+  const secondsByAssignee = filteredWorkLogs.reduce((acc, log) => {
     const authorName = getAuthorDisplayName(log.author);
     if (!acc[authorName]) {
-      acc[authorName] = [];
+      acc[authorName] = {};
     }
-    acc[authorName].push(log);
+    acc[authorName][log.category] = (acc[authorName][log.category] || 0) + log.timeSpentSeconds;
     return acc;
-  }, {} as Record<string, WorkLog[]>);
-
-  // Bereken totalen voor alle categorieën
-  const totals = {
-    notWorked: 0,
-    nonBillable: 0,
-    productDev: 0
-  };
-
-  Object.values(workLogsByAssignee).forEach(logs => {
-    // Log de filtering criteria
-    console.info('Filtering criteria voor worklogs:');
-    console.info('- Niet gewerkt: comment bevat "niet gewerkt" OF issue is in nietGewerkt lijst');
-    console.info('- Overige niet-declarabel: comment bevat "overige niet-declarabel" OF issue is in overigeNietDeclarabel lijst');
-    console.info('- Productontwikkeling: comment bevat "productontwikkeling" OF issue is in productontwikkeling lijst');
-
-    // Log het aantal worklogs voor deze medewerker
-    console.info(`Aantal worklogs voor deze medewerker: ${logs.length}`);
-
-    // Log het aantal worklogs per categorie
-    const nietGewerktLogs = logs.filter(log => {
-      const comment = log.comment?.toLowerCase() || '';
-      const isNietGewerktComment = comment.includes('niet gewerkt') || 
-                                  comment.includes('niet gewerkt') || 
-                                  comment.includes('niet gewerkt') ||
-                                  comment.includes('niet gewerkt');
-      const isNietGewerktIssue = resourceIssues.nietGewerkt.includes(log.issueKey);
-      return isNietGewerktComment || isNietGewerktIssue;
-    });
+  }, {} as Record<string, Record<string, number>>);
 
-    const overigeNietDeclarabelLogs = logs.filter(log => {
-      const comment = log.comment?.toLowerCase() || '';
-      const isOverigeNietDeclarabelComment = comment.includes('overige niet-declarabel') || 
-                                            comment.includes('overige niet declarabel') ||
-                                            comment.includes('niet declarabel') ||
-                                            comment.includes('niet-declarabel');
-      const isOverigeNietDeclarabelIssue = resourceIssues.overigeNietDeclarabel.includes(log.issueKey);
-      return isOverigeNietDeclarabelComment || isOverigeNietDeclarabelIssue;
-    });
-
-    // Voor productontwikkeling: alle worklogs die niet in nietGewerkt of overigeNietDeclarabel zitten
-    const productontwikkelingLogs = logs.filter(log => {
-      const isNietGewerkt = nietGewerktLogs.some(nietGewerktLog => 
-          nietGewerktLog.issueKey === log.issueKey && 
-          nietGewerktLog.started === log.started && 
-          getAuthorDisplayName(nietGewerktLog.author) === getAuthorDisplayName(log.author)
-      );
-      const isOverigeNietDeclarabel = overigeNietDeclarabelLogs.some(overigeLog => 
-          overigeLog.issueKey === log.issueKey && 
-          overigeLog.started === log.started && 
-          getAuthorDisplayName(overigeLog.author) === getAuthorDisplayName(log.author)
-      );
-      return !isNietGewerkt && !isOverigeNietDeclarabel;
-    });
-
-    console.info(`Aantal worklogs per categorie:`);
-    console.info(`- Niet gewerkt: ${nietGewerktLogs.length}`);
-    console.info(`- Overige niet-declarabel: ${overigeNietDeclarabelLogs.length}`);
-    console.info(`- Productontwikkeling: ${productontwikkelingLogs.length}`);
-
-    totals.notWorked += nietGewerktLogs.reduce((sum, log) => sum + log.timeSpentSeconds, 0);
-    totals.nonBillable += overigeNietDeclarabelLogs.reduce((sum, log) => sum + log.timeSpentSeconds, 0);
-    totals.productDev += productontwikkelingLogs.reduce((sum, log) => sum + log.timeSpentSeconds, 0);
-  });
-
-  const grandTotal = totals.notWorked + totals.nonBillable + totals.productDev;
+  const totals = categories.reduce((acc, category) => {
+    acc[category] = filteredWorkLogs
+      .filter(log => log.category === category)
+      .reduce((sum, log) => sum + log.timeSpentSeconds, 0);
+    return acc;
+  }, {} as Record<string, number>);
+  const grandTotal = categories.reduce((sum, category) => sum + totals[category], 0);
 
   return (
     <div>
@@ -118,34 +60,29 @@ export const WorkLogsTable: React.FC<WorkLogsTableProps> = ({ workLogs, resource
           <TableHead>
             <TableRow>
               <TableCell>Medewerker</TableCell>
-              <TableCell align="right">Niet gewerkt</TableCell>
-              <TableCell align="right">Overige niet-declarabel</TableCell>
-              <TableCell align="right">Productontwikkeling</TableCell>
+              {categories.map(category => <TableCell key={category} align="right">{category}</TableCell>)}
               <TableCell align="right">Totaal</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
-            {Object.entries(workLogsByAssignee).map(([assignee, logs]) => {
-              const notWorked = logs.filter(log => log.comment?.toLowerCase().includes('niet gewerkt')).reduce((sum, log) => sum + log.timeSpentSeconds, 0);
-              const nonBillable = logs.filter(log => log.comment?.toLowerCase().includes('overige niet-declarabel')).reduce((sum, log) => sum + log.timeSpentSeconds, 0);
-              const productDev = logs.filter(log => log.comment?.toLowerCase().includes('productontwikkeling')).reduce((sum, log) => sum + log.timeSpentSeconds, 0);
-              const total = notWorked + nonBillable + productDev;
+            {Object.entries(secondsByAssignee).map(([assignee, seconds]) => {
+              const total = categories.reduce((sum, category) => sum + (seconds[category] || 0), 0);
 
               return (
                 <TableRow key={assignee}>
                   <TableCell>{assignee}</TableCell>
-                  <TableCell align="right">{(notWorked / 3600).toFixed(1)}</TableCell>
-                  <TableCell align="right">{(nonBillable / 3600).toFixed(1)}</TableCell>
-                  <TableCell align="right">{(productDev / 3600).toFixed(1)}</TableCell>
+                  {categories.map(category => (
+                    <TableCell key={category} align="right">{((seconds[category] || 0) / 3600).toFixed(1)}</TableCell>
+                  ))}
                   <TableCell align="right">{(total / 3600).toFixed(1)}</TableCell>
                 </TableRow>
               );
             })}
             <TableRow>
               <TableCell>Totaal</TableCell>
-              <TableCell align="right">{(totals.notWorked / 3600).toFixed(1)}</TableCell>
-              <TableCell align="right">{(totals.nonBillable / 3600).toFixed(1)}</TableCell>
-              <TableCell align="right">{(totals.productDev / 3600).toFixed(1)}</TableCell>
+              {categories.map(category => (
+                <TableCell key={category} align="right">{(totals[category] / 3600).toFixed(1)}</TableCell>
+              ))}
               <TableCell align="right">{(grandTotal / 3600).toFixed(1)}</TableCell>
             </TableRow>
           </TableBody>
@@ -153,4 +90,4 @@ export const WorkLogsTable: React.FC<WorkLogsTableProps> = ({ workLogs, resource
       </TableContainer>
     </div>
   );
-}; 
\ No newline at end of file
+};
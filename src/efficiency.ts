@@ -0,0 +1,320 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, endOfMonth, format, getISOWeek, getISOWeekYear, max, min, startOfDay, startOfISOWeek, startOfMonth } from 'date-fns';
+import { logger } from './logger.js';
+import { toWorkLog } from './jira.js';
+import type { JiraWorkLog } from './jira.js';
+import type { Issue, WorkLog, EfficiencyData, EfficiencyAttribution } from './types.js';
+import { getAuthorName } from './worklog-report.js';
+import { getSprintCalendar, getSprintWeeks } from './capacity.js';
+import type { SprintPeriod } from './capacity.js';
+
+export interface EfficiencyResult {
+    normal: EfficiencyData[];
+    // Alleen issues waar één medewerker op heeft gelogd
+    pure: EfficiencyData[];
+    attribution: EfficiencyAttribution;
+}
+
+export const ATTRIBUTION_MODES: EfficiencyAttribution[] = ['assignee', 'proportional', 'equal'];
+
+const DEFAULT_ATTRIBUTION: EfficiencyAttribution = 'proportional';
+
+export function getAttributionMode(): EfficiencyAttribution {
+    const mode = process.env.EFFICIENCY_ATTRIBUTION as EfficiencyAttribution;
+    return ATTRIBUTION_MODES.includes(mode) ? mode : DEFAULT_ATTRIBUTION;
+}
+
+export const ATTRIBUTION_LABELS: Record<EfficiencyAttribution, string> = {
+    assignee: 'Volledige schatting voor de toegewezen medewerker',
+    proportional: 'Schatting verdeeld naar gelogde uren',
+    equal: 'Schatting gelijk verdeeld over de medewerkers'
+};
+
+// Kolomkop voor de schatting: bij een verdeling is het de toegerekende schatting per medewerker
+export function getEstimateHeader(mode: EfficiencyAttribution = 'assignee'): string {
+    return mode === 'assignee' ? 'Geschatte uren' : 'Toegerekende schatting';
+}
+
+// Het deel van de schatting en de gelogde uren van een issue dat een medewerker krijgt
+interface Attribution {
+    employee: string;
+    estimatedHours: number;
+    loggedHours: number;
+}
+
+export type TrendGranularity = 'week' | 'month' | 'sprint';
+
+export const TREND_GRANULARITIES: TrendGranularity[] = ['week', 'month', 'sprint'];
+
+export interface TrendBucket {
+    label: string;
+    startDate: string;
+    endDate: string;
+}
+
+export interface EfficiencyTrendPoint {
+    bucket: string;
+    // null als er in deze periode geen geschatte uren zijn
+    efficiency: number | null;
+    pureEfficiency: number | null;
+    estimatedHours: number;
+    loggedHours: number;
+    numberOfIssues: number;
+}
+
+export interface EfficiencyTrendSeries {
+    name: string;
+    points: EfficiencyTrendPoint[];
+}
+
+export interface EfficiencyTrend {
+    granularity: TrendGranularity;
+    startDate: string;
+    endDate: string;
+    buckets: TrendBucket[];
+    employees: EfficiencyTrendSeries[];
+    projects: EfficiencyTrendSeries[];
+    attribution: EfficiencyAttribution;
+}
+
+function toEfficiencyData(employee: string, estimatedHours: number, loggedHours: number, numberOfIssues: number): EfficiencyData {
+    const efficiency = estimatedHours > 0 ? (loggedHours / estimatedHours) * 100 : 0;
+    return {
+        employee,
+        estimatedHours: Number(estimatedHours.toFixed(1)),
+        loggedHours: Number(loggedHours.toFixed(1)),
+        efficiency: Number(efficiency.toFixed(1)),
+        totalHours: 0,
+        nonWorkingHours: 0,
+        nonIssueHours: 0,
+        numberOfIssues
+    };
+}
+
+// Verdeel de schatting van een issue over de medewerkers volgens de gekozen verdeling. Een issue zonder
+// worklogs telt in elke verdeling voor de toegewezen medewerker.
+function attributeIssue(issue: Issue, hoursByEmployee: Map<string, number>, mode: EfficiencyAttribution): Attribution[] {
+    const estimatedHours = issue.fields?.timeoriginalestimate ? issue.fields.timeoriginalestimate / 3600 : 0;
+    const assignee = issue.fields?.assignee?.displayName;
+    const totalLoggedHours = Array.from(hoursByEmployee.values()).reduce((total, hours) => total + hours, 0);
+
+    if (mode === 'assignee' || totalLoggedHours === 0) {
+        return assignee ? [{ employee: assignee, estimatedHours, loggedHours: hoursByEmployee.get(assignee) || 0 }] : [];
+    }
+
+    return Array.from(hoursByEmployee.entries()).map(([employee, loggedHours]) => ({
+        employee,
+        estimatedHours: mode === 'equal'
+            ? estimatedHours / hoursByEmployee.size
+            : estimatedHours * loggedHours / totalLoggedHours,
+        loggedHours
+    }));
+}
+
+function summariseAttributions(employee: string, attributions: Attribution[]): EfficiencyData {
+    return toEfficiencyData(
+        employee,
+        attributions.reduce((total, attribution) => total + attribution.estimatedHours, 0),
+        attributions.reduce((total, attribution) => total + attribution.loggedHours, 0),
+        attributions.length
+    );
+}
+
+// Efficiëntie per medewerker over afgesloten issues (met de worklogs die getIssues per issue ophaalt): de
+// gelogde uren gedeeld door het deel van de originele schatting dat de medewerker volgens de verdeling krijgt
+export function calculateEfficiencyFromIssues(closedIssues: Issue[], mode: EfficiencyAttribution = getAttributionMode()): EfficiencyResult {
+    const allWorklogs: WorkLog[] = [];
+    for (const issue of closedIssues) {
+        const issueWorklogs = (issue.fields?.worklog?.worklogs || []) as JiraWorkLog[];
+        if (issueWorklogs.length > 0) {
+            allWorklogs.push(...issueWorklogs.map(log => toWorkLog(issue, log)));
+            logger.log(`Issue ${issue.key}: ${issueWorklogs.length} worklogs gevonden`);
+        } else {
+            logger.log(`Issue ${issue.key}: Geen worklogs gevonden`);
+        }
+    }
+
+    logger.log(`Totaal aantal worklogs gevonden: ${allWorklogs.length}`);
+
+    // Gelogde uren per issue en medewerker; de volgorde van de medewerkers is die van hun eerste worklog
+    const employees = new Set<string>();
+    const hoursByIssue = new Map<string, Map<string, number>>();
+    allWorklogs.forEach(log => {
+        const employeeName = getAuthorName(log);
+        employees.add(employeeName);
+
+        if (!hoursByIssue.has(log.issueKey)) {
+            hoursByIssue.set(log.issueKey, new Map());
+        }
+        const issueHours = hoursByIssue.get(log.issueKey)!;
+        issueHours.set(employeeName, (issueHours.get(employeeName) || 0) + log.timeSpentSeconds / 3600);
+    });
+
+    logger.log(`Aantal medewerkers met worklogs: ${employees.size}`);
+    logger.log(`Verdeling van de schattingen: ${mode}`);
+
+    const attributions = new Map<string, Attribution[]>();
+    const pureAttributions = new Map<string, Attribution[]>();
+    closedIssues.forEach(issue => {
+        const issueHours = hoursByIssue.get(issue.key) || new Map<string, number>();
+        attributeIssue(issue, issueHours, mode)
+            // Alleen medewerkers die in de periode op afgesloten issues gelogd hebben
+            .filter(attribution => employees.has(attribution.employee))
+            .forEach(attribution => {
+                logger.log(`Issue ${issue.key} - ${attribution.employee}: ${attribution.estimatedHours.toFixed(1)} uur geschat, ${attribution.loggedHours.toFixed(1)} uur gelogd`);
+                attributions.set(attribution.employee, [...(attributions.get(attribution.employee) || []), attribution]);
+
+                // Zuivere efficiëntie: issues waar meerdere medewerkers op gelogd hebben tellen niet mee
+                if (issueHours.size <= 1) {
+                    pureAttributions.set(attribution.employee, [...(pureAttributions.get(attribution.employee) || []), attribution]);
+                }
+            });
+    });
+
+    const employeeNames = Array.from(employees);
+    return {
+        normal: employeeNames.map(employee => summariseAttributions(employee, attributions.get(employee) || [])),
+        pure: employeeNames.map(employee => summariseAttributions(employee, pureAttributions.get(employee) || [])),
+        attribution: mode
+    };
+}
+
+function toBucket(label: string, start: Date, end: Date, rangeStart: Date, rangeEnd: Date): TrendBucket {
+    return {
+        label,
+        startDate: format(max([start, rangeStart]), 'yyyy-MM-dd'),
+        endDate: format(min([end, rangeEnd]), 'yyyy-MM-dd')
+    };
+}
+
+// Verdeel een periode in weken (ISO), maanden of sprints. De eerste en laatste periode worden
+// afgekapt op de begin- en einddatum. Met een Jira sprintkalender lopen de sprints van de startdatum
+// tot de start van de volgende sprint, zodat er geen dagen tussen twee sprints buiten de trend vallen.
+export function getTrendBuckets(startDate: Date, endDate: Date, granularity: TrendGranularity, calendar: SprintPeriod[] = []): TrendBucket[] {
+    const rangeStart = startOfDay(startDate);
+    const rangeEnd = startOfDay(endDate);
+    const buckets: TrendBucket[] = [];
+
+    if (granularity === 'week') {
+        for (let week = startOfISOWeek(rangeStart); week <= rangeEnd; week = addWeeks(week, 1)) {
+            const label = `${getISOWeekYear(week)}-W${String(getISOWeek(week)).padStart(2, '0')}`;
+            buckets.push(toBucket(label, week, addDays(week, 6), rangeStart, rangeEnd));
+        }
+    } else if (granularity === 'month') {
+        for (let month = startOfMonth(rangeStart); month <= rangeEnd; month = addMonths(month, 1)) {
+            buckets.push(toBucket(format(month, 'yyyy-MM'), month, startOfDay(endOfMonth(month)), rangeStart, rangeEnd));
+        }
+    } else if (calendar.length > 0) {
+        const sprints = [...calendar].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+        sprints.forEach((sprint, index) => {
+            const next = sprints[index + 1];
+            const sprintEnd = next ? addDays(next.startDate, -1) : sprint.endDate;
+            if (sprint.startDate <= rangeEnd && sprintEnd >= rangeStart) {
+                buckets.push(toBucket(sprint.name || `Sprint ${sprint.sprintId}`, sprint.startDate, sprintEnd, rangeStart, rangeEnd));
+            }
+        });
+    } else {
+        const firstSprint = getSprintCalendar([1]);
+        if (!firstSprint) {
+            throw new Error('SPRINT_START_DATE is niet ingesteld, de sprintdatums zijn onbekend');
+        }
+        const sprintDays = getSprintWeeks() * 7;
+        const firstId = Math.max(1, Math.floor(differenceInCalendarDays(rangeStart, firstSprint[0].startDate) / sprintDays) + 1);
+        const lastId = Math.floor(differenceInCalendarDays(rangeEnd, firstSprint[0].startDate) / sprintDays) + 1;
+        const sprintIds = Array.from({ length: Math.max(0, lastId - firstId + 1) }, (_, index) => firstId + index);
+        getSprintCalendar(sprintIds)!.forEach(sprint => {
+            buckets.push(toBucket(`Sprint ${sprint.sprintId}`, sprint.startDate, sprint.endDate, rangeStart, rangeEnd));
+        });
+    }
+
+    return buckets;
+}
+
+function toTrendPoint(bucket: string, normal: EfficiencyData[], pure: EfficiencyData[]): EfficiencyTrendPoint {
+    const sum = (rows: EfficiencyData[], field: 'estimatedHours' | 'loggedHours') => rows.reduce((total, row) => total + (row[field] ?? 0), 0);
+    const efficiency = (rows: EfficiencyData[]) => {
+        const estimatedHours = sum(rows, 'estimatedHours');
+        return estimatedHours > 0 ? Number((sum(rows, 'loggedHours') / estimatedHours * 100).toFixed(1)) : null;
+    };
+
+    return {
+        bucket,
+        efficiency: efficiency(normal),
+        pureEfficiency: efficiency(pure),
+        estimatedHours: Number(sum(normal, 'estimatedHours').toFixed(1)),
+        loggedHours: Number(sum(normal, 'loggedHours').toFixed(1)),
+        numberOfIssues: normal.reduce((total, row) => total + row.numberOfIssues, 0)
+    };
+}
+
+// Efficiëntie per periode, per medewerker en per project. Een issue telt mee in de periode waarin het
+// is opgelost. Projectnamen komen uit projectNames (projectcode naar naam), anders de projectcode.
+export function buildEfficiencyTrend(
+    closedIssues: Issue[],
+    startDate: Date,
+    endDate: Date,
+    granularity: TrendGranularity,
+    projectNames: Map<string, string> = new Map(),
+    mode: EfficiencyAttribution = getAttributionMode(),
+    calendar: SprintPeriod[] = []
+): EfficiencyTrend {
+    const buckets = getTrendBuckets(startDate, endDate, granularity, calendar);
+    const getProject = (issue: Issue) => {
+        const code = issue.fields?.project?.key || issue.key.split('-')[0];
+        return projectNames.get(code) || code;
+    };
+
+    const results = buckets.map(bucket => {
+        const issues = closedIssues.filter(issue => {
+            const resolved = issue.fields?.resolutiondate ? format(new Date(issue.fields.resolutiondate), 'yyyy-MM-dd') : null;
+            return resolved !== null && resolved >= bucket.startDate && resolved <= bucket.endDate;
+        });
+        const projects = Array.from(new Set(issues.map(getProject)));
+        return {
+            bucket,
+            total: calculateEfficiencyFromIssues(issues, mode),
+            projects: new Map(projects.map(project => [project, calculateEfficiencyFromIssues(issues.filter(issue => getProject(issue) === project), mode)]))
+        };
+    });
+
+    const employeeNames = Array.from(new Set(results.flatMap(result => result.total.normal.map(row => row.employee)))).sort();
+    const projectNamesInTrend = Array.from(new Set(results.flatMap(result => Array.from(result.projects.keys())))).sort();
+
+    return {
+        granularity,
+        startDate: format(startDate, 'yyyy-MM-dd'),
+        endDate: format(endDate, 'yyyy-MM-dd'),
+        buckets,
+        employees: employeeNames.map(name => ({
+            name,
+            points: results.map(({ bucket, total }) => toTrendPoint(
+                bucket.label,
+                total.normal.filter(row => row.employee === name),
+                total.pure.filter(row => row.employee === name)
+            ))
+        })),
+        projects: projectNamesInTrend.map(name => ({
+            name,
+            points: results.map(({ bucket, projects }) => {
+                const result = projects.get(name);
+                return toTrendPoint(bucket.label, result?.normal || [], result?.pure || []);
+            })
+        })),
+        attribution: mode
+    };
+}
+
+export interface TrendChartData {
+    labels: string[];
+    datasets: { label: string; data: (number | null)[] }[];
+}
+
+// Lijngrafiek data (labels en een lijn per medewerker of project) voor de normale of zuivere efficiëntie
+export function toTrendChartData(trend: EfficiencyTrend, series: EfficiencyTrendSeries[], pure = false): TrendChartData {
+    return {
+        labels: trend.buckets.map(bucket => bucket.label),
+        datasets: series.map(line => ({
+            label: line.name,
+            data: line.points.map(point => pure ? point.pureEfficiency : point.efficiency)
+        }))
+    };
+}
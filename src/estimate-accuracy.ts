@@ -0,0 +1,174 @@
+import type { Issue } from './types.js';
+import { percentile } from './flow-metrics.js';
+import { roundHours } from './worklog-report.js';
+
+// Schatting tegenover werkelijk gelogde uren (door alle medewerkers) van een afgesloten issue
+export interface IssueEstimate {
+    key: string;
+    summary: string;
+    project: string;
+    issueType: string;
+    // De toegewezen medewerker; Jira legt niet vast wie de schatting heeft gemaakt
+    assignee: string;
+    estimatedHours: number;
+    loggedHours: number;
+    // Gelogd gedeeld door geschat; 1 is precies volgens schatting
+    ratio: number;
+    sizeBand: string;
+}
+
+// Afgesloten issue zonder originele schatting
+export interface UnestimatedIssue {
+    key: string;
+    summary: string;
+    project: string;
+    issueType: string;
+    assignee: string;
+    loggedHours: number;
+}
+
+export interface RatioDistribution {
+    label: string;
+    count: number;
+}
+
+export interface EstimateAccuracyGroup {
+    name: string;
+    issues: number;
+    estimatedHours: number;
+    loggedHours: number;
+    median: number;
+    // Spreiding: het 25e en 75e percentiel van de verhouding
+    p25: number;
+    p75: number;
+    min: number;
+    max: number;
+    distribution: RatioDistribution[];
+}
+
+export interface EstimateAccuracyReport {
+    startDate: string;
+    endDate: string;
+    overall: EstimateAccuracyGroup;
+    byIssueType: EstimateAccuracyGroup[];
+    bySize: EstimateAccuracyGroup[];
+    byProject: EstimateAccuracyGroup[];
+    byAssignee: EstimateAccuracyGroup[];
+    // Issues met de grootste afwijking van de schatting, naar boven of naar beneden
+    outliers: IssueEstimate[];
+    unestimated: UnestimatedIssue[];
+}
+
+// Grootteklassen van de schatting: minder dan 4 uur, 4 t/m 16 uur en meer dan 16 uur
+export const SIZE_BANDS = ['< 4 uur', '4 - 16 uur', '> 16 uur'];
+
+// Klassen voor de verdeling van de verhouding gelogd / geschat
+const RATIO_BANDS: { label: string; maxRatio: number }[] = [
+    { label: '< 0,5', maxRatio: 0.5 },
+    { label: '0,5 - 0,8', maxRatio: 0.8 },
+    { label: '0,8 - 1,2', maxRatio: 1.2 },
+    { label: '1,2 - 2', maxRatio: 2 },
+    { label: '>= 2', maxRatio: Infinity }
+];
+
+const DEFAULT_OUTLIER_COUNT = 10;
+
+export function getSizeBand(estimatedHours: number): string {
+    if (estimatedHours < 4) {
+        return SIZE_BANDS[0];
+    }
+    return estimatedHours <= 16 ? SIZE_BANDS[1] : SIZE_BANDS[2];
+}
+
+function getLoggedHours(issue: Issue): number {
+    return (issue.fields?.worklog?.worklogs || []).reduce((total, log) => total + log.timeSpentSeconds / 3600, 0);
+}
+
+function groupIssues(estimates: IssueEstimate[], getName: (estimate: IssueEstimate) => string, order?: string[]): EstimateAccuracyGroup[] {
+    const groups = new Map<string, IssueEstimate[]>();
+    estimates.forEach(estimate => {
+        const name = getName(estimate);
+        if (!groups.has(name)) {
+            groups.set(name, []);
+        }
+        groups.get(name)!.push(estimate);
+    });
+
+    return Array.from(groups.entries())
+        .sort(([a], [b]) => order ? order.indexOf(a) - order.indexOf(b) : a.localeCompare(b))
+        .map(([name, groupEstimates]) => summarise(name, groupEstimates));
+}
+
+function summarise(name: string, estimates: IssueEstimate[]): EstimateAccuracyGroup {
+    const ratios = estimates.map(estimate => estimate.ratio);
+    return {
+        name,
+        issues: estimates.length,
+        estimatedHours: roundHours(estimates.reduce((total, estimate) => total + estimate.estimatedHours, 0)),
+        loggedHours: roundHours(estimates.reduce((total, estimate) => total + estimate.loggedHours, 0)),
+        median: percentile(ratios, 50),
+        p25: percentile(ratios, 25),
+        p75: percentile(ratios, 75),
+        min: ratios.length > 0 ? Math.min(...ratios) : 0,
+        max: ratios.length > 0 ? Math.max(...ratios) : 0,
+        distribution: RATIO_BANDS.map(band => ({
+            label: band.label,
+            count: ratios.filter(ratio => RATIO_BANDS.find(candidate => ratio < candidate.maxRatio) === band).length
+        }))
+    };
+}
+
+// Nauwkeurigheid van de schattingen van afgesloten issues (met de worklogs die getIssues ophaalt), per
+// issuetype, grootteklasse, project en medewerker. Issues zonder schatting worden apart vermeld.
+export function buildEstimateAccuracyReport(
+    closedIssues: Issue[],
+    startDate: string,
+    endDate: string,
+    projectNames: Map<string, string> = new Map(),
+    outlierCount = DEFAULT_OUTLIER_COUNT
+): EstimateAccuracyReport {
+    const estimates: IssueEstimate[] = [];
+    const unestimated: UnestimatedIssue[] = [];
+
+    closedIssues.forEach(issue => {
+        const code = issue.fields?.project?.key || issue.key.split('-')[0];
+        const base = {
+            key: issue.key,
+            summary: issue.fields?.summary || '',
+            project: projectNames.get(code) || code,
+            issueType: issue.fields?.issuetype?.name || 'Onbekend',
+            assignee: issue.fields?.assignee?.displayName || 'Niet toegewezen',
+            loggedHours: roundHours(getLoggedHours(issue))
+        };
+
+        const estimatedHours = (issue.fields?.timeoriginalestimate || 0) / 3600;
+        if (estimatedHours <= 0) {
+            unestimated.push(base);
+            return;
+        }
+
+        estimates.push({
+            ...base,
+            estimatedHours: roundHours(estimatedHours),
+            ratio: roundHours(getLoggedHours(issue) / estimatedHours),
+            sizeBand: getSizeBand(estimatedHours)
+        });
+    });
+
+    // De afwijking telt naar beide kanten even zwaar: de helft van de schatting weegt net zo zwaar als het dubbele
+    const deviation = (estimate: IssueEstimate) => estimate.ratio > 0 ? Math.abs(Math.log(estimate.ratio)) : Infinity;
+
+    return {
+        startDate,
+        endDate,
+        overall: summarise('Totaal', estimates),
+        byIssueType: groupIssues(estimates, estimate => estimate.issueType),
+        bySize: groupIssues(estimates, estimate => estimate.sizeBand, SIZE_BANDS),
+        byProject: groupIssues(estimates, estimate => estimate.project),
+        byAssignee: groupIssues(estimates, estimate => estimate.assignee),
+        outliers: [...estimates]
+            .sort((a, b) => deviation(b) - deviation(a))
+            .slice(0, outlierCount),
+        unestimated
+    };
+}
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs';
+import * as dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { logger } from './logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Laad .env.local bestand
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+// Opnemen en afspelen van Jira en Google Sheets responses, zodat de applicatie zonder
+// netwerk en zonder credentials kan draaien:
+// - 'record': echte responses worden als fixture bestanden opgeslagen
+// - 'replay': responses worden uit de fixture bestanden gelezen, er wordt niets opgehaald
+export type FixtureMode = 'off' | 'record' | 'replay';
+export const FIXTURE_MODE: FixtureMode = ['record', 'replay'].includes(process.env.FIXTURE_MODE || '')
+    ? process.env.FIXTURE_MODE as FixtureMode
+    : 'off';
+
+const FIXTURES_PATH = process.env.FIXTURES_PATH || path.join(process.cwd(), 'fixtures');
+
+export type FixtureSource = 'jira' | 'sheets';
+
+// Zet objecten om naar JSON met gesorteerde keys en zonder undefined waarden, zodat dezelfde
+// request altijd dezelfde fixture oplevert
+function stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value)
+            .filter(key => value[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function getFixturePath(source: FixtureSource, request: object): string {
+    const key = stableStringify(request);
+    const hash = crypto.createHash('sha1').update(key).digest('hex').slice(0, 16);
+    const label = key.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+    return path.join(FIXTURES_PATH, source, `${label}-${hash}.json`);
+}
+
+export function readFixture<T = any>(source: FixtureSource, request: object): T {
+    const fixturePath = getFixturePath(source, request);
+    if (!fs.existsSync(fixturePath)) {
+        throw new Error(`Geen ${source} fixture gevonden voor ${stableStringify(request)} (${fixturePath})`);
+    }
+    return JSON.parse(fs.readFileSync(fixturePath, 'utf-8')).response;
+}
+
+export function writeFixture(source: FixtureSource, request: object, response: any): void {
+    const fixturePath = getFixturePath(source, request);
+    try {
+        fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+        fs.writeFileSync(fixturePath, JSON.stringify({ request, response }, null, 2));
+    } catch (error) {
+        logger.error(`Error bij opslaan van ${source} fixture ${fixturePath}: ${error}`);
+    }
+}
@@ -0,0 +1,195 @@
+import { format } from 'date-fns';
+import type { Issue } from './types.js';
+
+// Doorlooptijden van een afgesloten issue, in kalenderdagen
+export interface IssueFlow {
+    key: string;
+    project: string;
+    issueType: string;
+    assignee: string;
+    created: string;
+    resolved: string;
+    // Aangemaakt tot opgelost
+    leadTimeDays: number;
+    // Eerste keer In Progress tot Closed; null als het issue nooit In Progress is geweest
+    cycleTimeDays: number | null;
+    // Dagen per status tussen aanmaken en oplossen
+    timeInStatus: Record<string, number>;
+}
+
+export interface FlowStatistics {
+    count: number;
+    average: number;
+    p50: number;
+    p85: number;
+    p95: number;
+}
+
+export interface FlowGroup {
+    name: string;
+    issues: number;
+    leadTime: FlowStatistics;
+    cycleTime: FlowStatistics;
+    // Gemiddeld aantal dagen per status
+    timeInStatus: Record<string, number>;
+}
+
+export interface FlowReport {
+    startDate: string;
+    endDate: string;
+    issues: IssueFlow[];
+    byProject: FlowGroup[];
+    byIssueType: FlowGroup[];
+    byAssignee: FlowGroup[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statussen waarin aan een issue gewerkt wordt en statussen waarmee een issue klaar is
+function getStatusList(variable: string, defaults: string[]): string[] {
+    const value = process.env[variable];
+    const statuses = value ? value.split(',').map(status => status.trim()).filter(Boolean) : [];
+    return (statuses.length > 0 ? statuses : defaults).map(status => status.toLowerCase());
+}
+
+export function getInProgressStatuses(): string[] {
+    return getStatusList('FLOW_IN_PROGRESS_STATUSES', ['In Progress']);
+}
+
+export function getDoneStatuses(): string[] {
+    return getStatusList('FLOW_DONE_STATUSES', ['Closed']);
+}
+
+function roundDays(days: number): number {
+    return Math.round(days * 100) / 100;
+}
+
+// Percentiel met lineaire interpolatie tussen de twee dichtstbijzijnde waarden
+export function percentile(values: number[], p: number): number {
+    if (values.length === 0) {
+        return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const position = (sorted.length - 1) * p / 100;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return roundDays(sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower));
+}
+
+export function calculateFlowStatistics(values: number[]): FlowStatistics {
+    return {
+        count: values.length,
+        average: values.length > 0 ? roundDays(values.reduce((sum, value) => sum + value, 0) / values.length) : 0,
+        p50: percentile(values, 50),
+        p85: percentile(values, 85),
+        p95: percentile(values, 95)
+    };
+}
+
+// Statuswijzigingen uit de changelog, in volgorde van tijd
+function getStatusTransitions(issue: Issue): { at: Date; from?: string; to: string }[] {
+    return (issue.changelog?.histories || [])
+        .flatMap(history => history.items
+            .filter(item => item.field === 'status')
+            .map(item => ({ at: new Date(history.created), from: item.fromString, to: item.toString })))
+        .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+// Bereken de doorlooptijden van een afgesloten issue uit de changelog. Issues die niet zijn opgelost
+// (geen resolutiondate en geen overgang naar een afgesloten status) geven null.
+export function calculateIssueFlow(issue: Issue): IssueFlow | null {
+    const createdAt = issue.fields?.created ? new Date(issue.fields.created) : null;
+    if (!createdAt) {
+        return null;
+    }
+
+    const transitions = getStatusTransitions(issue);
+    const inProgress = getInProgressStatuses();
+    const done = getDoneStatuses();
+
+    const closedAt = transitions.filter(transition => done.includes(transition.to.toLowerCase())).pop()?.at;
+    const resolvedAt = issue.fields?.resolutiondate ? new Date(issue.fields.resolutiondate) : closedAt;
+    if (!resolvedAt) {
+        return null;
+    }
+
+    // Tijd per status: van aanmaken tot de eerste overgang in de beginstatus, daarna per overgang
+    const timeInStatus: Record<string, number> = {};
+    let status = transitions[0]?.from || transitions[0]?.to || issue.fields?.status?.name || 'Open';
+    let since = createdAt;
+    const addTime = (until: Date) => {
+        if (until > since) {
+            timeInStatus[status] = (timeInStatus[status] || 0) + (until.getTime() - since.getTime()) / DAY_MS;
+            since = until;
+        }
+    };
+    transitions
+        .filter(transition => transition.at <= resolvedAt)
+        .forEach(transition => {
+            addTime(transition.at);
+            status = transition.to;
+        });
+    addTime(resolvedAt);
+
+    const startedAt = transitions.find(transition => inProgress.includes(transition.to.toLowerCase()))?.at;
+    const finishedAt = closedAt ?? resolvedAt;
+
+    return {
+        key: issue.key,
+        project: issue.fields?.project?.key || issue.key.split('-')[0],
+        issueType: issue.fields?.issuetype?.name || 'Onbekend',
+        assignee: issue.fields?.assignee?.displayName || 'Niet toegewezen',
+        created: format(createdAt, 'yyyy-MM-dd'),
+        resolved: format(resolvedAt, 'yyyy-MM-dd'),
+        leadTimeDays: roundDays((resolvedAt.getTime() - createdAt.getTime()) / DAY_MS),
+        cycleTimeDays: startedAt && finishedAt > startedAt ? roundDays((finishedAt.getTime() - startedAt.getTime()) / DAY_MS) : null,
+        timeInStatus: Object.fromEntries(Object.entries(timeInStatus).map(([name, days]) => [name, roundDays(days)]))
+    };
+}
+
+function groupFlows(flows: IssueFlow[], getName: (flow: IssueFlow) => string): FlowGroup[] {
+    const groups = new Map<string, IssueFlow[]>();
+    flows.forEach(flow => {
+        const name = getName(flow);
+        if (!groups.has(name)) {
+            groups.set(name, []);
+        }
+        groups.get(name)!.push(flow);
+    });
+
+    return Array.from(groups.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, groupFlows]) => {
+            const statusDays = new Map<string, number>();
+            groupFlows.forEach(flow => Object.entries(flow.timeInStatus).forEach(([status, days]) => {
+                statusDays.set(status, (statusDays.get(status) || 0) + days);
+            }));
+
+            return {
+                name,
+                issues: groupFlows.length,
+                leadTime: calculateFlowStatistics(groupFlows.map(flow => flow.leadTimeDays)),
+                cycleTime: calculateFlowStatistics(groupFlows
+                    .map(flow => flow.cycleTimeDays)
+                    .filter((days): days is number => days !== null)),
+                timeInStatus: Object.fromEntries(Array.from(statusDays.entries())
+                    .map(([status, days]) => [status, roundDays(days / groupFlows.length)]))
+            };
+        });
+}
+
+// Doorlooptijden van de afgesloten issues, met percentielen per project, issuetype en medewerker
+export function buildFlowReport(issues: Issue[], startDate: Date, endDate: Date): FlowReport {
+    const flows = issues
+        .map(calculateIssueFlow)
+        .filter((flow): flow is IssueFlow => flow !== null);
+
+    return {
+        startDate: format(startDate, 'yyyy-MM-dd'),
+        endDate: format(endDate, 'yyyy-MM-dd'),
+        issues: flows,
+        byProject: groupFlows(flows, flow => flow.project),
+        byIssueType: groupFlows(flows, flow => flow.issueType),
+        byAssignee: groupFlows(flows, flow => flow.assignee)
+    };
+}
@@ -0,0 +1,303 @@
+import { format } from 'date-fns';
+import { logger } from './logger.js';
+import type { Issue, JiraIssue, EfficiencyData } from './types.js';
+import { planIssues, UNPLANNED_SPRINT } from './planning.js';
+import type { SprintCapacity, PlanningOptions, PlannedIssue } from './planning.js';
+import { getSprintCalendar } from './capacity.js';
+import type { SprintPeriod } from './capacity.js';
+
+// Naam van de groep voor issues zonder parent of epic
+export const NO_EPIC = 'Zonder epic';
+
+// Correctie op de resterende schatting van een medewerker: gelogde uren gedeeld door de geschatte uren
+export interface EfficiencyFactor {
+    employee: string;
+    factor: number;
+    // 'team' als de medewerker geen eigen historie heeft en de factor van het team krijgt
+    source: 'employee' | 'team';
+}
+
+export interface SprintFinish {
+    // Laatste sprint waarin nog aan de issues gewerkt wordt; UNPLANNED_SPRINT als niet alles binnen de
+    // beschikbare sprints past, null als er geen resterend werk is
+    finishSprint: string | null;
+    // Einddatum van de laatste sprint; alleen bekend met de Jira sprintkalender of SPRINT_START_DATE
+    finishDate: string | null;
+}
+
+export interface ForecastEstimate extends SprintFinish {
+    remainingHours: number;
+}
+
+export interface ForecastGroup {
+    name: string;
+    summary?: string;
+    issues: number;
+    // Op basis van de resterende schatting uit Jira
+    baseline: ForecastEstimate;
+    // Met de resterende schatting gecorrigeerd voor de efficiëntie van de toegewezen medewerker
+    corrected: ForecastEstimate;
+}
+
+export interface ProjectForecast extends ForecastGroup {
+    epics: ForecastGroup[];
+    teamFactor: number;
+    factors: EfficiencyFactor[];
+}
+
+function roundHours(hours: number): number {
+    return Number(hours.toFixed(1));
+}
+
+// Efficiëntie factoren per medewerker uit de efficiëntie over afgesloten issues. Medewerkers zonder
+// geschatte of gelogde uren krijgen de factor van het hele team; zonder historie is de factor 1.
+export function getEfficiencyFactors(efficiency: EfficiencyData[]): { teamFactor: number; factors: Map<string, number> } {
+    const rows = efficiency.filter(row => (row.estimatedHours ?? 0) > 0);
+    const estimatedHours = rows.reduce((total, row) => total + row.estimatedHours!, 0);
+    const loggedHours = rows.reduce((total, row) => total + (row.loggedHours ?? 0), 0);
+
+    return {
+        teamFactor: estimatedHours > 0 ? Number((loggedHours / estimatedHours).toFixed(2)) : 1,
+        factors: new Map(rows
+            .filter(row => row.efficiency > 0)
+            .map(row => [row.employee, Number((row.efficiency / 100).toFixed(2))]))
+    };
+}
+
+export function getEpicKey(issue: JiraIssue): string {
+    return issue.fields.parent?.key || issue.fields.customfield_10014 || NO_EPIC;
+}
+
+// Index van de laatste sprint van de ingeplande issues: -1 zonder resterend werk en Infinity als niet alles
+// binnen de beschikbare sprints past
+function getFinishIndex(plannedIssues: PlannedIssue[], sprints: string[]): number {
+    if (plannedIssues.some(planned => planned.sprint === UNPLANNED_SPRINT)) {
+        return Infinity;
+    }
+    return Math.max(-1, ...plannedIssues.map(planned => sprints.indexOf(planned.sprint)));
+}
+
+function toSprintFinish(finishIndex: number, sprints: string[], calendar: SprintPeriod[]): SprintFinish {
+    if (finishIndex < 0) {
+        return { finishSprint: null, finishDate: null };
+    }
+    if (finishIndex === Infinity) {
+        return { finishSprint: UNPLANNED_SPRINT, finishDate: null };
+    }
+
+    const finishSprint = sprints[finishIndex];
+    const period = Number.isInteger(Number(finishSprint)) ? getSprintCalendar([Number(finishSprint)], calendar)?.[0] : undefined;
+    return {
+        finishSprint,
+        finishDate: period ? format(period.endDate, 'yyyy-MM-dd') : null
+    };
+}
+
+function summarisePlan(plannedIssues: PlannedIssue[], sprints: string[], calendar: SprintPeriod[]): ForecastEstimate {
+    return {
+        remainingHours: roundHours(plannedIssues.reduce((total, planned) => total + planned.hours, 0)),
+        ...toSprintFinish(getFinishIndex(plannedIssues, sprints), sprints, calendar)
+    };
+}
+
+function getSortedSprints(sprintCapacity: SprintCapacity[]): string[] {
+    return Array.from(new Set(sprintCapacity.map(c => c.sprint)))
+        .sort((a, b) => Number(a) - Number(b) || a.localeCompare(b));
+}
+
+function groupByEpic(issues: JiraIssue[]): [string, JiraIssue[]][] {
+    const epics = new Map<string, JiraIssue[]>();
+    issues.forEach(issue => {
+        const epic = getEpicKey(issue);
+        epics.set(epic, [...(epics.get(epic) || []), issue]);
+    });
+    return Array.from(epics.entries())
+        .sort(([a], [b]) => (a === NO_EPIC ? 1 : 0) - (b === NO_EPIC ? 1 : 0) || a.localeCompare(b));
+}
+
+function getEpicSummary(epic: string, issues: JiraIssue[]): string | undefined {
+    return issues.find(issue => issue.fields.parent?.key === epic)?.fields.parent?.fields?.summary;
+}
+
+// Prognose wanneer het resterende werk van een project klaar is, voor het hele project en per epic. De
+// issues worden twee keer ingepland met dezelfde sprint capaciteit: met de resterende schatting uit Jira
+// en met de resterende schatting vermenigvuldigd met de efficiëntie factor van de toegewezen medewerker.
+export function buildProjectForecast(
+    projectName: string,
+    issues: JiraIssue[],
+    sprintCapacity: SprintCapacity[],
+    efficiency: EfficiencyData[],
+    options: PlanningOptions = {},
+    calendar: SprintPeriod[] = []
+): ProjectForecast {
+    const sprints = getSortedSprints(sprintCapacity);
+    const { teamFactor, factors } = getEfficiencyFactors(efficiency);
+    const getFactor = (employee?: string) => (employee ? factors.get(employee) : undefined) ?? teamFactor;
+
+    const correctedIssues = issues.map(issue => ({
+        ...issue,
+        fields: {
+            ...issue.fields,
+            timeestimate: Math.round((issue.fields.timeestimate || 0) * getFactor(issue.fields.assignee?.displayName))
+        }
+    }));
+
+    const baseline = planIssues(issues, sprintCapacity, options);
+    const corrected = planIssues(correctedIssues, sprintCapacity, options);
+
+    const summarise = (name: string, groupIssues: JiraIssue[], summary?: string): ForecastGroup => {
+        const keys = new Set(groupIssues.map(issue => issue.key));
+        return {
+            name,
+            ...(summary ? { summary } : {}),
+            issues: groupIssues.length,
+            baseline: summarisePlan(baseline.plannedIssues.filter(planned => keys.has(planned.issue.key)), sprints, calendar),
+            corrected: summarisePlan(corrected.plannedIssues.filter(planned => keys.has(planned.issue.key)), sprints, calendar)
+        };
+    };
+
+    const assignees = Array.from(new Set(issues.map(issue => issue.fields.assignee?.displayName).filter((name): name is string => Boolean(name)))).sort();
+    const forecast: ProjectForecast = {
+        ...summarise(projectName, issues),
+        epics: groupByEpic(issues).map(([epic, epicIssues]) => summarise(epic, epicIssues, getEpicSummary(epic, epicIssues))),
+        teamFactor,
+        factors: assignees.map(employee => ({
+            employee,
+            factor: getFactor(employee),
+            source: factors.has(employee) ? 'employee' : 'team'
+        }))
+    };
+
+    logger.log(`Prognose voor ${projectName}: klaar in sprint ${forecast.baseline.finishSprint ?? '-'}, gecorrigeerd in sprint ${forecast.corrected.finishSprint ?? '-'}`);
+    return forecast;
+}
+
+export interface SimulationGroup {
+    name: string;
+    summary?: string;
+    issues: number;
+    // Sprint waarin het werk in 50, 85 en 95 procent van de simulaties klaar is
+    p50: SprintFinish;
+    p85: SprintFinish;
+    p95: SprintFinish;
+}
+
+export interface SprintProbability {
+    sprint: string;
+    // Percentage van de simulaties dat in deze sprint klaar is, en in deze sprint of eerder
+    probability: number;
+    cumulative: number;
+}
+
+export interface ProjectSimulation extends SimulationGroup {
+    runs: number;
+    // Aantal afgesloten issues waaruit de verhoudingen gelogd / geschat getrokken worden
+    samples: number;
+    distribution: SprintProbability[];
+    epics: SimulationGroup[];
+}
+
+export interface SimulationOptions {
+    runs?: number;
+    planning?: PlanningOptions;
+    // Jira sprintkalender voor de einddatums van de sprints
+    calendar?: SprintPeriod[];
+    // Willekeurig getal in [0, 1); vervangbaar voor reproduceerbare simulaties
+    random?: () => number;
+}
+
+export const DEFAULT_SIMULATION_RUNS = 2000;
+
+// Verhouding gelogde uren / originele schatting van afgesloten issues (met de worklogs die getIssues
+// per issue ophaalt). Met projectCodes tellen alleen de issues van die projecten mee, zodat de simulatie
+// de historie van het eigen team gebruikt. Issues zonder schatting of zonder gelogde uren tellen niet mee.
+export function getHistoricalRatios(closedIssues: Issue[], projectCodes?: string[]): number[] {
+    const codes = projectCodes ? new Set(projectCodes.map(code => code.trim())) : null;
+    return closedIssues
+        .filter(issue => !codes || codes.has(issue.fields?.project?.key || issue.key.split('-')[0]))
+        .map(issue => {
+            const estimatedSeconds = issue.fields?.timeoriginalestimate || 0;
+            const loggedSeconds = (issue.fields?.worklog?.worklogs || []).reduce((total, log) => total + log.timeSpentSeconds, 0);
+            return estimatedSeconds > 0 ? loggedSeconds / estimatedSeconds : 0;
+        })
+        .filter(ratio => ratio > 0);
+}
+
+// Sprint index bij percentiel p (nearest rank); Infinity (niet gepland) sorteert als laatste
+function getPercentileIndex(sortedIndices: number[], p: number): number {
+    return sortedIndices[Math.max(0, Math.ceil(p / 100 * sortedIndices.length) - 1)];
+}
+
+// Monte Carlo prognose: in elke simulatie krijgt elk issue een verhouding gelogd / geschat die willekeurig
+// getrokken wordt uit de historische verhoudingen, waarna de issues met de zo aangepaste resterende
+// schatting worden ingepland op de sprint capaciteit. Per project en epic volgt daaruit de sprint waarin
+// het werk met 50, 85 en 95 procent zekerheid klaar is.
+export function simulateProjectForecast(
+    projectName: string,
+    issues: JiraIssue[],
+    sprintCapacity: SprintCapacity[],
+    ratios: number[],
+    options: SimulationOptions = {}
+): ProjectSimulation {
+    if (ratios.length === 0) {
+        throw new Error('Geen afgesloten issues met schatting en gelogde uren om de simulatie op te baseren');
+    }
+
+    const runs = options.runs ?? DEFAULT_SIMULATION_RUNS;
+    const random = options.random ?? Math.random;
+    const calendar = options.calendar ?? [];
+    const sprints = getSortedSprints(sprintCapacity);
+    const epics = groupByEpic(issues);
+
+    // Per simulatie de index van de laatste sprint voor het project en voor elke epic
+    const projectIndices: number[] = [];
+    const epicIndices = epics.map(() => [] as number[]);
+
+    for (let run = 0; run < runs; run++) {
+        const simulatedIssues = issues.map(issue => ({
+            ...issue,
+            fields: {
+                ...issue.fields,
+                timeestimate: Math.round((issue.fields.timeestimate || 0) * ratios[Math.floor(random() * ratios.length)])
+            }
+        }));
+        const { plannedIssues } = planIssues(simulatedIssues, sprintCapacity, { ...options.planning, quiet: true });
+
+        projectIndices.push(getFinishIndex(plannedIssues, sprints));
+        epics.forEach(([, epicIssues], epicIndex) => {
+            const keys = new Set(epicIssues.map(issue => issue.key));
+            epicIndices[epicIndex].push(getFinishIndex(plannedIssues.filter(planned => keys.has(planned.issue.key)), sprints));
+        });
+    }
+
+    const summarise = (name: string, groupIssues: JiraIssue[], indices: number[], summary?: string): SimulationGroup => {
+        const sorted = [...indices].sort((a, b) => a - b);
+        return {
+            name,
+            ...(summary ? { summary } : {}),
+            issues: groupIssues.length,
+            p50: toSprintFinish(getPercentileIndex(sorted, 50), sprints, calendar),
+            p85: toSprintFinish(getPercentileIndex(sorted, 85), sprints, calendar),
+            p95: toSprintFinish(getPercentileIndex(sorted, 95), sprints, calendar)
+        };
+    };
+
+    const toPercentage = (count: number) => Number((count / runs * 100).toFixed(1));
+    let cumulative = 0;
+    const distribution = [...sprints, UNPLANNED_SPRINT].map((sprint, index) => {
+        const count = projectIndices.filter(finishIndex => index === sprints.length ? finishIndex === Infinity : finishIndex === index).length;
+        cumulative += count;
+        return { sprint, probability: toPercentage(count), cumulative: toPercentage(cumulative) };
+    });
+
+    const simulation: ProjectSimulation = {
+        ...summarise(projectName, issues, projectIndices),
+        runs,
+        samples: ratios.length,
+        distribution,
+        epics: epics.map(([epic, epicIssues], epicIndex) => summarise(epic, epicIssues, epicIndices[epicIndex], getEpicSummary(epic, epicIssues)))
+    };
+
+    logger.log(`Simulatie voor ${projectName} (${runs} keer): P50 sprint ${simulation.p50.finishSprint ?? '-'}, P85 sprint ${simulation.p85.finishSprint ?? '-'}, P95 sprint ${simulation.p95.finishSprint ?? '-'}`);
+    return simulation;
+}
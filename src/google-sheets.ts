@@ -3,6 +3,11 @@ import * as dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { logger } from './logger.js';
+import { FIXTURE_MODE, readFixture, writeFixture } from './fixtures.js';
+import { parseSheet, resolveColumns, formatSheetRowError } from './sheet-schema.js';
+import type { SheetSchema, SheetRowError } from './sheet-schema.js';
+import type { GoogleSheetsData } from './types.js';
+import type { LeaveEntry } from './leave.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -10,27 +15,194 @@ const __dirname = path.dirname(__filename);
 // Laad .env.local bestand
 dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
 
-// Check required environment variables
+// Check required environment variables (niet nodig als responses uit fixtures komen)
 const requiredEnvVars = ['GOOGLE_SHEETS_CLIENT_EMAIL', 'GOOGLE_SHEETS_PRIVATE_KEY', 'GOOGLE_SHEETS_SPREADSHEET_ID'];
 for (const envVar of requiredEnvVars) {
-    if (!process.env[envVar]) {
+    if (FIXTURE_MODE !== 'replay' && !process.env[envVar]) {
         const error = new Error(`Missing required environment variable: ${envVar}`);
         logger.error(error.message);
         throw error;
     }
 }
 
+// Rapporten terugschrijven naar de spreadsheet; hiervoor moet het service account schrijfrechten hebben
+export const REPORT_SHEET_ENABLED = process.env.REPORT_SHEET_ENABLED === 'true';
+
 // Configureer Google Sheets API
 const auth = new google.auth.GoogleAuth({
     credentials: {
         client_email: process.env.GOOGLE_SHEETS_CLIENT_EMAIL,
         private_key: process.env.GOOGLE_SHEETS_PRIVATE_KEY?.replace(/\\n/g, '\n'),
     },
-    scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
+    scopes: [REPORT_SHEET_ENABLED
+        ? 'https://www.googleapis.com/auth/spreadsheets'
+        : 'https://www.googleapis.com/auth/spreadsheets.readonly'],
 });
 
 const sheets = google.sheets({ version: 'v4', auth });
 
+// Haal de waarden van een bereik op; in replay mode komen ze uit de fixtures, in record mode
+// worden ze daar opgeslagen
+async function getSheetValues(range: string): Promise<{ data: { values?: any[][] | null } }> {
+    const request = { range };
+
+    if (FIXTURE_MODE === 'replay') {
+        return { data: readFixture('sheets', request) };
+    }
+
+    const response = await sheets.spreadsheets.values.get({
+        spreadsheetId: process.env.GOOGLE_SHEETS_SPREADSHEET_ID,
+        range,
+    });
+
+    if (FIXTURE_MODE === 'record') {
+        writeFixture('sheets', request, { values: response.data.values });
+    }
+    return response;
+}
+
+function getReportSpreadsheetId(): string | undefined {
+    return process.env.REPORT_SHEET_SPREADSHEET_ID || process.env.GOOGLE_SHEETS_SPREADSHEET_ID;
+}
+
+async function getSheetTitles(spreadsheetId?: string): Promise<string[]> {
+    const response = await sheets.spreadsheets.get({ spreadsheetId, fields: 'sheets.properties.title' });
+    return (response.data.sheets || []).map(sheet => sheet.properties?.title || '');
+}
+
+export async function sheetTabExists(title: string): Promise<boolean> {
+    if (FIXTURE_MODE === 'replay') {
+        return false;
+    }
+    return (await getSheetTitles(getReportSpreadsheetId())).includes(title);
+}
+
+// Schrijf de rijen naar een tabblad van de rapport spreadsheet. Een bestaand tabblad wordt eerst
+// leeggemaakt, anders wordt het tabblad aangemaakt. In replay mode wordt er niets geschreven.
+export async function writeSheetTab(title: string, rows: (string | number)[][]): Promise<'created' | 'updated' | 'skipped'> {
+    if (!REPORT_SHEET_ENABLED) {
+        throw new Error('Terugschrijven naar Google Sheets staat uit (REPORT_SHEET_ENABLED)');
+    }
+    if (FIXTURE_MODE === 'replay') {
+        logger.log(`Replay mode: ${rows.length} rijen niet geschreven naar tabblad ${title}`);
+        return 'skipped';
+    }
+
+    const spreadsheetId = getReportSpreadsheetId();
+    const range = `'${title.replace(/'/g, "''")}'`;
+
+    try {
+        const exists = (await getSheetTitles(spreadsheetId)).includes(title);
+        if (exists) {
+            await sheets.spreadsheets.values.clear({ spreadsheetId, range });
+        } else {
+            await sheets.spreadsheets.batchUpdate({
+                spreadsheetId,
+                requestBody: { requests: [{ addSheet: { properties: { title } } }] }
+            });
+        }
+
+        await sheets.spreadsheets.values.update({
+            spreadsheetId,
+            range: `${range}!A1`,
+            valueInputOption: 'RAW',
+            requestBody: { values: rows }
+        });
+
+        logger.log(`${rows.length} rijen geschreven naar tabblad ${title} (${exists ? 'bijgewerkt' : 'aangemaakt'})`);
+        return exists ? 'updated' : 'created';
+    } catch (error: any) {
+        logger.error(`Error bij schrijven naar tabblad ${title}: ${error.message}`);
+        throw error;
+    }
+}
+
+// Kolommen per tabblad, op kolomkop. De legacyIndex is de vaste positie uit de oude indeling, die
+// gebruikt wordt als de kopregel geen enkele bekende kolomnaam bevat.
+const SPRINT_CAPACITY_SCHEMA: SheetSchema = {
+    tab: 'Sprint Capacity',
+    columns: {
+        assignee: { header: 'Medewerker', aliases: ['Naam', 'Assignee'], type: 'string', required: true, legacyIndex: 0 },
+        capacity: { header: 'Capaciteit', aliases: ['Uren', 'Beschikbare uren', 'Capacity'], type: 'number', required: true, legacyIndex: 1 },
+        sprintId: { header: 'Sprint', aliases: ['Sprint nummer', 'Sprint ID', 'SprintId'], type: 'integer', required: true, legacyIndex: 2 }
+    }
+};
+
+const PROJECTS_SCHEMA: SheetSchema = {
+    tab: 'Projects',
+    columns: {
+        projectName: { header: 'Project', aliases: ['Projectnaam', 'Project naam', 'ProjectName'], type: 'string', required: true, legacyIndex: 0 },
+        projectCodes: { header: 'Projectcodes', aliases: ['Project codes', 'Codes', 'ProjectCodes'], type: 'list', required: true, legacyIndex: 1 },
+        jqlFilter: { header: 'JQL filter', aliases: ['JQL', 'Filter', 'JqlFilter'], type: 'string', legacyIndex: 2 },
+        worklogName: { header: 'Worklog naam', aliases: ['Worklog', 'Worklognaam', 'WorklogName'], type: 'string', legacyIndex: 3 },
+        worklogJql: { header: 'Worklog JQL', aliases: ['WorklogJql'], type: 'string', legacyIndex: 4 }
+    }
+};
+
+const WORKLOGS_SCHEMA: SheetSchema = {
+    tab: 'Worklogs',
+    columns: {
+        worklogName: { header: 'Worklog naam', aliases: ['Worklog', 'Worklognaam', 'WorklogName'], type: 'string', required: true, legacyIndex: 0 },
+        columnName: { header: 'Kolom', aliases: ['Kolomnaam', 'Kolom naam', 'ColumnName'], type: 'string', required: true, legacyIndex: 1 },
+        // JQL kan komma's bevatten en wordt daarom niet als lijst gelezen
+        issues: { header: 'Issues', aliases: ['Issuefilter', 'Issue filter', 'JQL'], type: 'string', legacyIndex: 2 },
+        priority: { header: 'Prioriteit', aliases: ['Prio'], type: 'number' },
+        issueKeys: { header: 'Issue keys', aliases: ['Keys'], type: 'list' },
+        issueTypes: { header: 'Issuetypes', aliases: ['Issuetype', 'Type'], type: 'list' },
+        parents: { header: 'Parent', aliases: ['Epic', 'Parents'], type: 'list' },
+        labels: { header: 'Labels', aliases: ['Label'], type: 'list' },
+        commentPattern: { header: 'Commentaar', aliases: ['Comment', 'Omschrijving'], type: 'string' }
+    }
+};
+
+const EMPLOYEES_SCHEMA: SheetSchema = {
+    tab: 'Employees',
+    columns: {
+        name: { header: 'Naam', type: 'string', required: true },
+        effectiveHours: { header: 'Effectieve uren', type: 'number', required: 'header' },
+        project: { header: 'Project', type: 'string', required: 'header' },
+        startDate: { header: 'In dienst', aliases: ['Startdatum', 'Start'], type: 'date' },
+        endDate: { header: 'Uit dienst', aliases: ['Einddatum', 'Eind'], type: 'date' }
+    }
+};
+
+// Sprintnamen staan in de Employees sheet, naast de medewerkers; niet elke regel heeft een sprint
+const SPRINT_NAMES_SCHEMA: SheetSchema = {
+    tab: 'Employees',
+    columns: {
+        sprintId: { header: 'Sprint nummer', aliases: ['Sprintnummer', 'Sprint ID', 'SprintId'], type: 'integer', required: 'header' },
+        name: { header: 'Sprint', aliases: ['Sprintnaam', 'Sprint naam'], type: 'string', required: 'header' }
+    }
+};
+
+const LEAVE_SCHEMA: SheetSchema = {
+    tab: 'Verlof',
+    columns: {
+        employee: { header: 'Medewerker', aliases: ['Naam'], type: 'string' },
+        startDate: { header: 'Van', aliases: ['Startdatum', 'Datum'], type: 'date', required: true },
+        endDate: { header: 'Tot en met', aliases: ['T/m', 'Einddatum', 'Tot'], type: 'date' },
+        hoursPerDay: { header: 'Uren per dag', aliases: ['Uren'], type: 'number' },
+        description: { header: 'Omschrijving', aliases: ['Reden'], type: 'string' }
+    }
+};
+
+// Validatiefouten per tabblad van de laatste keer dat het tabblad is ingelezen
+const sheetValidationErrors = new Map<string, SheetRowError[]>();
+
+export function getSheetValidationErrors(): SheetRowError[] {
+    return Array.from(sheetValidationErrors.values()).flat();
+}
+
+// Met een eigen key voor de validatiefouten als meerdere schema's hetzelfde tabblad lezen
+function parseTab<T>(schema: SheetSchema, rows: unknown[][], key: string = schema.tab): (T & { row: number })[] {
+    const { records, errors } = parseSheet<T>(schema, rows);
+
+    errors.forEach(error => logger.error(`Ongeldige regel in Google Sheet: ${formatSheetRowError(error)}`));
+    sheetValidationErrors.set(key, errors);
+
+    return records;
+}
+
 export interface SprintCapacity {
     assignee: string;
     capacity: number;
@@ -41,28 +213,16 @@ export async function getSprintCapacityFromSheet(): Promise<SprintCapacity[]> {
     try {
         logger.log('Start ophalen van sprint capaciteit uit Google Sheet...');
         
-        const response = await sheets.spreadsheets.values.get({
-            spreadsheetId: process.env.GOOGLE_SHEETS_SPREADSHEET_ID,
-            range: 'Sprint Capacity!A2:C', // Pas dit aan naar het juiste bereik in je sheet
-        });
+        const response = await getSheetValues('Sprint Capacity!A1:Z');
 
         const rows = response.data.values;
-        if (!rows || rows.length === 0) {
+        if (!rows || rows.length <= 1) {
             logger.error('Geen data gevonden in Google Sheet');
             throw new Error('Geen data gevonden in Google Sheet');
         }
 
-        const capacities: SprintCapacity[] = [];
-        rows.forEach((row, index) => {
-            const [assignee, capacity, sprintId] = row;
-            if (assignee && capacity && sprintId) {
-                capacities.push({
-                    assignee,
-                    capacity: parseInt(capacity, 10),
-                    sprintId: parseInt(sprintId, 10)
-                });
-            }
-        });
+        const capacities = parseTab<SprintCapacity>(SPRINT_CAPACITY_SCHEMA, rows)
+            .map(({ assignee, capacity, sprintId }) => ({ assignee, capacity, sprintId }));
 
         logger.log(`${capacities.length} sprint capaciteiten gevonden in Google Sheet`);
         return capacities;
@@ -84,31 +244,24 @@ export async function getProjectConfigsFromSheet(): Promise<ProjectConfig[]> {
     try {
         logger.log('Start ophalen van project configuraties uit Google Sheet...');
         
-        const response = await sheets.spreadsheets.values.get({
-            spreadsheetId: process.env.GOOGLE_SHEETS_SPREADSHEET_ID,
-            range: 'Projects!A2:E', // Aangepast naar A2:E om ook de worklogJql kolom op te halen
-        });
+        const response = await getSheetValues('Projects!A1:Z');
 
         const rows = response.data.values;
-        if (!rows || rows.length === 0) {
+        if (!rows || rows.length <= 1) {
             logger.error('Geen project configuraties gevonden in Google Sheet');
             throw new Error('Geen project configuraties gevonden in Google Sheet');
         }
 
-        const configs: ProjectConfig[] = [];
-        rows.forEach((row, index) => {
-            const [projectName, projectCodes, jqlFilter, worklogName, worklogJql] = row;
-            if (projectName && projectCodes) {
-                configs.push({
-                    projectName,
-                    projectCodes: projectCodes.split(',').map((code: string) => code.trim()),
-                    jqlFilter: jqlFilter || '',
-                    worklogName: worklogName || '',
-                    worklogJql: worklogJql || ''
-                });
-                logger.log(`Project configuratie voor ${projectName}:`);
-                logger.log(`- WorklogJql: ${worklogJql || 'geen'}`);
-            }
+        const configs: ProjectConfig[] = parseTab<Partial<ProjectConfig>>(PROJECTS_SCHEMA, rows).map(record => ({
+            projectName: record.projectName!,
+            projectCodes: record.projectCodes!,
+            jqlFilter: record.jqlFilter || '',
+            worklogName: record.worklogName || '',
+            worklogJql: record.worklogJql || ''
+        }));
+        configs.forEach(config => {
+            logger.log(`Project configuratie voor ${config.projectName}:`);
+            logger.log(`- WorklogJql: ${config.worklogJql || 'geen'}`);
         });
 
         logger.log(`${configs.length} project configuraties gevonden in Google Sheet`);
@@ -120,39 +273,37 @@ export async function getProjectConfigsFromSheet(): Promise<ProjectConfig[]> {
 }
 
 export interface WorklogConfig {
+    row: number;
     worklogName: string;
     columnName: string;
     issues: string[];
     projectName?: string;
+    priority?: number;
+    issueKeys?: string[];
+    issueTypes?: string[];
+    parents?: string[];
+    labels?: string[];
+    commentPattern?: string;
 }
 
 export async function getWorklogConfigsFromSheet(): Promise<WorklogConfig[]> {
     try {
         logger.log('Start ophalen van worklog configuraties uit Google Sheet...');
         
-        const response = await sheets.spreadsheets.values.get({
-            spreadsheetId: process.env.GOOGLE_SHEETS_SPREADSHEET_ID,
-            range: 'Worklogs!A2:C', // Aangepast naar A2:C om ook de issues kolom op te halen
-        });
+        const response = await getSheetValues('Worklogs!A1:Z');
 
         const rows = response.data.values;
-        if (!rows || rows.length === 0) {
+        if (!rows || rows.length <= 1) {
             logger.error('Geen worklog configuraties gevonden in Google Sheet');
             throw new Error('Geen worklog configuraties gevonden in Google Sheet');
         }
 
-        const configs: WorklogConfig[] = [];
-        rows.forEach((row, index) => {
-            const [worklogName, columnName, issues] = row;
-            if (worklogName && columnName) {
-                configs.push({
-                    projectName: worklogName || '',
-                    worklogName,
-                    columnName,
-                    issues: issues ? issues.split(',').map((issue: string) => issue.trim()) : []
-                });
-            }
-        });
+        const configs: WorklogConfig[] = parseTab<Omit<WorklogConfig, 'row' | 'issues'> & { issues?: string }>(WORKLOGS_SCHEMA, rows)
+            .map(({ issues, ...record }) => ({
+                ...record,
+                projectName: record.worklogName,
+                issues: issues ? [issues] : []
+            }));
 
         logger.log(`${configs.length} worklog configuraties gevonden in Google Sheet`);
         return configs;
@@ -162,13 +313,53 @@ export async function getWorklogConfigsFromSheet(): Promise<WorklogConfig[]> {
     }
 }
 
-export async function getGoogleSheetsData() {
+export interface Employee {
+    // Regelnummer in de Employees sheet
+    row: number;
+    name: string;
+    effectiveHours: number;
+    project: string;
+    // Eerste en laatste werkdag, als de medewerker binnen de planningsperiode begint of vertrekt
+    startDate?: Date;
+    endDate?: Date;
+}
+
+// Zet de rijen van de Employees sheet (inclusief kopregel) om naar medewerkers
+export function parseEmployees(rows: GoogleSheetsData): Employee[] {
+    return parseTab<Partial<Employee>>(EMPLOYEES_SCHEMA, rows).map(({ name, effectiveHours, project, ...record }) => ({
+        ...record,
+        name: name!,
+        effectiveHours: effectiveHours ?? 0,
+        project: project || ''
+    }));
+}
+
+// Sprintnummer en -naam uit de Employees sheet (inclusief kopregel). Zonder de kolommen Sprint nummer en
+// Sprint zijn er geen sprintnamen.
+export function parseSprintNames(rows: GoogleSheetsData): Map<string, string> {
+    const sprintNames = new Map<string, string>();
+    if (rows.length === 0) {
+        return sprintNames;
+    }
+
+    try {
+        resolveColumns(SPRINT_NAMES_SCHEMA, rows[0]);
+    } catch {
+        return sprintNames;
+    }
+
+    parseTab<{ sprintId?: number; name?: string }>(SPRINT_NAMES_SCHEMA, rows, 'Employees sprintnamen').forEach(record => {
+        if (record.sprintId !== undefined && record.name) {
+            sprintNames.set(record.sprintId.toString(), record.name);
+        }
+    });
+    return sprintNames;
+}
+
+export async function getGoogleSheetsData(): Promise<GoogleSheetsData> {
   try {
     
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: process.env.GOOGLE_SHEETS_SPREADSHEET_ID,
-      range: 'Employees!A1:H',
-    });
+    const response = await getSheetValues('Employees!A1:Z');
 
     const rows = response.data.values;
     if (!rows || rows.length === 0) {
@@ -176,21 +367,58 @@ export async function getGoogleSheetsData() {
       throw new Error('Geen data gevonden in Resources sheet');
     }
 
-    // Valideer de verplichte kolommen
-    const headerRow = rows[0];
-    const nameIndex = 2; // Kolom C (Naam)
-    const projectIndex = 7; // Kolom H (Project)
-    const effectiveHoursIndex = 6; // Kolom G (Effectieve uren)
-
-    // Controleer of de headers overeenkomen met wat we verwachten
-    if (headerRow[nameIndex] !== 'Naam' || headerRow[projectIndex] !== 'Project' || headerRow[effectiveHoursIndex] !== 'Effectieve uren') {
-      logger.error(`Verkeerde kolom headers in Employees sheet. Verwacht: Naam (C), Project (H), Effectieve uren (G)`);
-      throw new Error(`Verkeerde kolom headers in Employees sheet`);
-    }
+    // Valideer de verplichte kolommen; de volgorde van de kolommen maakt niet uit
+    resolveColumns(EMPLOYEES_SCHEMA, rows[0]);
 
     return rows;
   } catch (error) {
     logger.error(`Error bij ophalen van Resources sheet data: ${error instanceof Error ? error.message : error}`);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+export async function getEmployeesFromSheet(): Promise<Employee[]> {
+    return parseEmployees(await getGoogleSheetsData());
+}
+
+// De Sheets API meldt een tabblad dat niet bestaat als een bereik dat niet gelezen kan worden. In replay
+// mode is er dan geen fixture, omdat het opnemen op dezelfde fout stuk ging.
+function isMissingTabError(error: any): boolean {
+    const message = error?.message || '';
+    return (error?.code === 400 && /Unable to parse range/i.test(message))
+        || (FIXTURE_MODE === 'replay' && message.startsWith('Geen sheets fixture gevonden'));
+}
+
+// Een ontbrekend Verlof tabblad is geen fout en wordt maar één keer gemeld
+let missingLeaveTabLogged = false;
+
+// Verlof en vrije dagen uit het Verlof tabblad. Het tabblad is optioneel; zonder tabblad is er geen verlof.
+export async function getLeaveFromSheet(): Promise<LeaveEntry[]> {
+    let rows: any[][] | null | undefined;
+    try {
+        rows = (await getSheetValues('Verlof!A1:Z')).data.values;
+    } catch (error: any) {
+        if (!isMissingTabError(error)) {
+            logger.error(`Geen verlof ingelezen uit Google Sheet (tabblad Verlof): ${error.message}`);
+        } else if (!missingLeaveTabLogged) {
+            logger.log('Geen tabblad Verlof in de Google Sheet, er wordt gerekend zonder verlof uit de sheet');
+            missingLeaveTabLogged = true;
+        }
+        return [];
+    }
+
+    if (!rows || rows.length <= 1) {
+        return [];
+    }
+
+    const leave: LeaveEntry[] = parseTab<Partial<LeaveEntry>>(LEAVE_SCHEMA, rows).map(record => ({
+        employee: record.employee,
+        startDate: record.startDate!,
+        endDate: record.endDate ?? record.startDate!,
+        hoursPerDay: record.hoursPerDay,
+        description: record.description || 'Verlof'
+    }));
+
+    logger.log(`${leave.length} verlofregels gevonden in Google Sheet`);
+    return leave;
+}
@@ -1,12 +1,31 @@
 import axios from 'axios';
-import type { Issue, IssueLink, WorkLog, WorkLogsResponse, EfficiencyData } from './types.js';
+import type { InternalAxiosRequestConfig } from 'axios';
+import type { Issue, IssueHistory, IssueLink, WorkLog, WorkLogsResponse, EfficiencyData } from './types.js';
 import * as dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { AsyncLocalStorage } from 'async_hooks';
 import { logger } from './logger.js';
 import { WorkLogsResponse as OldWorkLogsResponse, EfficiencyTable } from './types.js';
-import { getSprintCapacityFromSheet, ProjectConfig, getProjectConfigsFromSheet, getGoogleSheetsData } from './google-sheets.js';
+import { getSprintCapacityFromSheet, ProjectConfig, getProjectConfigsFromSheet, getEmployeesFromSheet } from './google-sheets.js';
+import { buildCapacityCalendar } from './capacity.js';
+import { getLeaveCalendar } from './leave.js';
 import { format } from 'date-fns';
+import { mapWithConcurrency } from './utils/concurrency.js';
+import { FIXTURE_MODE, readFixture, writeFixture } from './fixtures.js';
+import {
+    getSyncState,
+    setSyncState,
+    upsertIssues,
+    upsertWorklogs,
+    deleteWorklogs,
+    getStoredWorklogs,
+    getStoredIssues,
+    getMissingIssueIds,
+    getStoredProjectKeys,
+    getJqlMatches,
+    setJqlMatches
+} from './worklog-store.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -18,8 +37,8 @@ const JIRA_DOMAIN = process.env.JIRA_HOST;
 const JIRA_EMAIL = process.env.JIRA_USERNAME;
 const JIRA_API_TOKEN = process.env.JIRA_API_TOKEN;
 
-// Check required environment variables
-if (!JIRA_EMAIL || !JIRA_API_TOKEN || !JIRA_DOMAIN) {
+// Check required environment variables (niet nodig als responses uit fixtures komen)
+if (FIXTURE_MODE !== 'replay' && (!JIRA_EMAIL || !JIRA_API_TOKEN || !JIRA_DOMAIN)) {
     throw new Error('Missing required environment variables: JIRA_EMAIL, JIRA_API_TOKEN, or JIRA_DOMAIN');
 }
 
@@ -35,10 +54,119 @@ export const jiraClient = axios.create({
     }
 });
 
-// Error handler voor Axios requests
+// Beschrijving van een request waarmee een fixture wordt opgezocht
+function describeJiraRequest(config: InternalAxiosRequestConfig) {
+    let data = config.data;
+    if (typeof data === 'string') {
+        try {
+            data = JSON.parse(data);
+        } catch {
+            // Geen JSON body, gebruik de ruwe tekst
+        }
+    }
+    return {
+        method: (config.method || 'get').toUpperCase(),
+        url: config.url,
+        params: config.params,
+        data
+    };
+}
+
+if (FIXTURE_MODE === 'replay') {
+    // Beantwoord alle Jira requests vanuit de fixtures
+    jiraClient.defaults.adapter = async config => {
+        const fixture = readFixture<{ status: number; data: any }>('jira', describeJiraRequest(config));
+        return {
+            data: fixture.data,
+            status: fixture.status,
+            statusText: 'OK',
+            headers: {},
+            config,
+            request: {}
+        };
+    };
+    logger.log('Jira responses worden afgespeeld vanuit fixtures');
+} else if (FIXTURE_MODE === 'record') {
+    // Sla alle succesvolle Jira responses op als fixture
+    jiraClient.interceptors.response.use(response => {
+        writeFixture('jira', describeJiraRequest(response.config), { status: response.status, data: response.data });
+        return response;
+    });
+    logger.log('Jira responses worden opgenomen als fixtures');
+}
+
+// Maximaal aantal herhalingen per request bij rate limiting (429) of tijdelijke serverfouten (5xx)
+const MAX_RETRIES = Math.max(0, parseInt(process.env.JIRA_MAX_RETRIES || '4', 10) || 0);
+const RETRY_BASE_DELAY = 1000; // 1 seconde
+const RETRY_MAX_DELAY = 60 * 1000; // 1 minuut
+
+const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN'];
+
+export interface JiraFailure {
+    context: string;
+    status?: number;
+    message: string;
+}
+
+// Verzamelt per rapport de Jira requests die ook na alle herhalingen zijn mislukt
+const failureStorage = new AsyncLocalStorage<JiraFailure[]>();
+
+// Voer een functie uit en verzamel in `failures` de Jira fouten die onderweg (ook in
+// asynchrone vervolgstappen) zijn opgevangen
+export function withJiraFailureTracking<T>(failures: JiraFailure[], fn: () => T): T {
+    return failureStorage.run(failures, fn);
+}
+
+function recordJiraFailure(context: string, error: any): void {
+    const failure: JiraFailure = {
+        context,
+        status: error?.status ?? error?.response?.status,
+        message: error?.message || String(error)
+    };
+    failureStorage.getStore()?.push(failure);
+}
+
+function isRetryable(error: any): boolean {
+    if (error.response) {
+        return RETRYABLE_STATUS_CODES.includes(error.response.status);
+    }
+    return RETRYABLE_ERROR_CODES.includes(error.code);
+}
+
+// Bepaal de wachttijd voor de volgende poging: de Retry-After header van Jira (in seconden of
+// als datum) heeft voorrang, anders exponentiële backoff met jitter
+function getRetryDelay(error: any, attempt: number): number {
+    const retryAfter = error.response?.headers?.['retry-after'];
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        const delay = isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000;
+        if (!isNaN(delay)) {
+            return Math.min(Math.max(delay, 0), RETRY_MAX_DELAY);
+        }
+    }
+
+    const backoff = RETRY_BASE_DELAY * 2 ** attempt;
+    return Math.min(backoff + Math.random() * RETRY_BASE_DELAY, RETRY_MAX_DELAY);
+}
+
+// Error handler voor Axios requests, met herhaalpogingen voor 429 en tijdelijke fouten
 jiraClient.interceptors.response.use(
     response => response,
-    error => {
+    async error => {
+        const config = error.config;
+        if (config && isRetryable(error)) {
+            const attempt = config.__retryCount || 0;
+            if (attempt < MAX_RETRIES) {
+                config.__retryCount = attempt + 1;
+                const delay = getRetryDelay(error, attempt);
+                logger.log(`Jira request ${config.url} mislukt (${error.response?.status || error.code}), poging ${attempt + 1} van ${MAX_RETRIES} over ${Math.round(delay)} ms`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+                return jiraClient(config);
+            }
+            logger.error(`Jira request ${config.url} mislukt na ${MAX_RETRIES} herhalingen`);
+        }
+
         if (error.response) {
             // De server heeft een response gestuurd met een status code buiten het 2xx bereik
             logger.error(`Jira API Error Response: ${JSON.stringify({
@@ -48,7 +176,7 @@ jiraClient.interceptors.response.use(
             }, null, 2)}`);
         } else if (error.request) {
             // De request is gemaakt maar er is geen response ontvangen
-            logger.error(`Jira API Error Request: ${JSON.stringify(error.request, null, 2)}`);
+            logger.error(`Jira API Error Request: ${config?.method?.toUpperCase()} ${config?.url} (${error.code || error.message})`);
         } else {
             // Er is iets misgegaan bij het opzetten van de request
             logger.error(`Jira API Error: ${error.message}`);
@@ -76,85 +204,461 @@ export function formatTime(seconds: number | undefined): string {
 let activeIssuesCache: { issues: Issue[]; timestamp: number } | null = null;
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minuten
 
-export async function getActiveIssues(): Promise<Issue[]> {
-    console.log('[DEBUG] getActiveIssues functie wordt aangeroepen');
-    
-    const allIssues: Issue[] = [];
+// Paginagrootte voor zoekopdrachten en worklogs
+const SEARCH_PAGE_SIZE = 100;
+const WORKLOG_PAGE_SIZE = 100;
+const CHANGELOG_PAGE_SIZE = 100;
+
+// Maximaal aantal issues waarvan tegelijk de worklogs worden opgehaald
+export const WORKLOG_CONCURRENCY = Math.max(1, parseInt(process.env.JIRA_WORKLOG_CONCURRENCY || '8', 10) || 8);
+
+export interface JiraWorkLog {
+    id?: string;
+    issueId?: string;
+    started: string;
+    timeSpentSeconds: number;
+    author: string | { displayName: string };
+    comment?: string;
+}
+
+// Issue velden die bij worklogs worden opgehaald; type, labels en parent (of epic link) zijn nodig
+// voor de indeling van worklogs in categorieën
+const WORKLOG_ISSUE_FIELDS = ['summary', 'project', 'status', 'assignee', 'priority', 'issuetype', 'labels', 'parent', 'customfield_10014'];
+
+// Haal alle issues op voor een JQL query, met paginering
+export async function searchIssues(jql: string, fields: string[], expand?: string): Promise<any[]> {
+    const allIssues: any[] = [];
     let startAt = 0;
-    const maxResults = 100;
     let hasMore = true;
     let totalIssues = 0;
 
     while (hasMore) {
-        const response = await jiraClient.get('/rest/api/2/search', {
+        const response = await jiraClient.get('/search', {
             params: {
-                jql: 'project in (SUBSCRIPTION, ATLANTIS) AND status in (Open, "In Progress", "To Do")',
-                expand: 'changelog,issuelinks',
-                fields: 'summary,status,assignee,issuelinks,timeoriginalestimate,customfield_10020,project,priority,created',
-                maxResults,
+                jql,
+                fields: fields.join(','),
+                expand,
+                maxResults: SEARCH_PAGE_SIZE,
                 startAt
             }
         });
-        
+
         const issues = response.data.issues || [];
+        allIssues.push(...issues);
         totalIssues = response.data.total;
-        
+
         logger.log(`Aantal issues gevonden in deze batch: ${issues.length}`);
         logger.log(`Totaal aantal issues tot nu toe: ${allIssues.length}`);
         logger.log(`Totaal aantal issues volgens Jira: ${totalIssues}`);
-        
-        // Haal voor elk issue de worklogs op met paginering
-        for (const issue of issues) {
-            try {
-                let worklogStartAt = 0;
-                const worklogMaxResults = 100;
-                let hasMoreWorklogs = true;
-                let allIssueWorklogs: any[] = [];
-
-                while (hasMoreWorklogs) {
-                    const worklogResponse = await jiraClient.get(`/issue/${issue.key}/worklog`, {
-                        params: {
-                            startAt: worklogStartAt,
-                            maxResults: worklogMaxResults
-                        }
-                    });
-                    
-                    const issueWorklogs = worklogResponse.data.worklogs || [];
-                    allIssueWorklogs.push(...issueWorklogs);
-                    
-                    const totalWorklogs = worklogResponse.data.total;
-                    hasMoreWorklogs = allIssueWorklogs.length < totalWorklogs;
-                    
-                    if (hasMoreWorklogs) {
-                        worklogStartAt += worklogMaxResults;
-                        logger.log(`Meer worklogs beschikbaar voor issue ${issue.key}, ophalen volgende batch...`);
-                    }
-                }
-                
-                // Voeg de worklogs toe aan het issue object
-                issue.fields.worklog = { worklogs: allIssueWorklogs };
-            } catch (error) {
-                logger.error(`Error bij ophalen worklogs voor issue ${issue.key}: ${error}`);
-                // Ga door met de volgende issue
-            }
-        }
-        
-        allIssues.push(...issues);
-        
-        hasMore = allIssues.length < totalIssues;
+
+        hasMore = issues.length > 0 && allIssues.length < totalIssues;
         if (hasMore) {
             logger.log(`Er zijn meer resultaten beschikbaar (totaal: ${totalIssues}). Paginering nodig.`);
-            startAt += maxResults;
+            // Jira kan minder resultaten teruggeven dan gevraagd, ga verder na het laatst ontvangen issue
+            startAt += issues.length;
         } else {
             logger.log(`Alle resultaten opgehaald (totaal: ${totalIssues}).`);
         }
     }
-    
-    // Log de volledige API response voor het eerste issue
-    if (allIssues.length > 0) {
-        console.log('[DEBUG] Volledige API response voor eerste issue:', JSON.stringify(allIssues[0], null, 2));
+
+    return allIssues;
+}
+
+// Haal alle worklogs van één issue op, met paginering
+export async function getIssueWorklogs(issueKey: string): Promise<JiraWorkLog[]> {
+    const allIssueWorklogs: JiraWorkLog[] = [];
+    let worklogStartAt = 0;
+    let hasMoreWorklogs = true;
+
+    while (hasMoreWorklogs) {
+        const worklogResponse = await jiraClient.get(`/issue/${issueKey}/worklog`, {
+            params: {
+                startAt: worklogStartAt,
+                maxResults: WORKLOG_PAGE_SIZE
+            }
+        });
+
+        const issueWorklogs = (worklogResponse.data.worklogs || []) as JiraWorkLog[];
+        allIssueWorklogs.push(...issueWorklogs);
+
+        const totalWorklogs = worklogResponse.data.total;
+        hasMoreWorklogs = issueWorklogs.length > 0 && allIssueWorklogs.length < totalWorklogs;
+
+        if (hasMoreWorklogs) {
+            worklogStartAt += issueWorklogs.length;
+            logger.log(`Meer worklogs beschikbaar voor issue ${issueKey}, ophalen volgende batch...`);
+        }
     }
-    
+
+    return allIssueWorklogs;
+}
+
+// Haal de volledige changelog van één issue op, met paginering
+export async function getIssueChangelog(issueKey: string): Promise<IssueHistory[]> {
+    const histories: IssueHistory[] = [];
+    let startAt = 0;
+    let isLast = false;
+
+    while (!isLast) {
+        const response = await jiraClient.get(`/issue/${issueKey}/changelog`, {
+            params: { startAt, maxResults: CHANGELOG_PAGE_SIZE }
+        });
+
+        const page: IssueHistory[] = response.data.values || [];
+        histories.push(...page);
+        startAt += page.length;
+        isLast = page.length === 0 || response.data.isLast === true || startAt >= response.data.total;
+    }
+
+    return histories;
+}
+
+// Haal de worklogs van meerdere issues parallel op, met maximaal `concurrency` issues tegelijk.
+// Issues waarvoor het ophalen mislukt krijgen een lege lijst; de fout wordt geregistreerd
+// zodat het rapport kan tonen dat het onvolledig is.
+export async function getWorklogsByIssue(issues: { key: string }[], concurrency = WORKLOG_CONCURRENCY): Promise<Map<string, JiraWorkLog[]>> {
+    const worklogsByIssue = new Map<string, JiraWorkLog[]>();
+
+    await mapWithConcurrency(issues, concurrency, async issue => {
+        try {
+            worklogsByIssue.set(issue.key, await getIssueWorklogs(issue.key));
+        } catch (error) {
+            logger.error(`Error bij ophalen worklogs voor issue ${issue.key}: ${error}`);
+            recordJiraFailure(`Worklogs voor issue ${issue.key}`, error);
+            worklogsByIssue.set(issue.key, []);
+        }
+    });
+
+    logger.log(`Worklogs opgehaald voor ${issues.length} issues (max ${concurrency} tegelijk)`);
+    return worklogsByIssue;
+}
+
+// Voeg de worklogs toe aan de issue objecten (issue.fields.worklog)
+async function attachWorklogs(issues: any[]): Promise<void> {
+    const worklogsByIssue = await getWorklogsByIssue(issues);
+    issues.forEach(issue => {
+        issue.fields.worklog = { worklogs: worklogsByIssue.get(issue.key) || [] };
+    });
+}
+
+// Controleer of een worklog binnen de periode valt (startdatum vanaf middernacht, einddatum tot het einde van de dag)
+export function isWithinPeriod(started: string, startDate: Date | string, endDate: Date | string): boolean {
+    const logDate = new Date(started);
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+
+    // Zet de tijden op middernacht in Nederlandse tijdzone
+    start.setHours(0, 0, 0, 0);
+    end.setHours(23, 59, 59, 999);
+
+    return logDate >= start && logDate <= end;
+}
+
+// Zet een Jira worklog om naar een WorkLog met de gegevens van het bijbehorende issue
+export function toWorkLog(issue: any, log: JiraWorkLog): WorkLog {
+    return {
+        id: log.id,
+        issueKey: issue.key,
+        issueSummary: issue.fields?.summary || 'Geen samenvatting',
+        issueStatus: issue.fields?.status?.name || 'Onbekend',
+        issueAssignee: issue.fields?.assignee?.displayName || 'Onbekend',
+        issuePriority: issue.fields?.priority?.name || 'Lowest',
+        issueType: issue.fields?.issuetype?.name,
+        issueLabels: issue.fields?.labels || [],
+        issueParent: issue.fields?.parent?.key || issue.fields?.customfield_10014 || undefined,
+        author: typeof log.author === 'string' ? log.author : log.author.displayName,
+        timeSpentSeconds: log.timeSpentSeconds,
+        started: log.started,
+        comment: log.comment
+    };
+}
+
+// Manier waarop worklogs voor een periode worden opgehaald:
+// - 'search': zoek issues met worklogs in de periode en haal per issue alle worklogs op
+// - 'bulk': haal de gewijzigde worklogs op via /worklog/updated en /worklog/list en koppel ze aan de issues
+// - 'store': lees de worklogs uit de lokale worklog store, die incrementeel met Jira wordt gesynchroniseerd
+export type WorklogMode = 'search' | 'bulk' | 'store';
+export const WORKLOG_MODE: WorklogMode = ['bulk', 'store'].includes(process.env.JIRA_WORKLOG_MODE || '')
+    ? process.env.JIRA_WORKLOG_MODE as WorklogMode
+    : 'search';
+
+// Maximaal aantal worklog ids per /worklog/list request (limiet van Jira)
+const WORKLOG_LIST_BATCH_SIZE = 1000;
+// Maximaal aantal issue ids per JQL query bij het koppelen van worklogs aan issues
+const ISSUE_ID_BATCH_SIZE = 100;
+const BULK_WORKLOG_CACHE_DURATION = 60 * 1000; // 1 minuut
+// Aantal dagen vóór de startdatum vanaf waar bulk mode gewijzigde worklogs ophaalt als
+// JIRA_WORKLOG_LOOKBACK_DAYS niet is ingesteld
+const DEFAULT_WORKLOG_LOOKBACK_DAYS = 30;
+// Minimale tijd tussen twee synchronisaties van de worklog store
+const STORE_SYNC_INTERVAL = Math.max(0, parseInt(process.env.WORKLOG_STORE_SYNC_INTERVAL || '300', 10)) * 1000;
+
+// Cache voor worklogs per periode, zodat meerdere kolommen in hetzelfde rapport één bulk request delen
+const bulkWorklogCache = new Map<string, { worklogs: JiraWorkLog[]; timestamp: number }>();
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+// Haal de ids op van alle worklogs die sinds `since` (ms sinds epoch) zijn aangemaakt/gewijzigd
+// ('updated') of verwijderd ('deleted'), samen met het tijdstip tot waar Jira de wijzigingen heeft geleverd
+export async function getChangedWorklogIds(change: 'updated' | 'deleted', since: number): Promise<{ ids: number[]; until: number }> {
+    const ids: number[] = [];
+    let lastPage = false;
+
+    while (!lastPage) {
+        const response = await jiraClient.get(`/worklog/${change}`, { params: { since } });
+        const values = response.data.values || [];
+        ids.push(...values.map((value: { worklogId: number }) => value.worklogId));
+
+        lastPage = response.data.lastPage !== false || values.length === 0;
+        since = response.data.until ?? since;
+        logger.log(`Worklogs (${change}) opgehaald: ${ids.length} (tot ${new Date(since).toISOString()})`);
+    }
+
+    return { ids, until: since };
+}
+
+// Haal de volledige worklogs op voor een lijst met worklog ids
+export async function getWorklogsById(ids: number[]): Promise<JiraWorkLog[]> {
+    const batches = await mapWithConcurrency(chunk(ids, WORKLOG_LIST_BATCH_SIZE), WORKLOG_CONCURRENCY, async batch => {
+        const response = await jiraClient.post('/worklog/list', { ids: batch });
+        return (response.data || []) as JiraWorkLog[];
+    });
+    return batches.flat();
+}
+
+function getWorklogLookbackDays(): number {
+    const days = process.env.JIRA_WORKLOG_LOOKBACK_DAYS ? Number(process.env.JIRA_WORKLOG_LOOKBACK_DAYS) : NaN;
+    return days >= 0 ? days : DEFAULT_WORKLOG_LOOKBACK_DAYS;
+}
+
+// Haal alle worklogs op die in de periode gestart zijn via de bulk endpoints van Jira. Jira geeft de
+// worklogs op wijzigingsdatum, daarom wordt vanaf JIRA_WORKLOG_LOOKBACK_DAYS dagen vóór de startdatum
+// gezocht. Worklogs die nog eerder vooruit zijn geboekt en daarna niet gewijzigd worden gemist.
+async function getBulkWorklogsForPeriod(startDate: Date | string, endDate: Date | string): Promise<JiraWorkLog[]> {
+    const since = new Date(startDate);
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - getWorklogLookbackDays());
+
+    const cacheKey = `${since.getTime()}-${new Date(endDate).getTime()}`;
+    const cached = bulkWorklogCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < BULK_WORKLOG_CACHE_DURATION) {
+        return cached.worklogs;
+    }
+
+    const { ids } = await getChangedWorklogIds('updated', since.getTime());
+    const worklogs = (await getWorklogsById(ids))
+        .filter(log => isWithinPeriod(log.started, startDate, endDate));
+
+    logger.log(`Bulk worklogs: ${ids.length} gewijzigd sinds ${since.toISOString()}, ${worklogs.length} in de periode`);
+    bulkWorklogCache.set(cacheKey, { worklogs, timestamp: Date.now() });
+    return worklogs;
+}
+
+// Startpunt van de eerste synchronisatie: WORKLOG_STORE_SINCE of 1 januari van vorig jaar
+function getInitialStoreSince(): number {
+    if (process.env.WORKLOG_STORE_SINCE) {
+        return new Date(process.env.WORKLOG_STORE_SINCE).getTime();
+    }
+    return new Date(new Date().getFullYear() - 1, 0, 1).getTime();
+}
+
+async function runWorklogStoreSync(): Promise<void> {
+    const lastSync = getSyncState('lastSync');
+    const since = Number(getSyncState('worklogsSince') || getInitialStoreSince());
+    logger.log(`Start synchronisatie worklog store vanaf ${new Date(since).toISOString()}`);
+
+    // Nieuwe en gewijzigde worklogs
+    const updated = await getChangedWorklogIds('updated', since);
+    upsertWorklogs(await getWorklogsById(updated.ids));
+
+    // In Jira verwijderde worklogs
+    const deleted = await getChangedWorklogIds('deleted', since);
+    deleteWorklogs(deleted.ids);
+
+    // Issue gegevens van nieuwe issues en van issues die sinds de vorige synchronisatie zijn gewijzigd
+    const issueFields = WORKLOG_ISSUE_FIELDS;
+    const missingIssues = await mapWithConcurrency(chunk(getMissingIssueIds(), ISSUE_ID_BATCH_SIZE), WORKLOG_CONCURRENCY, batch =>
+        searchIssues(`id in (${batch.join(',')})`, issueFields)
+    );
+    upsertIssues(missingIssues.flat());
+
+    const projectKeys = getStoredProjectKeys();
+    if (lastSync && projectKeys.length > 0) {
+        // Een dag marge, omdat Jira de datum in de tijdzone van de gebruiker interpreteert
+        const updatedSince = format(new Date(Number(lastSync) - 24 * 60 * 60 * 1000), 'yyyy/MM/dd HH:mm');
+        const changedIssues = await searchIssues(
+            `project in (${projectKeys.map(key => `"${key}"`).join(', ')}) AND updated >= "${updatedSince}"`,
+            issueFields
+        );
+        upsertIssues(changedIssues);
+    }
+
+    setSyncState('worklogsSince', String(Math.min(updated.until, deleted.until)));
+    setSyncState('lastSync', String(Date.now()));
+    logger.log(`Synchronisatie worklog store klaar: ${updated.ids.length} gewijzigd, ${deleted.ids.length} verwijderd`);
+}
+
+let storeSyncPromise: Promise<void> | null = null;
+
+// Synchroniseer de worklog store incrementeel met Jira; gelijktijdige aanroepen delen één synchronisatie
+export function syncWorklogStore(): Promise<void> {
+    if (!storeSyncPromise) {
+        storeSyncPromise = runWorklogStoreSync().finally(() => {
+            storeSyncPromise = null;
+        });
+    }
+    return storeSyncPromise;
+}
+
+// Lees de worklogs van een periode uit de store. Is de laatste synchronisatie te oud, dan wordt
+// eerst gesynchroniseerd; lukt dat niet, dan wordt de bestaande inhoud van de store gebruikt.
+async function getStoreWorklogsForPeriod(startDate: Date | string, endDate: Date | string): Promise<JiraWorkLog[]> {
+    const lastSync = Number(getSyncState('lastSync') || 0);
+    if (Date.now() - lastSync >= STORE_SYNC_INTERVAL) {
+        try {
+            await syncWorklogStore();
+        } catch (error) {
+            logger.error(`Synchronisatie worklog store mislukt, gegevens van ${lastSync ? new Date(lastSync).toISOString() : 'nooit'} worden gebruikt: ${error}`);
+            recordJiraFailure('Synchronisatie worklog store', error);
+        }
+    }
+    return getStoredWorklogs(startDate, endDate);
+}
+
+// Vertaal een eenvoudig JQL filter (project = / project in, key = / key in en worklogDate voorwaarden,
+// gecombineerd met AND) naar een controle op de issue gegevens uit de store. De periode volgt al uit de
+// startdatum van de worklogs. Voor andere filters, of projecten die niet in de store staan, null.
+function parseStoreFilter(filter: string): ((issue: any) => boolean) | null {
+    const projectKeys = getStoredProjectKeys().map(key => key.toUpperCase());
+    const values = (list: string) => list.split(',').map(value => value.trim().replace(/^"|"$/g, '').toUpperCase()).filter(Boolean);
+    const conditions: ((issue: any) => boolean)[] = [];
+
+    for (const clause of filter.split(/\bAND\b/i).map(part => part.trim())) {
+        const project = clause.match(/^project\s*=\s*("?[\w-]+"?)$/i) ?? clause.match(/^project\s+in\s*\(([^)]*)\)$/i);
+        const key = clause.match(/^(?:issue)?key\s*=\s*("?[\w-]+"?)$/i) ?? clause.match(/^(?:issue)?key\s+in\s*\(([^)]*)\)$/i);
+
+        if (project) {
+            const projects = values(project[1]);
+            if (!projects.every(code => projectKeys.includes(code))) {
+                return null;
+            }
+            conditions.push(issue => projects.includes(String(issue.fields.project?.key).toUpperCase()));
+        } else if (key) {
+            const keys = values(key[1]);
+            conditions.push(issue => keys.includes(issue.key.toUpperCase()));
+        } else if (clause && !/^worklogDate\s*(?:[<>]=?|=)\s*"?[\d/-]+"?$/i.test(clause)) {
+            return null;
+        }
+    }
+
+    return issue => conditions.every(condition => condition(issue));
+}
+
+// Zoek de issues (op id) die aan het JQL filter voldoen. In store mode komen de issue gegevens uit
+// de store: eenvoudige filters worden daar direct op toegepast, voor andere filters wordt Jira
+// gevraagd en bij een Jira fout het laatst bekende resultaat van het filter gebruikt.
+async function getMatchingIssues(issueIds: string[], filter?: string): Promise<Map<string, any>> {
+    const searchBatches = async (fields: string[]) => {
+        const batches = await mapWithConcurrency(chunk(issueIds, ISSUE_ID_BATCH_SIZE), WORKLOG_CONCURRENCY, batch =>
+            searchIssues(`id in (${batch.join(',')})${filter ? ` AND (${filter})` : ''}`, fields)
+        );
+        return batches.flat();
+    };
+
+    if (WORKLOG_MODE !== 'store') {
+        const issuesById = new Map<string, any>();
+        (await searchBatches(WORKLOG_ISSUE_FIELDS))
+            .forEach(issue => issuesById.set(issue.id, issue));
+        return issuesById;
+    }
+
+    const storedIssues = getStoredIssues(issueIds);
+    if (!filter) {
+        return storedIssues;
+    }
+
+    const matches = parseStoreFilter(filter);
+    if (matches) {
+        return new Map(Array.from(storedIssues).filter(([, issue]) => matches(issue)));
+    }
+
+    let matchedIds: string[];
+    try {
+        matchedIds = (await searchBatches(['key'])).map(issue => String(issue.id));
+        setJqlMatches(filter, issueIds, matchedIds);
+    } catch (error) {
+        logger.error(`JQL filter kon niet worden uitgevoerd, laatst bekende resultaat wordt gebruikt: ${filter}`);
+        recordJiraFailure(`JQL filter (laatst bekende resultaat gebruikt): ${filter}`, error);
+        matchedIds = getJqlMatches(filter, issueIds);
+    }
+
+    return new Map(matchedIds
+        .filter(id => storedIssues.has(id))
+        .map(id => [id, storedIssues.get(id)]));
+}
+
+// Haal de worklogs van een periode op via de bulk endpoints of de worklog store en koppel ze aan
+// de issues. Met een jqlFilter worden alleen worklogs teruggegeven van issues die aan de query voldoen.
+export async function getWorklogsForPeriod(startDate: Date | string, endDate: Date | string, jqlFilter?: string): Promise<WorkLog[]> {
+    const periodWorklogs = WORKLOG_MODE === 'store'
+        ? await getStoreWorklogsForPeriod(startDate, endDate)
+        : await getBulkWorklogsForPeriod(startDate, endDate);
+
+    // Een eventuele ORDER BY kan niet binnen haakjes worden gecombineerd
+    const filter = jqlFilter?.replace(/\s+ORDER\s+BY[\s\S]*$/i, '').trim();
+    const issueIds = Array.from(new Set(periodWorklogs.map(log => log.issueId).filter((id): id is string => Boolean(id))));
+    const issuesById = await getMatchingIssues(issueIds, filter);
+
+    const worklogs = periodWorklogs
+        .filter(log => log.issueId && issuesById.has(log.issueId))
+        .map(log => toWorkLog(issuesById.get(log.issueId!), log));
+
+    logger.log(`Worklogs (${WORKLOG_MODE}) gekoppeld aan ${issuesById.size} issues: ${worklogs.length} worklogs`);
+    return worklogs;
+}
+
+// Alle worklogs van een periode, over alle projecten
+export async function getAllWorklogsForPeriod(startDate: Date, endDate: Date): Promise<WorkLog[]> {
+    if (WORKLOG_MODE !== 'search') {
+        return getWorklogsForPeriod(startDate, endDate);
+    }
+
+    const jql = `worklogDate >= "${format(startDate, 'yyyy-MM-dd')}" AND worklogDate <= "${format(endDate, 'yyyy-MM-dd')}"`;
+    logger.log(`Volledige JQL Query voor alle worklogs: ${jql}`);
+
+    const issues = await searchIssues(jql, WORKLOG_ISSUE_FIELDS);
+    const worklogsByIssue = await getWorklogsByIssue(issues);
+
+    const worklogs: WorkLog[] = [];
+    for (const issue of issues) {
+        for (const log of worklogsByIssue.get(issue.key) || []) {
+            if (isWithinPeriod(log.started, startDate, endDate)) {
+                worklogs.push(toWorkLog(issue, log));
+            }
+        }
+    }
+
+    logger.log(`Totaal aantal worklogs in de periode: ${worklogs.length}`);
+    return worklogs;
+}
+
+export async function getActiveIssues(): Promise<Issue[]> {
+    const allIssues: Issue[] = await searchIssues(
+        'project in (SUBSCRIPTION, ATLANTIS) AND status in (Open, "In Progress", "To Do")',
+        ['summary', 'status', 'assignee', 'issuelinks', 'timeoriginalestimate', 'customfield_10020', 'project', 'priority', 'created'],
+        'changelog,issuelinks'
+    );
+
+    // Haal voor elk issue de worklogs op
+    await attachWorklogs(allIssues);
+
+    logger.log(`${allIssues.length} actieve issues opgehaald`);
     return allIssues;
 }
 
@@ -166,115 +670,23 @@ export async function getWorkLogs(projectKey: string, startDate: string, endDate
             jql += ` AND ${jqlFilter}`;
         }
         logger.log(`Volledige JQL Query voor Worklogs: ${jql}`);
+
+        if (WORKLOG_MODE !== 'search') {
+            // De periode wordt bepaald door de startdatum van de worklogs, niet door worklogDate
+            const issueJql = `project = ${projectKey}${jqlFilter ? ` AND ${jqlFilter}` : ''}`;
+            return await getWorklogsForPeriod(startDate, endDate, issueJql);
+        }
         
+        const issues = await searchIssues(jql, WORKLOG_ISSUE_FIELDS);
+        const worklogsByIssue = await getWorklogsByIssue(issues);
+
         const worklogs: WorkLog[] = [];
-        let startAt = 0;
-        const maxResults = 100;
-        let hasMore = true;
-        let totalIssues = 0;
-
-        while (hasMore) {
-            const response = await axios.get(
-                `https://${JIRA_DOMAIN}/rest/api/3/search`,
-                {
-                    headers: {
-                        'Authorization': `Basic ${Buffer.from(`${JIRA_EMAIL}:${JIRA_API_TOKEN}`).toString('base64')}`,
-                        'Content-Type': 'application/json'
-                    },
-                    params: {
-                        jql,
-                        fields: [
-                            'summary',
-                            'status',
-                            'assignee',
-                            'priority',
-                            'worklog'
-                        ].join(','),
-                        maxResults,
-                        startAt
-                    }
-                }
-            );
-            
-            const issues = response.data.issues || [];
-            totalIssues = response.data.total;
-            
-            logger.log(`Aantal issues gevonden in deze batch: ${issues.length}`);
-            logger.log(`Totaal aantal issues tot nu toe: ${worklogs.length}`);
-            logger.log(`Totaal aantal issues volgens Jira: ${totalIssues}`);
-            
-            for (const issue of issues) {
-                try {
-                    let worklogStartAt = 0;
-                    const worklogMaxResults = 100;
-                    let hasMoreWorklogs = true;
-                    let allIssueWorklogs: any[] = [];
-
-                    while (hasMoreWorklogs) {
-                        const worklogResponse = await axios.get(
-                            `https://${JIRA_DOMAIN}/rest/api/3/issue/${issue.key}/worklog`,
-                            {
-                                headers: {
-                                    'Authorization': `Basic ${Buffer.from(`${JIRA_EMAIL}:${JIRA_API_TOKEN}`).toString('base64')}`,
-                                    'Content-Type': 'application/json'
-                                },
-                                params: {
-                                    startAt: worklogStartAt,
-                                    maxResults: worklogMaxResults
-                                }
-                            }
-                        );
-                        
-                        const issueWorklogs = worklogResponse.data.worklogs || [];
-                        allIssueWorklogs.push(...issueWorklogs);
-                        
-                        const totalWorklogs = worklogResponse.data.total;
-                        hasMoreWorklogs = allIssueWorklogs.length < totalWorklogs;
-                        
-                        if (hasMoreWorklogs) {
-                            worklogStartAt += worklogMaxResults;
-                            logger.log(`Meer worklogs beschikbaar voor issue ${issue.key}, ophalen volgende batch...`);
-                        }
-                    }
-                    
-                    for (const log of allIssueWorklogs) {
-                        // Converteer de UTC tijd naar Nederlandse tijdzone voor vergelijking
-                        const logDate = new Date(log.started);
-                        const start = new Date(startDate);
-                        const end = new Date(endDate);
-                        
-                        // Zet de tijden op middernacht in Nederlandse tijdzone
-                        start.setHours(0, 0, 0, 0);
-                        end.setHours(23, 59, 59, 999);
-                        
-                        // Vergelijk de datums in Nederlandse tijdzone
-                        if (logDate >= start && logDate <= end) {
-                            worklogs.push({
-                                issueKey: issue.key,
-                                issueSummary: issue.fields.summary,
-                                issueStatus: issue.fields.status.name,
-                                issueAssignee: issue.fields.assignee?.displayName || 'Onbekend',
-                                issuePriority: issue.fields.priority?.name || 'Lowest',
-                                author: typeof log.author === 'string' ? log.author : log.author.displayName,
-                                timeSpentSeconds: log.timeSpentSeconds,
-                                started: log.started,
-                                comment: log.comment
-                            });
-                        }
-                    }
-                } catch (error) {
-                    logger.error(`Error bij ophalen worklogs voor issue ${issue.key}: ${error}`);
-                    // Ga door met de volgende issue
+        for (const issue of issues) {
+            for (const log of worklogsByIssue.get(issue.key) || []) {
+                if (isWithinPeriod(log.started, startDate, endDate)) {
+                    worklogs.push(toWorkLog(issue, log));
                 }
             }
-            
-            hasMore = worklogs.length < totalIssues;
-            if (hasMore) {
-                logger.log(`Er zijn meer resultaten beschikbaar (totaal: ${totalIssues}). Paginering nodig.`);
-                startAt += maxResults;
-            } else {
-                logger.log(`Alle resultaten opgehaald (totaal: ${totalIssues}).`);
-            }
         }
         
         logger.log(`Totaal aantal worklogs gevonden: ${worklogs.length}`);
@@ -285,32 +697,6 @@ export async function getWorkLogs(projectKey: string, startDate: string, endDate
     }
 }
 
-export async function getSprintName(issue: Issue): Promise<string> {
-    try {
-        logger.log(`Ophalen sprint naam voor issue ${issue.key}`);
-        
-        if (!issue.fields?.customfield_10020 || issue.fields.customfield_10020.length === 0) {
-            logger.log(`Geen sprint gevonden voor issue ${issue.key}`);
-            return 'Niet gepland';
-        }
-        
-        // Neem de eerste actieve sprint
-        const activeSprint = issue.fields.customfield_10020.find(sprint => sprint.state === 'active');
-        if (activeSprint) {
-            logger.log(`Actieve sprint gevonden voor issue ${issue.key}: ${activeSprint.name}`);
-            return activeSprint.name;
-        }
-        
-        // Als er geen actieve sprint is, neem de eerste sprint
-        const sprint = issue.fields.customfield_10020[0];
-        logger.log(`Geen actieve sprint gevonden voor issue ${issue.key}, gebruik eerste sprint: ${sprint.name}`);
-        return sprint.name;
-    } catch (error) {
-        logger.error(`Error bij ophalen sprint naam voor issue ${issue.key}: ${error}`);
-        return 'Niet gepland';
-    }
-}
-
 interface SprintCapacity {
     assignee: string;
     capacity: number;
@@ -325,35 +711,15 @@ export async function getSprintCapacity(): Promise<SprintCapacity[]> {
     try {
         logger.log('Start ophalen van sprint capaciteit...');
         
-        // Haal de capaciteit op uit Google Sheets
-        const sheetCapacities = await getSprintCapacityFromSheet();
-        
-        // Standaard capaciteit per medewerker als fallback
-        const defaultCapacities: { [key: string]: number } = {
-            'Peter van Diermen': 40,
-            'Adit Shah': 60,
-            'Bart Hermans': 16,
-            'Florian de Jong': 8,
-            'Milan van Dijk': 40,
-            'virendra kumar': 60
-        };
+        // Haal de capaciteit op uit Google Sheets; alleen medewerkers uit de Employees sheet krijgen capaciteit
+        const [sheetCapacities, employees, leave] = await Promise.all([
+            getSprintCapacityFromSheet(),
+            getEmployeesFromSheet(),
+            getLeaveCalendar()
+        ]);
 
-        // Maak een lijst van capaciteiten met standaard waarden
-        const capacities: SprintCapacity[] = [];
-        const maxSprints = 10;
-
-        // Voeg alle medewerkers toe met hun standaard capaciteit
-        Object.entries(defaultCapacities).forEach(([assignee, capacity]) => {
-            for (let i = 1; i <= maxSprints; i++) {
-                // Check of er een capaciteit uit de sheet is voor deze medewerker en sprint
-                const sheetCapacity = sheetCapacities.find(c => c.assignee === assignee && c.sprintId === i);
-                capacities.push({
-                    assignee,
-                    capacity: sheetCapacity?.capacity || capacity,
-                    sprintId: i
-                });
-            }
-        });
+        const capacities: SprintCapacity[] = buildCapacityCalendar(employees, sheetCapacities, leave)
+            .map(entry => ({ assignee: entry.employee, capacity: entry.capacity, sprintId: entry.sprintId }));
 
         logger.log(`${capacities.length} sprint capaciteiten gegenereerd`);
         return capacities;
@@ -414,132 +780,57 @@ export async function getPlanning(): Promise<PlanningResult> {
 }
 
 export async function getIssuesForProject(projectCodes: string[], jqlFilter?: string, worklogFilter?: string): Promise<Issue[]> {
-    const allIssues: Issue[] = [];
-    let startAt = 0;
-    const maxResults = 100;
-    let hasMore = true;
-    let totalIssues = 0;
-
     // Haal de periode filter uit de worklogFilter
     const periodMatch = worklogFilter?.match(/worklogDate >= "([^"]+)" AND worklogDate <= "([^"]+)"/);
     const periodFilter = periodMatch ? `AND worklogDate >= "${periodMatch[1]}" AND worklogDate <= "${periodMatch[2]}"` : '';
 
-    while (hasMore) {
-        const jql = `(${projectCodes.map(code => `project = ${code}`).join(' OR ')}) ${jqlFilter ? `AND ${jqlFilter}` : ''} ${periodFilter}`;
-        logger.log(`Volledige JQL Query voor Issues: ${jql}`);
-        
-        const response = await jiraClient.get('/search', {
-            params: {
-                jql,
-                startAt,
-                maxResults,
-                fields: [
-                    'summary',
-                    'issuetype',
-                    'status',
-                    'assignee',
-                    'timeestimate',
-                    'timeoriginalestimate',
-                    'timespent',
-                    'customfield_10014',
-                    'parent',
-                    'issuelinks',
-                    'priority'
-                ]
-            }
-        });
+    const jql = `(${projectCodes.map(code => `project = ${code}`).join(' OR ')}) ${jqlFilter ? `AND ${jqlFilter}` : ''} ${periodFilter}`;
+    logger.log(`Volledige JQL Query voor Issues: ${jql}`);
 
-        const issues = response.data.issues.map((issue: any) => ({
-            key: issue.key,
-            fields: {
-                summary: issue.fields.summary,
-                issuetype: issue.fields.issuetype,
-                status: issue.fields.status,
-                assignee: issue.fields.assignee,
-                timeestimate: issue.fields.timeestimate,
-                timeoriginalestimate: issue.fields.timeoriginalestimate,
-                timespent: issue.fields.timespent,
-                customfield_10014: issue.fields.customfield_10014,
-                parent: issue.fields.parent,
-                issuelinks: issue.fields.issuelinks,
-                priority: issue.fields.priority
-            }
-        }));
+    const response = await searchIssues(jql, [
+        'summary',
+        'issuetype',
+        'status',
+        'assignee',
+        'timeestimate',
+        'timeoriginalestimate',
+        'timespent',
+        'customfield_10014',
+        'parent',
+        'issuelinks',
+        'priority'
+    ]);
 
-        // Haal voor elk issue de worklogs op met paginering
-        for (const issue of issues) {
-            try {
-                let worklogStartAt = 0;
-                const worklogMaxResults = 100;
-                let hasMoreWorklogs = true;
-                let allIssueWorklogs: any[] = [];
-
-                while (hasMoreWorklogs) {
-                    const worklogResponse = await jiraClient.get(`/issue/${issue.key}/worklog`, {
-                        params: {
-                            startAt: worklogStartAt,
-                            maxResults: worklogMaxResults
-                        }
-                    });
-                    
-                    const issueWorklogs = worklogResponse.data.worklogs || [];
-                    allIssueWorklogs.push(...issueWorklogs);
-                    
-                    const totalWorklogs = worklogResponse.data.total;
-                    hasMoreWorklogs = allIssueWorklogs.length < totalWorklogs;
-                    
-                    if (hasMoreWorklogs) {
-                        worklogStartAt += worklogMaxResults;
-                        logger.log(`Meer worklogs beschikbaar voor issue ${issue.key}, ophalen volgende batch...`);
-                    }
-                }
-                
-                // Voeg de worklogs toe aan het issue object
-                issue.fields.worklog = { worklogs: allIssueWorklogs };
-            } catch (error) {
-                logger.error(`Error bij ophalen worklogs voor issue ${issue.key}: ${error}`);
-                // Ga door met de volgende issue
-            }
+    const allIssues = response.map((issue: any) => ({
+        key: issue.key,
+        fields: {
+            summary: issue.fields.summary,
+            issuetype: issue.fields.issuetype,
+            status: issue.fields.status,
+            assignee: issue.fields.assignee,
+            timeestimate: issue.fields.timeestimate,
+            timeoriginalestimate: issue.fields.timeoriginalestimate,
+            timespent: issue.fields.timespent,
+            customfield_10014: issue.fields.customfield_10014,
+            parent: issue.fields.parent,
+            issuelinks: issue.fields.issuelinks,
+            priority: issue.fields.priority
         }
+    }));
 
-        allIssues.push(...issues);
-        totalIssues = response.data.total;
-        
-        logger.log(`Aantal issues gevonden in deze batch: ${issues.length}`);
-        logger.log(`Totaal aantal issues tot nu toe: ${allIssues.length}`);
-        logger.log(`Totaal aantal issues volgens Jira: ${totalIssues}`);
-        
-        // Check of er meer resultaten zijn
-        hasMore = allIssues.length < totalIssues;
-        if (hasMore) {
-            logger.log(`Er zijn meer resultaten beschikbaar (totaal: ${totalIssues}). Paginering nodig.`);
-            startAt += maxResults;
-        } else {
-            logger.log(`Alle resultaten opgehaald (totaal: ${totalIssues}).`);
-        }
-    }
+    // Haal voor elk issue de worklogs op
+    await attachWorklogs(allIssues);
 
     logger.log(`Aantal issues gevonden: ${allIssues.length}`);
     return allIssues;
 }
 
-interface JiraWorkLog {
-    started: string;
-    timeSpentSeconds: number;
-    author: string | { displayName: string };
-    comment?: string;
-}
-
 export async function getWorkLogsForProject(
     projectCodes: string[],
     startDate: Date,
     endDate: Date,
     config: ProjectConfig
 ): Promise<WorkLog[]> {
-    const worklogs: WorkLog[] = [];
-    let startAt = 0;
-    const maxResults = 100;
-
     // Bouw de JQL query
     let jql = '';
     
@@ -569,115 +860,34 @@ export async function getWorkLogsForProject(
     logger.log(`JQL: ${jql}`);
 
     try {
-        // Haal issues op met worklogs in de opgegeven periode
-        const allIssues: any[] = [];
-        let hasMore = true;
-        let totalIssues = 0;
-
-        while (hasMore) {
-            const response = await jiraClient.get('/search', {
-                params: {
-                    jql,
-                    maxResults,
-                    startAt,
-                    fields: 'summary,project,assignee,worklog'
-                }
-            });
-
-            const issues = response.data.issues || [];
-            allIssues.push(...issues);
-            totalIssues = response.data.total;
-            
-            logger.log(`Aantal issues gevonden in deze batch: ${issues.length}`);
-            logger.log(`Totaal aantal issues tot nu toe: ${allIssues.length}`);
-            logger.log(`Totaal aantal issues volgens Jira: ${totalIssues}`);
-            
-            hasMore = allIssues.length < totalIssues;
-            if (hasMore) {
-                logger.log(`Er zijn meer resultaten beschikbaar (totaal: ${totalIssues}). Paginering nodig.`);
-                startAt += maxResults;
-            } else {
-                logger.log(`Alle resultaten opgehaald (totaal: ${totalIssues}).`);
-            }
+        if (WORKLOG_MODE !== 'search') {
+            const worklogs = await getWorklogsForPeriod(startDate, endDate, jql);
+            logger.log(`Project ${config.projectName}: ${worklogs.length} worklogs gevonden in de opgegeven periode`);
+            return worklogs;
         }
 
+        // Haal issues op met worklogs in de opgegeven periode
+        const allIssues = await searchIssues(jql, WORKLOG_ISSUE_FIELDS);
         logger.log(`Aantal issues gevonden: ${allIssues.length}`);
 
         // Haal voor elk issue de worklogs op
+        const worklogsByIssue = await getWorklogsByIssue(allIssues);
+
+        const worklogs: WorkLog[] = [];
         for (const issue of allIssues) {
-            try {
-                let worklogStartAt = 0;
-                const worklogMaxResults = 100;
-                let hasMoreWorklogs = true;
-                let allIssueWorklogs: JiraWorkLog[] = [];
-
-                while (hasMoreWorklogs) {
-                    const worklogResponse = await jiraClient.get(`/issue/${issue.key}/worklog`, {
-                        params: {
-                            startAt: worklogStartAt,
-                            maxResults: worklogMaxResults
-                        }
-                    });
-                    
-                    const issueWorklogs = (worklogResponse.data.worklogs || []) as JiraWorkLog[];
-                    allIssueWorklogs.push(...issueWorklogs);
-                    
-                    const totalWorklogs = worklogResponse.data.total;
-                    hasMoreWorklogs = allIssueWorklogs.length < totalWorklogs;
-                    
-                    if (hasMoreWorklogs) {
-                        worklogStartAt += worklogMaxResults;
-                        logger.log(`Meer worklogs beschikbaar voor issue ${issue.key}, ophalen volgende batch...`);
-                    }
-                }
-                
-                if (allIssueWorklogs.length > 0) {
-                    // Filter worklogs op basis van de datum
-                    const filteredWorklogs = allIssueWorklogs.filter((log: JiraWorkLog) => {
-                        const logDate = new Date(log.started);
-                        const start = new Date(startDate);
-                        const end = new Date(endDate);
-                        
-                        // Zet de tijden op middernacht in Nederlandse tijdzone
-                        start.setHours(0, 0, 0, 0);
-                        end.setHours(23, 59, 59, 999);
-                        
-                        // Vergelijk de datums in Nederlandse tijdzone
-                        return logDate >= start && logDate <= end;
-                    });
-
-                    if (filteredWorklogs.length > 0) {
-                        const processedWorklogs = filteredWorklogs.map((log: JiraWorkLog) => ({
-                            issueKey: issue.key,
-                            issue: {
-                                key: issue.key,
-                                fields: {
-                                    summary: issue.fields.summary,
-                                    project: issue.fields.project,
-                                    assignee: issue.fields.assignee,
-                                    timeoriginalestimate: issue.fields.timeoriginalestimate,
-                                    timeestimate: issue.fields.timeestimate,
-                                    priority: issue.fields.priority
-                                }
-                            },
-                            started: log.started,
-                            timeSpentSeconds: log.timeSpentSeconds,
-                            author: typeof log.author === 'string' ? log.author : log.author.displayName,
-                            comment: log.comment,
-                            category: 'ontwikkeling' as const
-                        }));
-                        
-                        worklogs.push(...processedWorklogs);
-                        logger.log(`Issue ${issue.key}: ${filteredWorklogs.length} worklogs gevonden in de opgegeven periode`);
-                    } else {
-                        logger.log(`Issue ${issue.key}: Geen worklogs gevonden in de opgegeven periode`);
-                    }
-                } else {
-                    logger.log(`Issue ${issue.key}: Geen worklogs gevonden`);
-                }
-            } catch (error) {
-                logger.error(`Error bij ophalen worklogs voor issue ${issue.key}: ${error}`);
-                // Ga door met de volgende issue
+            const allIssueWorklogs = worklogsByIssue.get(issue.key) || [];
+            if (allIssueWorklogs.length === 0) {
+                logger.log(`Issue ${issue.key}: Geen worklogs gevonden`);
+                continue;
+            }
+
+            // Filter worklogs op basis van de datum
+            const filteredWorklogs = allIssueWorklogs.filter(log => isWithinPeriod(log.started, startDate, endDate));
+            if (filteredWorklogs.length > 0) {
+                worklogs.push(...filteredWorklogs.map(log => toWorkLog(issue, log)));
+                logger.log(`Issue ${issue.key}: ${filteredWorklogs.length} worklogs gevonden in de opgegeven periode`);
+            } else {
+                logger.log(`Issue ${issue.key}: Geen worklogs gevonden in de opgegeven periode`);
             }
         }
 
@@ -693,113 +903,28 @@ export async function getWorklogsForIssues(issues: Issue[], startDate: Date, end
         const issueKeys = issues.map(issue => issue.key);
         const worklogIssuesJql = `key in (${issueKeys.join(',')})`;
         logger.log(`Volledige JQL Query voor Worklogs: ${worklogIssuesJql}`);
+
+        if (WORKLOG_MODE !== 'search') {
+            return await getWorklogsForPeriod(startDate, endDate, worklogIssuesJql);
+        }
         
+        const batchIssues = await searchIssues(worklogIssuesJql, WORKLOG_ISSUE_FIELDS);
+        const worklogsByIssue = await getWorklogsByIssue(batchIssues);
+
+        // Verwerk worklogs voor elke issue
         const worklogs: WorkLog[] = [];
-        let startAt = 0;
-        const maxResults = 100;
-        let hasMore = true;
-        let totalIssues = 0;
-
-        while (hasMore) {
-            const response = await axios.get(
-                `https://${JIRA_DOMAIN}/rest/api/3/search`,
-                {
-                    headers: {
-                        'Authorization': `Basic ${Buffer.from(`${JIRA_EMAIL}:${JIRA_API_TOKEN}`).toString('base64')}`,
-                        'Content-Type': 'application/json'
-                    },
-                    params: {
-                        jql: worklogIssuesJql,
-                        fields: ['worklog', 'summary', 'status', 'assignee', 'priority'],
-                        startAt,
-                        maxResults
-                    }
-                }
-            );
-            
-            const batchIssues = response.data.issues;
-            totalIssues = response.data.total;
-            
-            // Verwerk worklogs voor elke issue
-            for (const issue of batchIssues) {
-                try {
-                    let worklogStartAt = 0;
-                    const worklogMaxResults = 100;
-                    let hasMoreWorklogs = true;
-                    let allIssueWorklogs: any[] = [];
-
-                    while (hasMoreWorklogs) {
-                        const worklogResponse = await axios.get(
-                            `https://${JIRA_DOMAIN}/rest/api/3/issue/${issue.key}/worklog`,
-                            {
-                                headers: {
-                                    'Authorization': `Basic ${Buffer.from(`${JIRA_EMAIL}:${JIRA_API_TOKEN}`).toString('base64')}`,
-                                    'Content-Type': 'application/json'
-                                },
-                                params: {
-                                    startAt: worklogStartAt,
-                                    maxResults: worklogMaxResults
-                                }
-                            }
-                        );
-                        
-                        const issueWorklogs = worklogResponse.data.worklogs || [];
-                        allIssueWorklogs.push(...issueWorklogs);
-                        
-                        const totalWorklogs = worklogResponse.data.total;
-                        hasMoreWorklogs = allIssueWorklogs.length < totalWorklogs;
-                        
-                        if (hasMoreWorklogs) {
-                            worklogStartAt += worklogMaxResults;
-                            logger.log(`Meer worklogs beschikbaar voor issue ${issue.key}, ophalen volgende batch...`);
-                        }
-                    }
-                    
-                    logger.log(`Issue ${issue.key}: ${allIssueWorklogs.length} worklogs gevonden`);
-                    
-                    for (const log of allIssueWorklogs) {
-                        // Converteer de UTC tijd naar Nederlandse tijdzone voor vergelijking
-                        const logDate = new Date(log.started);
-                        const start = new Date(startDate);
-                        const end = new Date(endDate);
-                        
-                        // Zet de tijden op middernacht in Nederlandse tijdzone
-                        start.setHours(0, 0, 0, 0);
-                        end.setHours(23, 59, 59, 999);
-                        
-                        // Vergelijk de datums in Nederlandse tijdzone
-                        if (logDate >= start && logDate <= end) {
-                            worklogs.push({
-                                issueKey: issue.key,
-                                issueSummary: issue.fields.summary,
-                                issueStatus: issue.fields.status.name,
-                                issueAssignee: issue.fields.assignee?.displayName || 'Onbekend',
-                                issuePriority: issue.fields.priority?.name || 'Lowest',
-                                author: typeof log.author === 'string' ? log.author : log.author.displayName,
-                                timeSpentSeconds: log.timeSpentSeconds,
-                                started: log.started,
-                                comment: log.comment
-                            });
-                        }
-                    }
-                } catch (error) {
-                    logger.error(`Error bij ophalen worklogs voor issue ${issue.key}: ${error}`);
-                    // Ga door met de volgende issue
+        for (const issue of batchIssues) {
+            const allIssueWorklogs = worklogsByIssue.get(issue.key) || [];
+            logger.log(`Issue ${issue.key}: ${allIssueWorklogs.length} worklogs gevonden`);
+
+            for (const log of allIssueWorklogs) {
+                if (isWithinPeriod(log.started, startDate, endDate)) {
+                    worklogs.push(toWorkLog(issue, log));
                 }
             }
-            
-            logger.log(`Aantal worklogs gevonden in deze batch: ${worklogs.length}`);
-            logger.log(`Totaal aantal worklogs tot nu toe: ${worklogs.length}`);
-            
-            hasMore = worklogs.length < totalIssues;
-            if (hasMore) {
-                logger.log(`Er zijn meer resultaten beschikbaar (totaal: ${totalIssues}). Paginering nodig.`);
-                startAt += maxResults;
-            } else {
-                logger.log(`Alle resultaten opgehaald (totaal: ${totalIssues}).`);
-            }
         }
         
+        logger.log(`Totaal aantal worklogs gevonden: ${worklogs.length}`);
         return worklogs;
     } catch (error) {
         logger.error(`Error bij ophalen van worklogs: ${error}`);
@@ -812,99 +937,23 @@ export async function getIssuesWithWorklogs(startDate: string, endDate: string):
         const jql = `project = EET AND worklogDate >= "${startDate}" AND worklogDate <= "${endDate}"`;
         logger.log(`Volledige JQL Query voor Issues met Worklogs: ${jql}`);
         
-        const allIssues: Issue[] = [];
-        let startAt = 0;
-        const maxResults = 100;
-        let hasMore = true;
-        let totalIssues = 0;
-
-        while (hasMore) {
-            const response = await axios.get(
-                `https://${JIRA_DOMAIN}/rest/api/3/search`,
-                {
-                    headers: {
-                        'Authorization': `Basic ${Buffer.from(`${JIRA_EMAIL}:${JIRA_API_TOKEN}`).toString('base64')}`,
-                        'Content-Type': 'application/json'
-                    },
-                    params: {
-                        jql,
-                        fields: [
-                            'summary',
-                            'status',
-                            'assignee',
-                            'issuetype',
-                            'priority',
-                            'timeestimate',
-                            'timeoriginalestimate',
-                            'issuelinks',
-                            'parent',
-                            'customfield_10020'
-                        ].join(','),
-                        startAt,
-                        maxResults
-                    }
-                }
-            );
-            
-            const batchIssues = response.data.issues;
-            allIssues.push(...batchIssues);
-            totalIssues = response.data.total;
-            
-            logger.log(`Aantal issues gevonden in deze batch: ${batchIssues.length}`);
-            logger.log(`Totaal aantal issues tot nu toe: ${allIssues.length}`);
-            logger.log(`Totaal aantal issues volgens Jira: ${totalIssues}`);
-            
-            // Haal voor elk issue de worklogs op met paginering
-            for (const issue of batchIssues) {
-                try {
-                    let worklogStartAt = 0;
-                    const worklogMaxResults = 100;
-                    let hasMoreWorklogs = true;
-                    let allIssueWorklogs: any[] = [];
-
-                    while (hasMoreWorklogs) {
-                        const worklogResponse = await axios.get(
-                            `https://${JIRA_DOMAIN}/rest/api/3/issue/${issue.key}/worklog`,
-                            {
-                                headers: {
-                                    'Authorization': `Basic ${Buffer.from(`${JIRA_EMAIL}:${JIRA_API_TOKEN}`).toString('base64')}`,
-                                    'Content-Type': 'application/json'
-                                },
-                                params: {
-                                    startAt: worklogStartAt,
-                                    maxResults: worklogMaxResults
-                                }
-                            }
-                        );
-                        
-                        const issueWorklogs = worklogResponse.data.worklogs || [];
-                        allIssueWorklogs.push(...issueWorklogs);
-                        
-                        const totalWorklogs = worklogResponse.data.total;
-                        hasMoreWorklogs = allIssueWorklogs.length < totalWorklogs;
-                        
-                        if (hasMoreWorklogs) {
-                            worklogStartAt += worklogMaxResults;
-                            logger.log(`Meer worklogs beschikbaar voor issue ${issue.key}, ophalen volgende batch...`);
-                        }
-                    }
-                    
-                    // Voeg de worklogs toe aan het issue object
-                    issue.fields.worklog = { worklogs: allIssueWorklogs };
-                } catch (error) {
-                    logger.error(`Error bij ophalen worklogs voor issue ${issue.key}: ${error}`);
-                    // Ga door met de volgende issue
-                }
-            }
-            
-            hasMore = allIssues.length < totalIssues;
-            if (hasMore) {
-                logger.log(`Er zijn meer resultaten beschikbaar (totaal: ${totalIssues}). Paginering nodig.`);
-                startAt += maxResults;
-            } else {
-                logger.log(`Alle resultaten opgehaald (totaal: ${totalIssues}).`);
-            }
-        }
+        const allIssues: Issue[] = await searchIssues(jql, [
+            'summary',
+            'project',
+            'status',
+            'assignee',
+            'issuetype',
+            'priority',
+            'resolutiondate',
+            'timeestimate',
+            'timeoriginalestimate',
+            'issuelinks',
+            'parent',
+            'customfield_10020'
+        ]);
+
+        // Haal voor elk issue de worklogs op
+        await attachWorklogs(allIssues);
         
         return allIssues;
     } catch (error) {
@@ -913,92 +962,77 @@ export async function getIssuesWithWorklogs(startDate: string, endDate: string):
     }
 }
 
+const ISSUE_FIELDS = [
+    'summary',
+    'project',
+    'status',
+    'assignee',
+    'issuetype',
+    'priority',
+    'resolutiondate',
+    'timeestimate',
+    'timeoriginalestimate',
+    'issuelinks',
+    'parent',
+    'customfield_10014',
+    'customfield_10020'
+];
+
+// Dezelfde issues als getIssues, zonder de worklogs per issue op te halen; voor de planning zijn die niet nodig
+export async function getIssuesWithoutWorklogs(jql: string): Promise<Issue[]> {
+    try {
+        return await searchIssues(jql, ISSUE_FIELDS);
+    } catch (error) {
+        logger.error(`Error bij ophalen van issues: ${error}`);
+        throw error;
+    }
+}
+
 export async function getIssues(jql: string): Promise<Issue[]> {
     try {
-        const allIssues: Issue[] = [];
-        let startAt = 0;
-        const maxResults = 100;
-        let hasMore = true;
-        let totalIssues = 0;
-
-        while (hasMore) {
-            const response = await jiraClient.get('/search', {
-                params: {
-                    jql,
-                    maxResults,
-                    startAt,
-                    fields: [
-                        'summary',
-                        'status',
-                        'assignee',
-                        'issuetype',
-                        'priority',
-                        'timeestimate',
-                        'timeoriginalestimate',
-                        'issuelinks',
-                        'parent',
-                        'customfield_10020'
-                    ]
-                }
-            });
-
-            const issues = response.data.issues || [];
-            totalIssues = response.data.total;
-            
-            logger.log(`Aantal issues gevonden in deze batch: ${issues.length}`);
-            logger.log(`Totaal aantal issues tot nu toe: ${allIssues.length}`);
-            logger.log(`Totaal aantal issues volgens Jira: ${totalIssues}`);
-            
-            // Haal voor elk issue de worklogs op met paginering
-            for (const issue of issues) {
-                try {
-                    let worklogStartAt = 0;
-                    const worklogMaxResults = 100;
-                    let hasMoreWorklogs = true;
-                    let allIssueWorklogs: any[] = [];
-
-                    while (hasMoreWorklogs) {
-                        const worklogResponse = await jiraClient.get(`/issue/${issue.key}/worklog`, {
-                            params: {
-                                startAt: worklogStartAt,
-                                maxResults: worklogMaxResults
-                            }
-                        });
-                        
-                        const issueWorklogs = worklogResponse.data.worklogs || [];
-                        allIssueWorklogs.push(...issueWorklogs);
-                        
-                        const totalWorklogs = worklogResponse.data.total;
-                        hasMoreWorklogs = allIssueWorklogs.length < totalWorklogs;
-                        
-                        if (hasMoreWorklogs) {
-                            worklogStartAt += worklogMaxResults;
-                            logger.log(`Meer worklogs beschikbaar voor issue ${issue.key}, ophalen volgende batch...`);
-                        }
-                    }
-                    
-                    // Voeg de worklogs toe aan het issue object
-                    issue.fields.worklog = { worklogs: allIssueWorklogs };
-                } catch (error) {
-                    logger.error(`Error bij ophalen worklogs voor issue ${issue.key}: ${error}`);
-                    // Ga door met de volgende issue
-                }
-            }
-            
-            allIssues.push(...issues);
-            
-            hasMore = allIssues.length < totalIssues;
-            if (hasMore) {
-                logger.log(`Er zijn meer resultaten beschikbaar (totaal: ${totalIssues}). Paginering nodig.`);
-                startAt += maxResults;
-            } else {
-                logger.log(`Alle resultaten opgehaald (totaal: ${totalIssues}).`);
-            }
-        }
+        const allIssues: Issue[] = await searchIssues(jql, ISSUE_FIELDS);
+
+        // Haal voor elk issue de worklogs op
+        await attachWorklogs(allIssues);
 
         return allIssues;
     } catch (error) {
         logger.error(`Error bij ophalen van issues: ${error}`);
         throw error;
     }
-}
\ No newline at end of file
+}
+
+// Opgeloste issues met hun changelog, voor de doorlooptijden per status
+export async function getIssuesWithChangelog(jql: string): Promise<Issue[]> {
+    try {
+        const issues = await searchIssues(jql, [
+            'summary',
+            'project',
+            'status',
+            'assignee',
+            'issuetype',
+            'created',
+            'resolutiondate'
+        ], 'changelog');
+
+        // Met expand=changelog geeft Jira alleen de laatste histories; haal de volledige changelog apart op,
+        // anders ontbreken de eerste statuswijzigingen van issues die lang lopen
+        const truncated = issues.filter(issue => issue.changelog && issue.changelog.total > issue.changelog.histories.length);
+        await mapWithConcurrency(truncated, WORKLOG_CONCURRENCY, async issue => {
+            try {
+                issue.changelog.histories = await getIssueChangelog(issue.key);
+            } catch (error) {
+                logger.error(`Error bij ophalen changelog voor issue ${issue.key}: ${error}`);
+                recordJiraFailure(`Changelog voor issue ${issue.key}`, error);
+            }
+        });
+        if (truncated.length > 0) {
+            logger.log(`Volledige changelog opgehaald voor ${truncated.length} issues`);
+        }
+
+        return issues;
+    } catch (error) {
+        logger.error(`Error bij ophalen van issues met changelog: ${error}`);
+        throw error;
+    }
+}
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import { isWithinInterval, startOfDay, addDays } from 'date-fns';
+import { logger } from './logger.js';
+import { getLeaveFromSheet } from './google-sheets.js';
+
+// Verlof of een feestdag. Zonder medewerker geldt de regel voor iedereen (feestdagen, collectieve vrije dagen).
+export interface LeaveEntry {
+    employee?: string;
+    startDate: Date;
+    endDate: Date;
+    // Uren verlof per werkdag; zonder waarde is het een hele dag
+    hoursPerDay?: number;
+    description: string;
+}
+
+function parseIcsDate(value: string): Date | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+}
+
+// Lees de feestdagen uit een iCalendar bestand: elke VEVENT met een DTSTART wordt een vrije dag
+// voor iedereen. Bij hele dagen is DTEND exclusief.
+export function parseIcsHolidays(content: string): LeaveEntry[] {
+    // Lange regels worden in ICS afgebroken met een spatie of tab aan het begin van de volgende regel
+    const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const holidays: LeaveEntry[] = [];
+    let event: Record<string, string> | null = null;
+
+    lines.forEach(line => {
+        if (line === 'BEGIN:VEVENT') {
+            event = {};
+            return;
+        }
+        if (line === 'END:VEVENT' && event) {
+            const startDate = parseIcsDate(event.DTSTART || '');
+            if (startDate) {
+                const end = parseIcsDate(event.DTEND || '');
+                const allDay = !(event.DTSTART || '').includes('T');
+                holidays.push({
+                    startDate,
+                    endDate: end && allDay ? addDays(end, -1) : end ?? startDate,
+                    description: event.SUMMARY || 'Feestdag'
+                });
+            }
+            event = null;
+            return;
+        }
+        if (event) {
+            const separator = line.indexOf(':');
+            if (separator > 0) {
+                // Parameters zoals ;VALUE=DATE horen bij de naam van de property
+                const name = line.slice(0, separator).split(';')[0];
+                event[name] = line.slice(separator + 1).replace(/\\,/g, ',');
+            }
+        }
+    });
+
+    return holidays.filter(holiday => holiday.endDate >= holiday.startDate);
+}
+
+// Feestdagen uit het ICS bestand in HOLIDAYS_ICS_PATH, als dat is ingesteld
+export function loadIcsHolidays(): LeaveEntry[] {
+    const icsPath = process.env.HOLIDAYS_ICS_PATH;
+    if (!icsPath) {
+        return [];
+    }
+
+    try {
+        const holidays = parseIcsHolidays(fs.readFileSync(path.resolve(process.cwd(), icsPath), 'utf8'));
+        logger.log(`${holidays.length} feestdagen gelezen uit ${icsPath}`);
+        return holidays;
+    } catch (error: any) {
+        logger.error(`Error bij lezen van feestdagen uit ${icsPath}: ${error.message}`);
+        return [];
+    }
+}
+
+// Alle verlof en feestdagen: het Verlof tabblad van de Google Sheet en het ICS bestand
+export async function getLeaveCalendar(): Promise<LeaveEntry[]> {
+    return [...await getLeaveFromSheet(), ...loadIcsHolidays()];
+}
+
+// Uren verlof van een medewerker op een dag, maximaal de uren die de medewerker die dag zou werken.
+// Overlappende regels tellen niet op; de regel met de meeste uren telt.
+export function getLeaveHoursOnDay(leave: LeaveEntry[], employee: string, day: Date, dailyHours: number): number {
+    const date = startOfDay(day);
+    const hours = leave
+        .filter(entry => !entry.employee || entry.employee === employee)
+        .filter(entry => isWithinInterval(date, { start: startOfDay(entry.startDate), end: startOfDay(entry.endDate) }))
+        .map(entry => Math.min(entry.hoursPerDay ?? dailyHours, dailyHours));
+
+    return hours.length > 0 ? Math.max(...hours) : 0;
+}
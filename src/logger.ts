@@ -35,6 +35,8 @@ const winstonLogger = winston.createLogger({
             )
         }),
         new winston.transports.Console({
+            // Geen console output tijdens de tests
+            silent: process.env.NODE_ENV === 'test',
             format: winston.format.combine(
                 winston.format.colorize(),
                 winston.format.simple()
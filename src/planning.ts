@@ -0,0 +1,356 @@
+import { logger } from './logger.js';
+import type { JiraIssue } from './types.js';
+import type { SprintCapacity as SheetSprintCapacity, Employee } from './google-sheets.js';
+import { buildCapacityCalendar, getSprintCalendar } from './capacity.js';
+import type { SprintPeriod } from './capacity.js';
+import type { LeaveEntry } from './leave.js';
+
+export interface SprintCapacity {
+    employee: string;
+    sprint: string;
+    capacity: number;
+    project: string;
+}
+
+export interface PlannedIssue {
+    issue: JiraIssue;
+    sprint: string;
+    hours: number;
+}
+
+export interface PlanningResult {
+    sprintCapacity: SprintCapacity[];
+    employeeSprintUsedHours: {
+        employee: string;
+        sprintHours: {
+            sprint: string;
+            hours: number;
+            issues: { key: string; hours: number }[];
+        }[];
+    }[];
+    plannedIssues: PlannedIssue[];
+    dependencyCycles: string[][];
+    externalBlockers: {
+        key: string;
+        predecessors: string[];
+    }[];
+    // Sprint waarin een issue in Jira staat, voor de issues met een sprint uit de capaciteit
+    issueSprints?: Map<string, string>;
+}
+
+export interface PlanningOptions {
+    // Projectcodes van het project; voorgangers met een andere code blokkeren het issue
+    projectCodes?: string[];
+    // Als true mag een opvolger niet in dezelfde sprint als zijn voorganger worden gepland
+    strictPredecessors?: boolean;
+    // Geen logregels per issue, voor simulaties die de planning vaak herhalen
+    quiet?: boolean;
+    // Sprint (zoals in de capaciteit) waarin een issue in Jira al staat, zie getIssueSprintIds
+    issueSprints?: Map<string, string>;
+}
+
+// Sprint waarin issues terechtkomen die niet binnen de beschikbare capaciteit passen
+export const UNPLANNED_SPRINT = 'Niet gepland';
+
+export const PRIORITY_ORDER: Record<string, number> = {
+    'Highest': 1,
+    'High': 2,
+    'Medium': 3,
+    'Low': 4,
+    'Lowest': 5
+};
+
+function getPriorityRank(issue: JiraIssue): number {
+    return PRIORITY_ORDER[issue.fields.priority?.name] ?? Object.keys(PRIORITY_ORDER).length + 1;
+}
+
+function roundHours(hours: number): number {
+    return Number(hours.toFixed(1));
+}
+
+// Sorteer issues op prioriteit; bij gelijke prioriteit blijft de volgorde uit Jira behouden
+export function sortIssuesByPriority(issues: JiraIssue[]): JiraIssue[] {
+    return issues
+        .map((issue, index) => ({ issue, index }))
+        .sort((a, b) => getPriorityRank(a.issue) - getPriorityRank(b.issue) || a.index - b.index)
+        .map(({ issue }) => issue);
+}
+
+// Sprints die al voorbij zijn; open werk kan daar niet meer in gepland worden. Een sprint die in Jira is
+// afgesloten is voorbij, ook als hij eerder is afgesloten dan gepland. Sprints zonder bekende einddatum
+// (geen SPRINT_START_DATE en niet in Jira) tellen als nog niet voorbij.
+function getEndedSprintIds(sprintIds: number[], jiraCalendar: SprintPeriod[], today: Date): Set<number> {
+    const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    return new Set([
+        ...jiraCalendar.filter(period => period.state === 'closed').map(period => period.sprintId),
+        ...(getSprintCalendar(sprintIds, jiraCalendar) || [])
+            .filter(period => period.endDate < startOfToday)
+            .map(period => period.sprintId)
+    ]);
+}
+
+// Bepaal de capaciteit per medewerker per sprint voor een project. De Sprint Capacity sheet
+// is leidend; ontbreekt een sprint voor een medewerker, dan wordt de capaciteit berekend uit de
+// effectieve uren in de Employees sheet en de werkdagen in de sprint, min verlof en feestdagen.
+// Met een sprintkalender uit Jira komen de datums daaruit en krijgen ook de actieve en toekomstige
+// Jira sprints die niet in de sheet staan capaciteit. Sprints die vóór vandaag zijn geëindigd krijgen
+// geen capaciteit, ook als ze nog in de sheet staan.
+export function buildSprintCapacity(
+    projectName: string,
+    employeeRecords: Employee[] | null,
+    sheetCapacities: SheetSprintCapacity[],
+    leave: LeaveEntry[] = [],
+    jiraCalendar: SprintPeriod[] = [],
+    today: Date = new Date()
+): SprintCapacity[] {
+    if (!employeeRecords || employeeRecords.length === 0) {
+        return [];
+    }
+
+    const candidates = Array.from(new Set([
+        ...sheetCapacities.map(c => c.sprintId),
+        ...jiraCalendar.filter(period => period.state !== 'closed').map(period => period.sprintId)
+    ]));
+    const ended = getEndedSprintIds(candidates, jiraCalendar, today);
+    const skipped = candidates.filter(sprintId => ended.has(sprintId));
+    if (skipped.length > 0) {
+        logger.log(`Afgelopen sprints overgeslagen voor project ${projectName}: ${skipped.sort((a, b) => a - b).join(', ')}`);
+    }
+    const sprintIds = candidates.filter(sprintId => !ended.has(sprintId));
+    const openSheetCapacities = sheetCapacities.filter(capacity => !ended.has(capacity.sprintId));
+    const projectEmployees = employeeRecords.filter(employee => employee.project === projectName.trim());
+    const capacities: SprintCapacity[] = buildCapacityCalendar(projectEmployees, openSheetCapacities, leave, sprintIds, jiraCalendar).map(entry => ({
+        employee: entry.employee,
+        sprint: entry.sprintId.toString(),
+        capacity: entry.capacity,
+        project: projectName
+    }));
+
+    const employeeCount = new Set(capacities.map(c => c.employee)).size;
+    logger.log(`${capacities.length} sprint capaciteiten voor project ${projectName} (${employeeCount} medewerkers)`);
+    return capacities;
+}
+
+// Haal de keys op van de voorgangers van een issue ("Predecessor" links)
+export function getPredecessorKeys(issue: JiraIssue): string[] {
+    return (issue.fields.issuelinks || [])
+        .filter(link => link.type.name === 'Predecessor' || link.type.inward === 'has as a predecessor')
+        .map(link => link.inwardIssue?.key)
+        .filter((key): key is string => Boolean(key));
+}
+
+function getProjectCode(issueKey: string): string {
+    return issueKey.split('-')[0];
+}
+
+// Zoek afhankelijkheidscycli (strongly connected components met meer dan één issue of een
+// issue dat naar zichzelf verwijst) binnen de opgegeven issues
+function findDependencyCycles(keys: string[], predecessors: Map<string, string[]>): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+    let counter = 0;
+
+    const visit = (key: string) => {
+        index.set(key, counter);
+        lowLink.set(key, counter);
+        counter++;
+        stack.push(key);
+        onStack.add(key);
+
+        for (const predecessor of predecessors.get(key) || []) {
+            if (!index.has(predecessor)) {
+                visit(predecessor);
+                lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(predecessor)!));
+            } else if (onStack.has(predecessor)) {
+                lowLink.set(key, Math.min(lowLink.get(key)!, index.get(predecessor)!));
+            }
+        }
+
+        if (lowLink.get(key) === index.get(key)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== key);
+
+            if (component.length > 1 || (predecessors.get(key) || []).includes(key)) {
+                cycles.push(component.reverse());
+            }
+        }
+    };
+
+    keys.forEach(key => {
+        if (!index.has(key)) {
+            visit(key);
+        }
+    });
+
+    return cycles;
+}
+
+// Bepaal de volgorde waarin issues worden ingepland: eerst de issues die in Jira al in een sprint staan,
+// dan op prioriteit, maar een issue komt pas aan de beurt als al zijn voorgangers zijn ingepland. Loopt
+// de volgorde vast op een cyclus, dan wordt het issue met de hoogste prioriteit uit die cyclus als eerste
+// ingepland.
+function orderIssuesByDependencies(issues: JiraIssue[], predecessors: Map<string, string[]>, cycles: string[][], inSprint: Set<string>): JiraIssue[] {
+    const cycleKeys = new Set(cycles.flat());
+    const pending = sortIssuesByPriority(issues)
+        .sort((a, b) => (inSprint.has(a.key) ? 0 : 1) - (inSprint.has(b.key) ? 0 : 1));
+    const ordered: JiraIssue[] = [];
+    const done = new Set<string>();
+
+    while (pending.length > 0) {
+        let nextIndex = pending.findIndex(issue =>
+            (predecessors.get(issue.key) || []).every(key => done.has(key))
+        );
+        if (nextIndex === -1) {
+            nextIndex = Math.max(0, pending.findIndex(issue => cycleKeys.has(issue.key)));
+        }
+        const [issue] = pending.splice(nextIndex, 1);
+        ordered.push(issue);
+        done.add(issue.key);
+    }
+
+    return ordered;
+}
+
+// Verdeel de resterende schatting van open issues over de sprints van de assignee. Issues
+// worden op prioriteit ingepland; past een issue niet in de resterende capaciteit van een
+// sprint, dan loopt het restant door naar de volgende sprint(s). Een issue wordt nooit eerder
+// gepland dan de laatste sprint van zijn voorgangers. Een issue dat in Jira al in een sprint staat
+// (options.issueSprints) krijgt als eerste capaciteit en begint niet eerder dan die sprint.
+export function planIssues(issues: JiraIssue[], sprintCapacity: SprintCapacity[], options: PlanningOptions = {}): PlanningResult {
+    const log = options.quiet ? () => undefined : (message: string) => logger.log(message);
+    const sprints = Array.from(new Set(sprintCapacity.map(c => c.sprint)))
+        .sort((a, b) => Number(a) - Number(b) || a.localeCompare(b));
+
+    // Resterende capaciteit per medewerker per sprint
+    const remaining = new Map<string, Map<string, number>>();
+    sprintCapacity.forEach(capacity => {
+        if (!remaining.has(capacity.employee)) {
+            remaining.set(capacity.employee, new Map<string, number>());
+        }
+        remaining.get(capacity.employee)!.set(capacity.sprint, capacity.capacity);
+    });
+
+    // Verdeel de voorgangers in voorgangers binnen de planning en voorgangers in een ander project
+    const issueKeys = new Set(issues.map(issue => issue.key));
+    const projectCodes = new Set(options.projectCodes || issues.map(issue => getProjectCode(issue.key)));
+    const predecessors = new Map<string, string[]>();
+    const externalBlockers: PlanningResult['externalBlockers'] = [];
+    issues.forEach(issue => {
+        const keys = getPredecessorKeys(issue);
+        predecessors.set(issue.key, keys.filter(key => issueKeys.has(key)));
+
+        const external = keys.filter(key => !projectCodes.has(getProjectCode(key)));
+        if (external.length > 0) {
+            log(`Issue ${issue.key} wordt geblokkeerd door voorganger(s) in een ander project: ${external.join(', ')}`);
+            externalBlockers.push({ key: issue.key, predecessors: external });
+        }
+    });
+
+    const issueSprints = new Map(Array.from(options.issueSprints || [])
+        .filter(([key, sprint]) => issueKeys.has(key) && sprints.includes(sprint)));
+
+    const dependencyCycles = findDependencyCycles(Array.from(issueKeys), predecessors);
+    if (!options.quiet) {
+        dependencyCycles.forEach(cycle => {
+            logger.error(`Afhankelijkheidscyclus gevonden: ${cycle.join(' -> ')}`);
+        });
+    }
+
+    const usedHours = new Map<string, Map<string, { hours: number; issues: { key: string; hours: number }[] }>>();
+    const plannedIssues: PlannedIssue[] = [];
+
+    // Index van de laatste sprint waarin een issue is gepland; Infinity als (een deel van) het
+    // issue niet gepland kon worden
+    const lastSprintIndex = new Map<string, number>();
+
+    for (const issue of orderIssuesByDependencies(issues, predecessors, dependencyCycles, new Set(issueSprints.keys()))) {
+        const assignee = issue.fields.assignee?.displayName;
+        let hoursLeft = (issue.fields.timeestimate || 0) / 3600;
+
+        if (hoursLeft <= 0) {
+            continue;
+        }
+
+        // Bepaal de eerste sprint waarin dit issue mag starten
+        const offset = options.strictPredecessors ? 1 : 0;
+        const firstSprintIndex = (predecessors.get(issue.key) || [])
+            .filter(key => lastSprintIndex.has(key))
+            .reduce((min, key) => Math.max(min, lastSprintIndex.get(key)! + offset), issueSprints.has(issue.key) ? sprints.indexOf(issueSprints.get(issue.key)!) : 0);
+
+        const employeeCapacity = assignee ? remaining.get(assignee) : undefined;
+        if (!employeeCapacity) {
+            log(`Issue ${issue.key}: assignee ${assignee || 'onbekend'} heeft geen capaciteit in dit project`);
+            plannedIssues.push({ issue, sprint: UNPLANNED_SPRINT, hours: roundHours(hoursLeft) });
+            lastSprintIndex.set(issue.key, Infinity);
+            continue;
+        }
+
+        if (firstSprintIndex > 0) {
+            log(`Issue ${issue.key}: op basis van voorgangers of de sprint in Jira niet eerder dan sprint ${sprints[firstSprintIndex] ?? UNPLANNED_SPRINT}`);
+        }
+
+        for (let sprintIndex = firstSprintIndex; sprintIndex < sprints.length; sprintIndex++) {
+            if (hoursLeft <= 0) {
+                break;
+            }
+
+            const sprint = sprints[sprintIndex];
+            const available = employeeCapacity.get(sprint) || 0;
+            if (available <= 0) {
+                continue;
+            }
+
+            const hours = Math.min(available, hoursLeft);
+            employeeCapacity.set(sprint, available - hours);
+            hoursLeft -= hours;
+
+            if (!usedHours.has(assignee!)) {
+                usedHours.set(assignee!, new Map());
+            }
+            const employeeUsed = usedHours.get(assignee!)!;
+            if (!employeeUsed.has(sprint)) {
+                employeeUsed.set(sprint, { hours: 0, issues: [] });
+            }
+            const sprintUsed = employeeUsed.get(sprint)!;
+            sprintUsed.hours += hours;
+            sprintUsed.issues.push({ key: issue.key, hours: roundHours(hours) });
+
+            plannedIssues.push({ issue, sprint, hours: roundHours(hours) });
+            lastSprintIndex.set(issue.key, sprintIndex);
+        }
+
+        if (hoursLeft > 0) {
+            log(`Issue ${issue.key}: ${roundHours(hoursLeft)} uur past niet meer binnen de beschikbare sprints`);
+            plannedIssues.push({ issue, sprint: UNPLANNED_SPRINT, hours: roundHours(hoursLeft) });
+            lastSprintIndex.set(issue.key, Infinity);
+        }
+    }
+
+    const employeeSprintUsedHours = Array.from(usedHours.entries()).map(([employee, sprintMap]) => ({
+        employee,
+        sprintHours: sprints
+            .filter(sprint => sprintMap.has(sprint))
+            .map(sprint => ({
+                sprint,
+                hours: roundHours(sprintMap.get(sprint)!.hours),
+                issues: sprintMap.get(sprint)!.issues
+            }))
+    }));
+
+    return {
+        sprintCapacity,
+        employeeSprintUsedHours,
+        plannedIssues,
+        dependencyCycles,
+        externalBlockers,
+        ...(issueSprints.size > 0 ? { issueSprints } : {})
+    };
+}
@@ -0,0 +1,144 @@
+import ExcelJS from 'exceljs';
+import type { WorkLogsResponse, WorkLogsTable, EfficiencyData, EfficiencyAttribution, EmployeeAvailability } from './types.js';
+import { getEstimateHeader } from './efficiency.js';
+import { getAuthorName, roundHours } from './worklog-report.js';
+import type { CategorisedWorklog } from './worklog-rules.js';
+
+export type ExportValue = string | number;
+
+export interface ExportTable {
+    id: string;
+    name: string;
+    headers: string[];
+    rows: ExportValue[][];
+}
+
+export interface ExportWorklog extends CategorisedWorklog {
+    projectName: string;
+}
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+function slugify(value: string): string {
+    return value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// Id van de uren tabel van een project, voor de keuze van de CSV export
+export function getProjectTableId(projectName: string): string {
+    return `project-${slugify(projectName)}`;
+}
+
+function hoursTable(id: string, name: string, table: WorkLogsTable): ExportTable {
+    return {
+        id,
+        name,
+        headers: ['Medewerker', ...table.columns, 'Totaal'],
+        rows: [
+            ...table.employees.map(employee => [
+                employee.employee,
+                ...table.columns.map(column => employee.hours[column]),
+                employee.total
+            ]),
+            ['Totaal', ...table.columns.map(column => table.columnTotals[column]), table.total]
+        ]
+    };
+}
+
+function availabilityTable(availability: EmployeeAvailability[]): ExportTable {
+    return {
+        id: 'verwacht',
+        name: 'Verwachte uren',
+        headers: ['Medewerker', 'Verwachte uren', 'Verlof en feestdagen', 'Gelogde uren', 'Gelogd (%)'],
+        rows: availability.map(row => [row.employee, row.expectedHours, row.leaveHours, row.loggedHours, row.percentage])
+    };
+}
+
+function efficiencyTable(id: string, name: string, data: EfficiencyData[], attribution?: EfficiencyAttribution): ExportTable {
+    return {
+        id,
+        name,
+        headers: ['Medewerker', getEstimateHeader(attribution), 'Gelogde uren', 'Aantal issues', 'Efficiëntie (%)'],
+        // Sorteer op efficiëntie (hoog naar laag), net als op de pagina
+        rows: [...data]
+            .sort((a, b) => b.efficiency - a.efficiency)
+            .map(row => [row.employee, row.estimatedHours ?? 0, row.loggedHours ?? 0, row.numberOfIssues, row.efficiency])
+    };
+}
+
+// Alle tabellen van het worklog overzicht in exporteerbare vorm, in dezelfde volgorde als op de pagina
+export function buildExportTables(report: WorkLogsResponse, worklogs: ExportWorklog[]): ExportTable[] {
+    return [
+        ...report.projects.map(project => hoursTable(getProjectTableId(project.projectName), project.projectName, project)),
+        hoursTable('totaal', 'Worklogs Totaal', report.totals),
+        availabilityTable(report.availability),
+        efficiencyTable('efficientie', 'Efficiëntie', report.efficiencyTable.normal, report.efficiencyTable.attribution),
+        efficiencyTable('efficientie-zuiver', 'Efficiëntie (Zuiver)', report.efficiencyTable.pure, report.efficiencyTable.attribution),
+        {
+            id: 'worklogs',
+            name: 'Worklogs',
+            headers: ['Project', 'Issue', 'Samenvatting', 'Medewerker', 'Datum', 'Uren', 'Categorie', 'Regel', 'Omschrijving'],
+            rows: [...worklogs]
+                .sort((a, b) => new Date(a.started).getTime() - new Date(b.started).getTime())
+                .map(log => [
+                    log.projectName,
+                    log.issueKey,
+                    log.issueSummary || '',
+                    getAuthorName(log),
+                    log.started.split('T')[0],
+                    roundHours(log.timeSpentSeconds / 3600),
+                    log.category,
+                    log.rule,
+                    log.comment || ''
+                ])
+        }
+    ];
+}
+
+// Tekst die hiermee begint voert Excel uit als formule, bijvoorbeeld een omschrijving uit Jira als =HYPERLINK(...)
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// CSV met puntkomma's en decimale komma's, zoals Excel met Nederlandse instellingen verwacht. Tekst die als
+// formule gelezen zou worden krijgt een apostrof ervoor; getallen blijven getallen, ook als ze negatief zijn.
+function formatCsvValue(value: ExportValue): string {
+    const text = typeof value === 'number'
+        ? value.toString().replace('.', ',')
+        : CSV_FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(table: ExportTable): string {
+    // Byte order mark, zodat Excel de tekst als UTF-8 leest
+    return '\uFEFF' + [table.headers, ...table.rows]
+        .map(row => row.map(formatCsvValue).join(';'))
+        .join('\r\n') + '\r\n';
+}
+
+// Excel staat maximaal 31 tekens toe in een werkbladnaam, zonder : \ / ? * [ ]
+function getSheetName(name: string, usedNames: Set<string>): string {
+    const base = name.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31);
+    let sheetName = base;
+    for (let i = 2; usedNames.has(sheetName.toLowerCase()); i++) {
+        sheetName = `${base.slice(0, 31 - `${i}`.length - 1)} ${i}`;
+    }
+    usedNames.add(sheetName.toLowerCase());
+    return sheetName;
+}
+
+export async function toXlsx(tables: ExportTable[]): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    const usedNames = new Set<string>();
+
+    tables.forEach(table => {
+        const sheet = workbook.addWorksheet(getSheetName(table.name, usedNames));
+        sheet.addRow(table.headers).font = { bold: true };
+        table.rows.forEach(row => sheet.addRow(row));
+
+        sheet.columns.forEach((column, index) => {
+            const width = Math.max(...[table.headers, ...table.rows].map(row => String(row[index] ?? '').length));
+            column.width = Math.min(60, Math.max(10, width + 2));
+        });
+        sheet.views = [{ state: 'frozen', ySplit: 1 }];
+    });
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+}
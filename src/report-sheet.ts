@@ -0,0 +1,33 @@
+import { format } from 'date-fns';
+import type { WorkLogsResponse } from './types.js';
+import type { ExportTable, ExportValue } from './report-export.js';
+
+// Tabellen die niet naar de spreadsheet gaan (de losse worklog regels zijn te gedetailleerd)
+const EXCLUDED_TABLES = ['worklogs'];
+
+// Naam van het tabblad waarin een rapport komt, met {startDate} en {endDate} als yyyy-mm-dd
+export function getReportSheetTitle(startDate: string, endDate: string): string {
+    return (process.env.REPORT_SHEET_TITLE || 'Rapport {startDate} t/m {endDate}')
+        .replace(/{startDate}/g, startDate)
+        .replace(/{endDate}/g, endDate);
+}
+
+// Zet het rapport om naar rijen voor één tabblad: een kop met de periode, daarna de tabellen onder elkaar
+export function buildReportSheetRows(report: WorkLogsResponse, tables: ExportTable[], updatedAt = new Date()): ExportValue[][] {
+    const rows: ExportValue[][] = [
+        [`Worklog rapport ${report.startDate} t/m ${report.endDate}`],
+        [`Bijgewerkt op ${format(updatedAt, 'yyyy-MM-dd HH:mm')}`]
+    ];
+
+    if (report.jiraFailures.length > 0) {
+        rows.push([`Let op: ${report.jiraFailures.length} Jira request(s) zijn mislukt, de gegevens zijn mogelijk onvolledig`]);
+    }
+
+    tables
+        .filter(table => !EXCLUDED_TABLES.includes(table.id))
+        .forEach(table => {
+            rows.push([], [table.name], table.headers, ...table.rows);
+        });
+
+    return rows;
+}
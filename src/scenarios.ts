@@ -0,0 +1,273 @@
+import path from 'path';
+import fs from 'fs';
+import { logger } from './logger.js';
+import type { JiraIssue } from './types.js';
+import { PRIORITY_ORDER } from './planning.js';
+import type { SprintCapacity, PlanningResult } from './planning.js';
+import { getEpicKey } from './forecast.js';
+
+// Andere capaciteit voor een medewerker in een sprint, of in alle sprints als sprint ontbreekt
+export interface CapacityOverride {
+    employee: string;
+    sprint?: string;
+    capacity: number;
+}
+
+export interface AssigneeOverride {
+    issue: string;
+    assignee: string;
+}
+
+// Resterende schatting in uren
+export interface EstimateOverride {
+    issue: string;
+    hours: number;
+}
+
+export interface PriorityOverride {
+    issue: string;
+    priority: string;
+}
+
+// Een benoemde set wijzigingen op de actuele Jira en sheet gegevens van een project; Jira zelf wordt
+// niet aangepast
+export interface Scenario {
+    project: string;
+    name: string;
+    description?: string;
+    capacity: CapacityOverride[];
+    assignees: AssigneeOverride[];
+    estimates: EstimateOverride[];
+    // Issue keys of epic keys; bij een epic vervallen alle issues van die epic
+    excluded: string[];
+    priorities: PriorityOverride[];
+    updated?: string;
+}
+
+export interface AllocationChange {
+    key: string;
+    summary: string;
+    // Sprints met de geplande uren, bijvoorbeeld "3 (8 uur)"
+    baseline: string[];
+    scenario: string[];
+}
+
+export interface SprintLoadChange {
+    sprint: string;
+    employee: string;
+    baselineHours: number;
+    scenarioHours: number;
+}
+
+export interface PlanningDiff {
+    allocations: AllocationChange[];
+    load: SprintLoadChange[];
+}
+
+function getScenariosPath(): string {
+    return process.env.SCENARIOS_PATH || path.join(process.cwd(), 'data', 'scenarios.json');
+}
+
+function toList<T>(value: unknown, field: string, parse: (item: any) => T): T[] {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    if (!Array.isArray(value)) {
+        throw new Error(`Scenario veld ${field} moet een lijst zijn`);
+    }
+    return value.map(parse);
+}
+
+function toText(value: unknown, field: string): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+        throw new Error(`Scenario veld ${field} is verplicht`);
+    }
+    return value.trim();
+}
+
+function toHours(value: unknown, field: string): number {
+    const hours = Number(value);
+    if (value === '' || value === null || isNaN(hours) || hours < 0) {
+        throw new Error(`Scenario veld ${field} moet een aantal uren van 0 of meer zijn`);
+    }
+    return hours;
+}
+
+// Alleen prioriteiten die de planning kent; de naam wordt geschreven zoals in Jira
+function toPriority(value: unknown, field: string): string {
+    const text = toText(value, field);
+    const priority = Object.keys(PRIORITY_ORDER).find(name => name.toLowerCase() === text.toLowerCase());
+    if (!priority) {
+        throw new Error(`Scenario veld ${field} moet een van ${Object.keys(PRIORITY_ORDER).join(', ')} zijn`);
+    }
+    return priority;
+}
+
+// Controleer een scenario zoals het binnenkomt in een request
+export function parseScenario(body: any): Scenario {
+    if (!body || typeof body !== 'object') {
+        throw new Error('Scenario ontbreekt');
+    }
+
+    return {
+        project: toText(body.project, 'project'),
+        name: toText(body.name, 'name'),
+        ...(body.description ? { description: String(body.description) } : {}),
+        capacity: toList(body.capacity, 'capacity', item => ({
+            employee: toText(item?.employee, 'capacity.employee'),
+            ...(item?.sprint !== undefined && item?.sprint !== null && item?.sprint !== '' ? { sprint: String(item.sprint) } : {}),
+            capacity: toHours(item?.capacity, 'capacity.capacity')
+        })),
+        assignees: toList(body.assignees, 'assignees', item => ({
+            issue: toText(item?.issue, 'assignees.issue'),
+            assignee: toText(item?.assignee, 'assignees.assignee')
+        })),
+        estimates: toList(body.estimates, 'estimates', item => ({
+            issue: toText(item?.issue, 'estimates.issue'),
+            hours: toHours(item?.hours, 'estimates.hours')
+        })),
+        excluded: toList(body.excluded, 'excluded', item => toText(item, 'excluded')),
+        priorities: toList(body.priorities, 'priorities', item => ({
+            issue: toText(item?.issue, 'priorities.issue'),
+            priority: toPriority(item?.priority, 'priorities.priority')
+        }))
+    };
+}
+
+export function loadScenarios(project?: string): Scenario[] {
+    const scenariosPath = getScenariosPath();
+    if (!fs.existsSync(scenariosPath)) {
+        return [];
+    }
+
+    const scenarios: Scenario[] = JSON.parse(fs.readFileSync(scenariosPath, 'utf-8'));
+    return scenarios.filter(scenario => !project || scenario.project === project);
+}
+
+export function getScenario(project: string, name: string): Scenario | undefined {
+    return loadScenarios(project).find(scenario => scenario.name === name);
+}
+
+function writeScenarios(scenarios: Scenario[]): void {
+    const scenariosPath = getScenariosPath();
+    fs.mkdirSync(path.dirname(scenariosPath), { recursive: true });
+    fs.writeFileSync(scenariosPath, JSON.stringify(scenarios, null, 2));
+}
+
+// Sla een scenario op; een bestaand scenario met dezelfde naam in hetzelfde project wordt vervangen
+export function saveScenario(scenario: Scenario): Scenario {
+    const saved = { ...scenario, updated: new Date().toISOString() };
+    const scenarios = loadScenarios().filter(existing => existing.project !== scenario.project || existing.name !== scenario.name);
+    writeScenarios([...scenarios, saved]);
+    logger.log(`Scenario "${scenario.name}" opgeslagen voor project ${scenario.project}`);
+    return saved;
+}
+
+export function deleteScenario(project: string, name: string): boolean {
+    const scenarios = loadScenarios();
+    const remaining = scenarios.filter(scenario => scenario.project !== project || scenario.name !== name);
+    if (remaining.length === scenarios.length) {
+        return false;
+    }
+    writeScenarios(remaining);
+    logger.log(`Scenario "${name}" verwijderd voor project ${project}`);
+    return true;
+}
+
+// Pas een scenario toe op de issues en sprint capaciteit van een project
+export function applyScenario(issues: JiraIssue[], sprintCapacity: SprintCapacity[], scenario: Scenario): { issues: JiraIssue[]; sprintCapacity: SprintCapacity[] } {
+    const excluded = new Set(scenario.excluded);
+    const assignees = new Map(scenario.assignees.map(override => [override.issue, override.assignee]));
+    const estimates = new Map(scenario.estimates.map(override => [override.issue, override.hours]));
+    const priorities = new Map(scenario.priorities.map(override => [override.issue, override.priority]));
+
+    const scenarioIssues = issues
+        .filter(issue => !excluded.has(issue.key) && !excluded.has(getEpicKey(issue)))
+        .map(issue => ({
+            ...issue,
+            fields: {
+                ...issue.fields,
+                ...(assignees.has(issue.key) ? { assignee: { displayName: assignees.get(issue.key)! } } : {}),
+                ...(estimates.has(issue.key) ? { timeestimate: Math.round(estimates.get(issue.key)! * 3600) } : {}),
+                ...(priorities.has(issue.key) ? { priority: { name: priorities.get(issue.key)! } } : {})
+            }
+        }));
+
+    const scenarioCapacity = sprintCapacity.map(capacity => {
+        // De laatste wijziging voor dezelfde medewerker en sprint telt
+        const override = [...scenario.capacity].reverse().find(candidate =>
+            candidate.employee === capacity.employee && (candidate.sprint === undefined || candidate.sprint === capacity.sprint)
+        );
+        return override ? { ...capacity, capacity: override.capacity } : capacity;
+    });
+
+    // Capaciteit voor medewerkers of sprints die nog niet in de capaciteit staan, bijvoorbeeld een extra medewerker
+    scenario.capacity
+        .filter(override => override.sprint !== undefined)
+        .filter(override => !scenarioCapacity.some(capacity => capacity.employee === override.employee && capacity.sprint === override.sprint))
+        .forEach(override => {
+            scenarioCapacity.push({
+                employee: override.employee,
+                sprint: override.sprint!,
+                capacity: override.capacity,
+                project: scenario.project
+            });
+        });
+
+    const unknown = [...assignees.keys(), ...estimates.keys(), ...priorities.keys()].filter(key => !issues.some(issue => issue.key === key));
+    if (unknown.length > 0) {
+        logger.log(`Scenario "${scenario.name}": onbekende issues overgeslagen: ${Array.from(new Set(unknown)).join(', ')}`);
+    }
+
+    return { issues: scenarioIssues, sprintCapacity: scenarioCapacity };
+}
+
+function getAllocations(planning: PlanningResult): Map<string, { summary: string; sprints: string[] }> {
+    const allocations = new Map<string, { summary: string; sprints: string[] }>();
+    planning.plannedIssues.forEach(planned => {
+        if (!allocations.has(planned.issue.key)) {
+            allocations.set(planned.issue.key, { summary: planned.issue.fields.summary, sprints: [] });
+        }
+        allocations.get(planned.issue.key)!.sprints.push(`${planned.sprint} (${planned.hours} uur)`);
+    });
+    return allocations;
+}
+
+// Verschillen in de verdeling over de sprints tussen de planning zonder en met scenario: per issue de
+// sprints waarin het gepland is, en per sprint en medewerker de geplande uren
+export function diffPlannings(baseline: PlanningResult, scenario: PlanningResult): PlanningDiff {
+    const baselineAllocations = getAllocations(baseline);
+    const scenarioAllocations = getAllocations(scenario);
+    const keys = Array.from(new Set([...baselineAllocations.keys(), ...scenarioAllocations.keys()]));
+
+    const allocations = keys
+        .map(key => ({
+            key,
+            summary: (baselineAllocations.get(key) || scenarioAllocations.get(key))!.summary,
+            baseline: baselineAllocations.get(key)?.sprints || [],
+            scenario: scenarioAllocations.get(key)?.sprints || []
+        }))
+        .filter(change => change.baseline.join() !== change.scenario.join());
+
+    // Geplande uren per sprint en medewerker in beide planningen
+    const cells = new Map<string, SprintLoadChange>();
+    const addLoad = (planning: PlanningResult, field: 'baselineHours' | 'scenarioHours') => {
+        planning.employeeSprintUsedHours.forEach(({ employee, sprintHours }) => {
+            sprintHours.forEach(({ sprint, hours }) => {
+                const id = JSON.stringify([sprint, employee]);
+                if (!cells.has(id)) {
+                    cells.set(id, { sprint, employee, baselineHours: 0, scenarioHours: 0 });
+                }
+                cells.get(id)![field] = hours;
+            });
+        });
+    };
+    addLoad(baseline, 'baselineHours');
+    addLoad(scenario, 'scenarioHours');
+
+    const load = Array.from(cells.values())
+        .filter(change => change.baselineHours !== change.scenarioHours)
+        .sort((a, b) => Number(a.sprint) - Number(b.sprint) || a.sprint.localeCompare(b.sprint) || a.employee.localeCompare(b.employee));
+
+    return { allocations, load };
+}
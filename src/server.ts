@@ -6,13 +6,17 @@ import { dirname, join } from 'path';
 import { google } from 'googleapis';
 import { JWT } from 'google-auth-library';
 import { logger } from './logger.js';
-import { getActiveIssues, getWorkLogs, getPlanning, jiraClient, getIssuesForProject, getWorkLogsForProject, getIssues } from './jira.js';
+import { getActiveIssues, getWorkLogs, getPlanning, jiraClient, getIssuesForProject, getWorkLogsForProject, getIssues, toWorkLog } from './jira.js';
+import { withJiraFailureTracking, syncWorklogStore, WORKLOG_MODE, getAllWorklogsForPeriod, getIssuesWithChangelog, getIssuesWithoutWorklogs } from './jira.js';
+import type { JiraWorkLog, JiraFailure } from './jira.js';
 import cors from 'cors';
-import type { WorkLogsResponse } from './types.js';
+import type { WorkLogsResponse, WorkLogsTable, ProjectWorkLogs, EmployeeAvailability } from './types.js';
 import { JIRA_DOMAIN } from './config.js';
 import axios from 'axios';
-import { getProjectConfigsFromSheet, getWorklogConfigsFromSheet } from './google-sheets.js';
-import { getGoogleSheetsData } from './google-sheets.js';
+import { getProjectConfigsFromSheet, getWorklogConfigsFromSheet, getSprintCapacityFromSheet } from './google-sheets.js';
+import { REPORT_SHEET_ENABLED, sheetTabExists, writeSheetTab } from './google-sheets.js';
+import { getGoogleSheetsData, getEmployeesFromSheet, parseEmployees, parseSprintNames, getSheetValidationErrors } from './google-sheets.js';
+import type { Employee } from './google-sheets.js';
 import { 
     Issue, 
     WorkLog, 
@@ -20,43 +24,47 @@ import {
     SprintResult, 
     WorklogConfig,
     EfficiencyData,
+    EfficiencyAttribution,
     JiraIssue
 } from './types.js';
+import { buildSprintCapacity, planIssues, UNPLANNED_SPRINT } from './planning.js';
+import { FIXTURE_MODE } from './fixtures.js';
+import { getActiveEmployees, calculateProjectWorklogHours, getProjectCategories, toWorkLogsTable, mergeWorkLogsTables, buildAvailability, getAuthorName } from './worklog-report.js';
+import { buildExportTables, toCsv, toXlsx, getProjectTableId } from './report-export.js';
+import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import type { ExportFormat, ExportWorklog } from './report-export.js';
+import { getReportSheetTitle, buildReportSheetRows } from './report-sheet.js';
+import { formatSheetRowError } from './sheet-schema.js';
+import { getLeaveCalendar } from './leave.js';
+import { buildTimesheetReport } from './timesheet.js';
+import type { TimesheetReport, TimesheetStatus } from './timesheet.js';
+import { buildFlowReport } from './flow-metrics.js';
+import { calculateEfficiencyFromIssues, buildEfficiencyTrend, toTrendChartData, getEstimateHeader, getAttributionMode, ATTRIBUTION_LABELS, TREND_GRANULARITIES } from './efficiency.js';
+import type { EfficiencyResult, EfficiencyTrend, EfficiencyTrendSeries, TrendGranularity } from './efficiency.js';
+import { buildEstimateAccuracyReport } from './estimate-accuracy.js';
+import type { EstimateAccuracyReport, EstimateAccuracyGroup } from './estimate-accuracy.js';
+import type { FlowReport, FlowGroup } from './flow-metrics.js';
+import type { PlanningResult, SprintCapacity, PlanningOptions } from './planning.js';
+import { buildProjectForecast, getHistoricalRatios, simulateProjectForecast, DEFAULT_SIMULATION_RUNS } from './forecast.js';
+import type { ProjectForecast, ForecastGroup, ProjectSimulation, SprintFinish } from './forecast.js';
+import { applyScenario, diffPlannings, getScenario, loadScenarios, parseScenario, saveScenario, deleteScenario } from './scenarios.js';
+import type { Scenario, PlanningDiff } from './scenarios.js';
+import { buildAllocationAlerts } from './allocation-alerts.js';
+import type { AllocationAlert } from './allocation-alerts.js';
+import { getSprintCalendarForProjects, getProjectSprints, getIssueSprintIds, buildSprintCalendar } from './sprints.js';
+import type { SprintPeriod } from './capacity.js';
 
 type GoogleSheetsData = (string | null)[][];
 
-interface SprintCapacity {
-    employee: string;
-    sprint: string;
-    capacity: number;
-    project: string;
-}
-
-interface PlanningResult {
-    sprintCapacity: SprintCapacity[];
-    employeeSprintUsedHours: {
-        employee: string;
-        sprintHours: {
-            sprint: string;
-            hours: number;
-            issues: { key: string; hours: number }[];
-        }[];
-    }[];
-    plannedIssues: {
-        issue: JiraIssue;
-        sprint: string;
-        hours: number;
-    }[];
-}
-
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 // Laad .env.local bestand
 config({ path: join(__dirname, '../.env.local') });
 
-// Controleer of alle benodigde environment variables aanwezig zijn
-const requiredEnvVars = [
+// Controleer of alle benodigde environment variables aanwezig zijn (niet nodig als
+// Jira en Google Sheets responses uit fixtures komen)
+const requiredEnvVars = FIXTURE_MODE === 'replay' ? [] : [
     'JIRA_HOST',
     'JIRA_USERNAME',
     'JIRA_API_TOKEN',
@@ -75,16 +83,18 @@ for (const envVar of requiredEnvVars) {
 const app = express();
 const port = process.env.PORT || 3001;
 
-if (!process.env.GOOGLE_SHEETS_SPREADSHEET_ID) {
-    throw new Error('Missing GOOGLE_SHEETS_SPREADSHEET_ID in environment variables');
-}
+if (FIXTURE_MODE !== 'replay') {
+    if (!process.env.GOOGLE_SHEETS_SPREADSHEET_ID) {
+        throw new Error('Missing GOOGLE_SHEETS_SPREADSHEET_ID in environment variables');
+    }
 
-if (!process.env.GOOGLE_SHEETS_CLIENT_EMAIL) {
-    throw new Error('Missing GOOGLE_SHEETS_CLIENT_EMAIL in environment variables');
-}
+    if (!process.env.GOOGLE_SHEETS_CLIENT_EMAIL) {
+        throw new Error('Missing GOOGLE_SHEETS_CLIENT_EMAIL in environment variables');
+    }
 
-if (!process.env.GOOGLE_SHEETS_PRIVATE_KEY) {
-    throw new Error('Missing GOOGLE_SHEETS_PRIVATE_KEY in environment variables');
+    if (!process.env.GOOGLE_SHEETS_PRIVATE_KEY) {
+        throw new Error('Missing GOOGLE_SHEETS_PRIVATE_KEY in environment variables');
+    }
 }
 
 const SPREADSHEET_ID = process.env.GOOGLE_SHEETS_SPREADSHEET_ID;
@@ -93,7 +103,7 @@ const SPREADSHEET_ID = process.env.GOOGLE_SHEETS_SPREADSHEET_ID;
 const SCOPES = ['https://www.googleapis.com/auth/spreadsheets.readonly'];
 const auth = new JWT({
     email: process.env.GOOGLE_SHEETS_CLIENT_EMAIL,
-    key: process.env.GOOGLE_SHEETS_PRIVATE_KEY.replace(/\\n/g, '\n'),
+    key: process.env.GOOGLE_SHEETS_PRIVATE_KEY?.replace(/\\n/g, '\n'),
     scopes: SCOPES
 });
 
@@ -102,6 +112,12 @@ const sheets = google.sheets({ version: 'v4', auth });
 app.use(cors());
 app.use(express.json());
 
+// Verzamel per request de Jira fouten die onderweg zijn opgevangen, zodat de pagina ze kan tonen
+app.use((req, res, next) => {
+    res.locals.jiraFailures = [];
+    withJiraFailureTracking(res.locals.jiraFailures, next);
+});
+
 // Basis route
 app.get('/', async (req, res) => {
     try {
@@ -111,6 +127,7 @@ app.get('/', async (req, res) => {
         
         // Haal Google Sheets data op
         const googleSheetsData = await getGoogleSheetsData();
+        const employees = parseEmployees(googleSheetsData);
         
         // Verwerk elk project
         let html = `
@@ -139,21 +156,28 @@ app.get('/', async (req, res) => {
                         <li class="nav-item">
                             <a href="/worklogs" class="nav-link">Worklogs & Efficiëntie</a>
                         </li>
+                        <li class="nav-item">
+                            <a href="/forecast" class="nav-link">Prognose</a>
+                        </li>
                     </ul>
                 </nav>
                 <div class="container-fluid">
         `;
 
         // Verwerk elk project
+        let projectsHtml = '';
         for (const projectConfig of projectConfigs) {
             const issues = await getIssues(projectConfig.jqlFilter);
             const jiraIssues = convertIssuesToJiraIssues(issues);
-            const planning = await calculatePlanning(jiraIssues, projectConfig.projectName, googleSheetsData);
-            const sprintNames = await getSprintNamesFromSheet(googleSheetsData);
+            const planning = await calculatePlanning(jiraIssues, projectConfig.projectName, employees, projectConfig.projectCodes);
+            const sprintNames = await getSprintNames(googleSheetsData, await getSprintCalendarForProjects(projectConfig.projectCodes));
             
-            html += generatePlanningTable(planning, sprintNames);
+            projectsHtml += generatePlanningTable(planning, sprintNames);
         }
 
+        html += generateJiraFailuresAlert(res.locals.jiraFailures);
+        html += generateSheetValidationAlert();
+        html += projectsHtml;
         html += `
                 </div>
                 <script src="https://cdn.jsdelivr.net/npm/bootstrap@5.1.3/dist/js/bootstrap.bundle.min.js"></script>
@@ -186,42 +210,8 @@ app.get('/progress', (req, res) => {
     res.write('data: {"step": 0}\n\n');
 });
 
-function calculateExpectedHours(startDate: string, endDate: string, availableHoursPerWeek: number, employeeName: string): number {
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    let totalDays = 0;
-    let currentDate = new Date(start);
-
-    // Tel alleen weekdagen (maandag t/m vrijdag)
-    while (currentDate <= end) {
-        const dayOfWeek = currentDate.getDay();
-        // Alleen maandag (1) t/m vrijdag (5) tellen mee
-        if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-            totalDays++;
-        }
-        currentDate.setDate(currentDate.getDate() + 1);
-    }
-
-    // Bereken beschikbare uren per dag door de beschikbare uren per week te delen door 5
-    const availableHoursPerDay = availableHoursPerWeek / 5;
-    
-    // Bereken verwachte uren door beschikbare uren per dag te vermenigvuldigen met aantal dagen
-    const expectedHours = Number((totalDays * availableHoursPerDay).toFixed(1));
-
-    return expectedHours;
-}
-
-interface IssueHistory {
-    created: string;
-    items: {
-        field: string;
-        toString: string;
-    }[];
-}
-
-async function calculateEfficiency(issues: JiraIssue[], startDate: Date, endDate: Date): Promise<{ normal: EfficiencyData[], pure: EfficiencyData[] }> {
-    logger.log('Start calculateEfficiency functie');
-    
+// Afgesloten issues van alle projecten uit de Projects sheet die in de periode zijn opgelost, met hun worklogs
+async function getClosedIssuesForPeriod(startDate: Date, endDate: Date): Promise<Issue[]> {
     // Haal project configuraties op uit Google Sheet
     const projectConfigs = await getProjectConfigsFromSheet();
     
@@ -255,215 +245,30 @@ async function calculateEfficiency(issues: JiraIssue[], startDate: Date, endDate
     logger.log(jql);
     
     logger.log(`JQL Query voor efficiency berekening: ${jql}`);
-    const allClosedIssues = await getIssues(jql);
-    
-    logger.log(`Aantal afgesloten issues van alle projecten: ${allClosedIssues.length}`);
-    logger.log(`Periode: ${startDate.toISOString()} tot ${endDate.toISOString()}`);
-
-    // Haal worklogs op voor alle issues
-    const allWorklogs: WorkLog[] = [];
-    for (const issue of allClosedIssues) {
-        try {
-            let worklogStartAt = 0;
-            const worklogMaxResults = 100;
-            let hasMoreWorklogs = true;
-            let allIssueWorklogs: any[] = [];
-
-            while (hasMoreWorklogs) {
-                const worklogUrl = `/issue/${issue.key}/worklog`;
-                logger.log(`\nOphalen worklogs voor issue ${issue.key}:`);
-                logger.log(`- Worklog URL: ${worklogUrl}`);
-                logger.log(`- Parameters: startAt=${worklogStartAt}, maxResults=${worklogMaxResults}`);
-                
-                try {
-                    const worklogResponse = await jiraClient.get(worklogUrl, {
-                        params: {
-                            startAt: worklogStartAt,
-                            maxResults: worklogMaxResults
-                        }
-                    });
-                    
-                    const issueWorklogs = worklogResponse.data.worklogs || [];
-                    allIssueWorklogs.push(...issueWorklogs);
-                    
-                    const totalWorklogs = worklogResponse.data.total;
-                    hasMoreWorklogs = allIssueWorklogs.length < totalWorklogs;
-                    
-                    if (hasMoreWorklogs) {
-                        worklogStartAt += worklogMaxResults;
-                        logger.log(`- Meer worklogs beschikbaar, ophalen volgende batch...`);
-                    }
-                } catch (error: any) {
-                    logger.error(`Error bij ophalen worklogs voor issue ${issue.key}:`);
-                    logger.error(`- Worklog URL: ${worklogUrl}`);
-                    logger.error(`- Parameters: startAt=${worklogStartAt}, maxResults=${worklogMaxResults}`);
-                    logger.error(`- Error message: ${error.message}`);
-                    if (error.response?.data) {
-                        logger.error(`- Response data: ${JSON.stringify(error.response.data)}`);
-                    }
-                    throw error;
-                }
-            }
-            
-            // Verwerk alle worklogs voor dit issue, zonder datum filtering
-            if (allIssueWorklogs.length > 0) {
-                const processedWorklogs = allIssueWorklogs.map((log: any) => ({
-                    issueKey: issue.key,
-                    issueSummary: issue.fields?.summary || 'Geen samenvatting',
-                    issueStatus: issue.fields?.status?.name || 'Onbekend',
-                    issueAssignee: issue.fields?.assignee?.displayName || 'Onbekend',
-                    issuePriority: issue.fields?.priority?.name || 'Lowest',
-                    author: typeof log.author === 'string' ? log.author : log.author.displayName,
-                    timeSpentSeconds: log.timeSpentSeconds,
-                    started: log.started,
-                    comment: log.comment
-                }));
-                
-                allWorklogs.push(...processedWorklogs);
-                logger.log(`Issue ${issue.key}: ${allIssueWorklogs.length} worklogs gevonden`);
-            } else {
-                logger.log(`Issue ${issue.key}: Geen worklogs gevonden`);
-            }
-        } catch (error) {
-            logger.error(`Error bij ophalen worklogs voor issue ${issue.key}: ${error}`);
-        }
-    }
-
-    logger.log(`Totaal aantal worklogs gevonden: ${allWorklogs.length}`);
-
-    // Groepeer worklogs per medewerker
-    const worklogsByEmployee = new Map<string, WorkLog[]>();
-    allWorklogs.forEach(log => {
-        const employeeName = typeof log.author === 'string' ? 
-            log.author : 
-            (log.author && typeof log.author === 'object' && 'displayName' in log.author ? 
-                log.author.displayName : 
-                'Onbekend');
-        
-        if (!worklogsByEmployee.has(employeeName)) {
-            worklogsByEmployee.set(employeeName, []);
-        }
-        worklogsByEmployee.get(employeeName)?.push(log);
-    });
-
-    logger.log(`Aantal medewerkers met worklogs: ${worklogsByEmployee.size}`);
-
-    // Bereken efficiëntie per medewerker
-    const efficiencyData: EfficiencyData[] = [];
-    const pureEfficiencyData: EfficiencyData[] = [];
-
-    // Identificeer issues met meerdere medewerkers
-    const issuesWithMultipleEmployees = new Set<string>();
-    const issueWorklogs = new Map<string, Set<string>>();
-
-    allWorklogs.forEach(log => {
-        const employeeName = typeof log.author === 'string' ? 
-            log.author : 
-            (log.author && typeof log.author === 'object' && 'displayName' in log.author ? 
-                log.author.displayName : 
-                'Onbekend');
-        
-        if (!issueWorklogs.has(log.issueKey)) {
-            issueWorklogs.set(log.issueKey, new Set());
-        }
-        issueWorklogs.get(log.issueKey)?.add(employeeName);
-    });
-
-    issueWorklogs.forEach((employees, issueKey) => {
-        if (employees.size > 1) {
-            issuesWithMultipleEmployees.add(issueKey);
-        }
-    });
-
-    worklogsByEmployee.forEach((employeeWorklogs, employeeName) => {
-        // Filter issues voor deze medewerker
-        const employeeIssues = allClosedIssues.filter((issue: any) => 
-            issue.fields && issue.fields.assignee && issue.fields.assignee.displayName === employeeName
-        );
-
-        // Bereken totale geschatte uren en verzamel issue details
-        let totalEstimatedHours = 0;
-        const issueDetails: { key: string; estimatedHours: number; loggedHours: number }[] = [];
-
-        employeeIssues.forEach(issue => {
-            const issueKey = issue.key;
-            
-            // Bereken geschatte uren voor dit issue
-            const estimatedHours = issue.fields?.timeoriginalestimate 
-                ? issue.fields.timeoriginalestimate / 3600 
-                : 0;
-            totalEstimatedHours += estimatedHours;
-
-            // Haal worklogs op voor dit issue
-            const issueWorklogs = employeeWorklogs.filter(log => log.issueKey === issueKey);
-
-            // Bereken gelogde uren voor dit issue
-            const loggedHours = issueWorklogs.reduce((total, log) => total + log.timeSpentSeconds / 3600, 0);
-
-            issueDetails.push({
-                key: issueKey,
-                estimatedHours,
-                loggedHours
-            });
-
-            // Log de worklogs voor dit issue
-            logger.log(`\nIssue ${issueKey}:`);
-            logger.log(`- Geschatte uren: ${estimatedHours.toFixed(1)}`);
-            logger.log(`- Gelogde uren: ${loggedHours.toFixed(1)}`);
-            issueWorklogs.forEach(log => {
-                const logDate = new Date(log.started).toISOString().split('T')[0];
-                logger.log(`  - ${logDate}: ${(log.timeSpentSeconds / 3600).toFixed(1)} uur`);
-            });
-        });
+    return getIssues(jql);
+}
 
-        // Bereken totale gelogde uren
-        const totalLoggedHours = issueDetails.reduce((total, detail) => total + detail.loggedHours, 0);
-
-        // Bereken efficiëntie
-        const efficiency = totalEstimatedHours > 0 ? (totalLoggedHours / totalEstimatedHours) * 100 : 0;
-
-        // Voeg toe aan normale efficiëntie data
-        efficiencyData.push({
-            employee: employeeName,
-            estimatedHours: Number(totalEstimatedHours.toFixed(1)),
-            loggedHours: Number(totalLoggedHours.toFixed(1)),
-            efficiency: Number(efficiency.toFixed(1)),
-            totalHours: 0,
-            nonWorkingHours: 0,
-            nonIssueHours: 0,
-            numberOfIssues: employeeIssues.length
-        });
+async function calculateEfficiency(issues: JiraIssue[], startDate: Date, endDate: Date): Promise<EfficiencyResult> {
+    logger.log('Start calculateEfficiency functie');
 
-        // Bereken zuivere efficiëntie
-        const pureIssues = employeeIssues.filter(issue => !issuesWithMultipleEmployees.has(issue.key));
-        const pureEstimatedHours = pureIssues.reduce((total, issue) => 
-            total + (issue.fields?.timeoriginalestimate ? issue.fields.timeoriginalestimate / 3600 : 0), 0);
-        const pureLoggedHours = pureIssues.reduce((total, issue) => {
-            const issueWorklogs = employeeWorklogs.filter(log => log.issueKey === issue.key);
-            return total + issueWorklogs.reduce((sum, log) => sum + log.timeSpentSeconds / 3600, 0);
-        }, 0);
-        const pureEfficiency = pureEstimatedHours > 0 ? (pureLoggedHours / pureEstimatedHours) * 100 : 0;
-
-        // Voeg toe aan zuivere efficiëntie data
-        pureEfficiencyData.push({
-            employee: employeeName,
-            estimatedHours: Number(pureEstimatedHours.toFixed(1)),
-            loggedHours: Number(pureLoggedHours.toFixed(1)),
-            efficiency: Number(pureEfficiency.toFixed(1)),
-            totalHours: 0,
-            nonWorkingHours: 0,
-            nonIssueHours: 0,
-            numberOfIssues: pureIssues.length
-        });
-    });
+    const allClosedIssues = await getClosedIssuesForPeriod(startDate, endDate);
+    logger.log(`Aantal afgesloten issues van alle projecten: ${allClosedIssues.length}`);
+    logger.log(`Periode: ${startDate.toISOString()} tot ${endDate.toISOString()}`);
 
-    return {
-        normal: efficiencyData,
-        pure: pureEfficiencyData
-    };
+    return calculateEfficiencyFromIssues(allClosedIssues);
 }
 
-app.get('/worklogs', (req, res) => {
+app.get('/worklogs', async (req, res) => {
+    // De projecten met een worklog overzicht krijgen een eigen keuze in de CSV export
+    let exportProjects: string[] = [];
+    try {
+        exportProjects = (await getProjectConfigsFromSheet())
+            .filter(config => config.worklogName)
+            .map(config => config.projectName);
+    } catch (error) {
+        logger.error(`Error bij ophalen van projecten voor de export: ${error}`);
+    }
+
     const html = `
         <!DOCTYPE html>
         <html lang="nl">
@@ -524,6 +329,19 @@ app.get('/worklogs', (req, res) => {
                     background: #007bff;
                     animation: progress 2s ease-in-out infinite;
                 }
+                .timesheet-heatmap td, .timesheet-heatmap th {
+                    padding: 2px 4px;
+                    text-align: center;
+                    font-size: 0.75rem;
+                }
+                .timesheet-heatmap td.timesheet-employee { text-align: left; white-space: nowrap; }
+                .timesheet-ok { background-color: #c3e6cb; }
+                .timesheet-missing { background-color: #f5c6cb; }
+                .timesheet-under { background-color: #ffeeba; }
+                .timesheet-over { background-color: #b8daff; }
+                .timesheet-leave { background-color: #d6d8db; }
+                .timesheet-free { background-color: #f8f9fa; }
+                .timesheet-future { background-color: #ffffff; }
                 @keyframes spin {
                     0% { transform: rotate(0deg); }
                     100% { transform: rotate(360deg); }
@@ -551,6 +369,9 @@ app.get('/worklogs', (req, res) => {
                     <li class="nav-item">
                         <a href="/worklogs" class="nav-link active">Worklogs & Efficiëntie</a>
                     </li>
+                    <li class="nav-item">
+                        <a href="/forecast" class="nav-link">Prognose</a>
+                    </li>
                 </ul>
             </nav>
             <div class="container">
@@ -572,6 +393,46 @@ app.get('/worklogs', (req, res) => {
                                 <div class="col-md-4">
                                     <label class="form-label">&nbsp;</label>
                                     <button type="button" class="btn btn-primary" onclick="loadWorklogs()">Laad Worklogs</button>
+                                    <button type="button" class="btn btn-secondary" onclick="loadTimesheet()">Urenregistratie</button>
+                                    <button type="button" class="btn btn-secondary" onclick="loadFlow()">Doorlooptijden</button>
+                                    <button type="button" class="btn btn-secondary" onclick="loadEstimateAccuracy()">Schattingen</button>
+                                </div>
+                            </div>
+                            <div class="row mt-2">
+                                <div class="col-md-4">
+                                    <label for="trendProject" class="form-label">Project (sprints uit Jira)</label>
+                                    <input type="text" class="form-control" id="trendProject" placeholder="Alle projecten">
+                                </div>
+                                <div class="col-md-4">
+                                    <label for="trendGranularity" class="form-label">Efficiëntie trend per</label>
+                                    <select class="form-control" id="trendGranularity">
+                                        <option value="week">Week</option>
+                                        <option value="month" selected>Maand</option>
+                                        <option value="sprint">Sprint</option>
+                                    </select>
+                                </div>
+                                <div class="col-md-4">
+                                    <label class="form-label">&nbsp;</label>
+                                    <button type="button" class="btn btn-secondary d-block" onclick="loadEfficiencyTrend()">Efficiëntie trend</button>
+                                </div>
+                            </div>
+                            <div class="row mt-2">
+                                <div class="col-md-4">
+                                    <label for="exportTable" class="form-label">Exporteren</label>
+                                    <select class="form-control" id="exportTable">
+                                        ${exportProjects.map(projectName => `<option value="${getProjectTableId(projectName)}">${projectName}</option>`).join('')}
+                                        <option value="totaal">Worklogs Totaal</option>
+                                        <option value="verwacht">Verwachte uren</option>
+                                        <option value="efficientie">Efficiëntie</option>
+                                        <option value="efficientie-zuiver">Efficiëntie (Zuiver)</option>
+                                        <option value="worklogs">Worklog regels</option>
+                                    </select>
+                                </div>
+                                <div class="col-md-8">
+                                    <label class="form-label">&nbsp;</label>
+                                    <button type="button" class="btn btn-secondary" onclick="exportWorklogs('csv')">Download CSV</button>
+                                    <button type="button" class="btn btn-secondary" onclick="exportWorklogs('xlsx')">Download Excel (alle tabellen)</button>
+                                    <button type="button" class="btn btn-secondary" onclick="writeWorklogsToSheet()">Schrijf naar Google Sheet</button>
                                 </div>
                             </div>
                         </div>
@@ -584,6 +445,191 @@ app.get('/worklogs', (req, res) => {
                 </div>
             </div>
             <script>
+                function exportWorklogs(format) {
+                    const startDate = document.getElementById('startDate').value;
+                    const endDate = document.getElementById('endDate').value;
+
+                    if (!startDate || !endDate) {
+                        alert('Selecteer een begin- en einddatum');
+                        return;
+                    }
+
+                    const table = document.getElementById('exportTable').value;
+                    window.location.href = \`/api/worklogs/export?format=\${format}&table=\${table}&startDate=\${startDate}&endDate=\${endDate}\`;
+                }
+
+                async function writeWorklogsToSheet() {
+                    const startDate = document.getElementById('startDate').value;
+                    const endDate = document.getElementById('endDate').value;
+
+                    if (!startDate || !endDate) {
+                        alert('Selecteer een begin- en einddatum');
+                        return;
+                    }
+
+                    const loadingOverlay = document.getElementById('loadingOverlay');
+                    const loadingMessage = document.getElementById('loadingMessage');
+                    loadingOverlay.style.display = 'flex';
+                    loadingMessage.textContent = 'Rapport wordt naar Google Sheets geschreven...';
+
+                    try {
+                        const response = await fetch(\`/api/worklogs/sheet?startDate=\${startDate}&endDate=\${endDate}\`, { method: 'POST' });
+                        const data = await response.json();
+                        if (!response.ok) {
+                            throw new Error(data.error);
+                        }
+                        alert(\`Tabblad "\${data.title}" is \${data.result === 'created' ? 'aangemaakt' : 'bijgewerkt'}\` +
+                            (data.jiraFailures > 0 ? \` (let op: \${data.jiraFailures} Jira request(s) mislukt)\` : ''));
+                    } catch (error) {
+                        console.error('Error:', error);
+                        alert(error.message || 'Er is een fout opgetreden bij het schrijven naar Google Sheets.');
+                    } finally {
+                        loadingOverlay.style.display = 'none';
+                    }
+                }
+
+                async function loadTimesheet() {
+                    const startDate = document.getElementById('startDate').value;
+                    const endDate = document.getElementById('endDate').value;
+
+                    if (!startDate || !endDate) {
+                        alert('Selecteer een begin- en einddatum');
+                        return;
+                    }
+
+                    const loadingOverlay = document.getElementById('loadingOverlay');
+                    const loadingMessage = document.getElementById('loadingMessage');
+                    const worklogsContainer = document.getElementById('worklogsContainer');
+                    loadingOverlay.style.display = 'flex';
+                    loadingMessage.textContent = 'Urenregistratie wordt gecontroleerd...';
+                    worklogsContainer.innerHTML = '';
+
+                    try {
+                        const response = await fetch(\`/api/worklogs/timesheet/heatmap?startDate=\${startDate}&endDate=\${endDate}\`);
+                        const data = await response.json();
+                        if (!response.ok) {
+                            throw new Error(data.error);
+                        }
+                        worklogsContainer.innerHTML = data.html;
+                    } catch (error) {
+                        console.error('Error:', error);
+                        worklogsContainer.innerHTML = \`
+                            <div class="alert alert-danger">
+                                Er is een fout opgetreden bij het controleren van de urenregistratie.
+                            </div>
+                        \`;
+                    } finally {
+                        loadingOverlay.style.display = 'none';
+                    }
+                }
+
+                async function loadFlow() {
+                    const startDate = document.getElementById('startDate').value;
+                    const endDate = document.getElementById('endDate').value;
+
+                    if (!startDate || !endDate) {
+                        alert('Selecteer een begin- en einddatum');
+                        return;
+                    }
+
+                    const loadingOverlay = document.getElementById('loadingOverlay');
+                    const loadingMessage = document.getElementById('loadingMessage');
+                    const worklogsContainer = document.getElementById('worklogsContainer');
+                    loadingOverlay.style.display = 'flex';
+                    loadingMessage.textContent = 'Doorlooptijden worden berekend...';
+                    worklogsContainer.innerHTML = '';
+
+                    try {
+                        const response = await fetch(\`/api/worklogs/flow/table?startDate=\${startDate}&endDate=\${endDate}\`);
+                        const data = await response.json();
+                        if (!response.ok) {
+                            throw new Error(data.error);
+                        }
+                        worklogsContainer.innerHTML = data.html;
+                    } catch (error) {
+                        console.error('Error:', error);
+                        worklogsContainer.innerHTML = \`
+                            <div class="alert alert-danger">
+                                Er is een fout opgetreden bij het berekenen van de doorlooptijden.
+                            </div>
+                        \`;
+                    } finally {
+                        loadingOverlay.style.display = 'none';
+                    }
+                }
+
+                async function loadEstimateAccuracy() {
+                    const startDate = document.getElementById('startDate').value;
+                    const endDate = document.getElementById('endDate').value;
+
+                    if (!startDate || !endDate) {
+                        alert('Selecteer een begin- en einddatum');
+                        return;
+                    }
+
+                    const loadingOverlay = document.getElementById('loadingOverlay');
+                    const loadingMessage = document.getElementById('loadingMessage');
+                    const worklogsContainer = document.getElementById('worklogsContainer');
+                    loadingOverlay.style.display = 'flex';
+                    loadingMessage.textContent = 'Schattingen worden vergeleken...';
+                    worklogsContainer.innerHTML = '';
+
+                    try {
+                        const response = await fetch(\`/api/worklogs/estimate-accuracy/table?startDate=\${startDate}&endDate=\${endDate}\`);
+                        const data = await response.json();
+                        if (!response.ok) {
+                            throw new Error(data.error);
+                        }
+                        worklogsContainer.innerHTML = data.html;
+                    } catch (error) {
+                        console.error('Error:', error);
+                        worklogsContainer.innerHTML = \`
+                            <div class="alert alert-danger">
+                                Er is een fout opgetreden bij het vergelijken van de schattingen.
+                            </div>
+                        \`;
+                    } finally {
+                        loadingOverlay.style.display = 'none';
+                    }
+                }
+
+                async function loadEfficiencyTrend() {
+                    const startDate = document.getElementById('startDate').value;
+                    const endDate = document.getElementById('endDate').value;
+                    const granularity = document.getElementById('trendGranularity').value;
+                    const project = document.getElementById('trendProject').value.trim();
+
+                    if (!startDate || !endDate) {
+                        alert('Selecteer een begin- en einddatum');
+                        return;
+                    }
+
+                    const loadingOverlay = document.getElementById('loadingOverlay');
+                    const loadingMessage = document.getElementById('loadingMessage');
+                    const worklogsContainer = document.getElementById('worklogsContainer');
+                    loadingOverlay.style.display = 'flex';
+                    loadingMessage.textContent = 'Efficiëntie trend wordt berekend...';
+                    worklogsContainer.innerHTML = '';
+
+                    try {
+                        const response = await fetch(\`/api/worklogs/efficiency-trend/table?startDate=\${startDate}&endDate=\${endDate}&granularity=\${granularity}\${project ? \`&project=\${encodeURIComponent(project)}\` : ''}\`);
+                        const data = await response.json();
+                        if (!response.ok) {
+                            throw new Error(data.error);
+                        }
+                        worklogsContainer.innerHTML = data.html;
+                    } catch (error) {
+                        console.error('Error:', error);
+                        worklogsContainer.innerHTML = \`
+                            <div class="alert alert-danger">
+                                \${error.message || 'Er is een fout opgetreden bij het berekenen van de efficiëntie trend.'}
+                            </div>
+                        \`;
+                    } finally {
+                        loadingOverlay.style.display = 'none';
+                    }
+                }
+
                 async function loadWorklogs() {
                     const startDate = document.getElementById('startDate').value;
                     const endDate = document.getElementById('endDate').value;
@@ -645,15 +691,8 @@ app.get('/worklogs', (req, res) => {
 });
 
 // Functie om de Worklogs totaal tabel te genereren op basis van de verzamelde data
-function generateTotalWorklogsTableFromData(totalHoursByEmployeeAndCategory: Map<string, Map<string, number>>): string {
-    // Bepaal de categorieën (kolommen) voor de tabel
-    const categories = Array.from(totalHoursByEmployeeAndCategory.values())
-        .reduce((allCategories, employeeCategories) => {
-            employeeCategories.forEach((_, category) => allCategories.add(category));
-            return allCategories;
-        }, new Set<string>());
-    
-    let html = `
+function generateTotalWorklogsTableFromData(totals: WorkLogsTable): string {
+    return `
         <div class="row">
             <div class="col-md-12">
                 <h4>Worklogs Totaal</h4>
@@ -661,50 +700,381 @@ function generateTotalWorklogsTableFromData(totalHoursByEmployeeAndCategory: Map
                     <thead>
                         <tr>
                             <th>Medewerker</th>
-                            ${Array.from(categories).map(category => `<th>${category}</th>`).join('')}
+                            ${totals.columns.map(column => `<th>${column}</th>`).join('')}
                             <th>Totaal</th>
                         </tr>
                     </thead>
                     <tbody>
+                        ${totals.employees.map(employee => `
+                            <tr>
+                                <td>${employee.employee}</td>
+                                ${totals.columns.map(column => `<td>${employee.hours[column].toFixed(1)}</td>`).join('')}
+                                <td>${employee.total.toFixed(1)}</td>
+                            </tr>
+                        `).join('')}
+                        <tr class="table-dark">
+                            <td><strong>Totaal</strong></td>
+                            ${totals.columns.map(column =>
+                                `<td><strong>${totals.columnTotals[column].toFixed(1)}</strong></td>`
+                            ).join('')}
+                            <td><strong>${totals.total.toFixed(1)}</strong></td>
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+        </div>
     `;
-    
-    // Bereken totalen per categorie
-    const categoryTotals = new Map<string, number>();
-    categories.forEach(category => {
-        categoryTotals.set(category, 0);
-    });
-    
-    // Genereer rijen voor elke medewerker
-    totalHoursByEmployeeAndCategory.forEach((employeeCategories, employee) => {
-        let employeeTotal = 0;
-        html += `<tr><td>${employee}</td>`;
-        
-        Array.from(categories).forEach(category => {
-            const hours = employeeCategories.get(category) || 0;
-            employeeTotal += hours;
-            categoryTotals.set(category, (categoryTotals.get(category) || 0) + hours);
-            html += `<td>${hours.toFixed(1)}</td>`;
-        });
-        
-        html += `<td>${employeeTotal.toFixed(1)}</td></tr>`;
-    });
-    
-    // Bereken totaal van alle categorieën
-    const grandTotal = Array.from(categoryTotals.values()).reduce((sum, total) => sum + total, 0);
-    
-    // Voeg totaalregel toe
-    html += `
-        <tr class="table-dark">
-            <td><strong>Totaal</strong></td>
-            ${Array.from(categories).map(category => 
-                `<td><strong>${categoryTotals.get(category)?.toFixed(1) || '0.0'}</strong></td>`
-            ).join('')}
-            <td><strong>${grandTotal.toFixed(1)}</strong></td>
-        </tr>
+}
+
+const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+    ok: 'Volledig',
+    missing: 'Niets gelogd',
+    under: 'Te weinig',
+    over: 'Te veel',
+    leave: 'Verlof of feestdag',
+    free: 'Geen werkdag',
+    future: 'Nog niet beoordeeld'
+};
+
+// Heatmap van de urenregistratie: een rij per medewerker, een kolom per dag
+function generateTimesheetHeatmap(report: TimesheetReport): string {
+    const days = report.employees[0]?.days.map(day => day.date) || [];
+    const formatHours = (hours: number) => hours.toFixed(1).replace('.', ',');
+
+    return `
+        <div class="row">
+            <div class="col-md-12">
+                <h4>Urenregistratie ${report.startDate} t/m ${report.endDate}</h4>
+                <p>
+                    ${Object.entries(TIMESHEET_STATUS_LABELS).map(([status, label]) =>
+                        `<span class="badge timesheet-${status}" style="color: #000; border: 1px solid #dee2e6;">${label}</span>`
+                    ).join(' ')}
+                    <small class="text-muted">Marge: ${formatHours(report.toleranceHours)} uur per dag</small>
+                </p>
+                <div style="overflow-x: auto;">
+                    <table class="table table-bordered timesheet-heatmap">
+                        <thead>
+                            <tr>
+                                <th>Medewerker</th>
+                                ${days.map(date => `<th title="${date}">${date.slice(8)}</th>`).join('')}
+                                <th>Niets gelogd</th>
+                                <th>Te weinig</th>
+                                <th>Te veel</th>
+                                <th>Gelogd / verwacht</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            ${report.employees.map(employee => `
+                                <tr>
+                                    <td class="timesheet-employee">${employee.employee}</td>
+                                    ${employee.days.map(day => `
+                                        <td class="timesheet-${day.status}" title="${day.date}: ${formatHours(day.loggedHours)} van ${formatHours(day.expectedHours)} uur (${TIMESHEET_STATUS_LABELS[day.status]})">${day.loggedHours > 0 ? formatHours(day.loggedHours) : ''}</td>
+                                    `).join('')}
+                                    <td>${employee.missingDays}</td>
+                                    <td>${employee.underDays}</td>
+                                    <td>${employee.overDays}</td>
+                                    <td>${formatHours(employee.loggedHours)} / ${formatHours(employee.expectedHours)}</td>
+                                </tr>
+                            `).join('')}
+                        </tbody>
+                    </table>
+                </div>
+                ${generateFutureWorklogsAlert(report)}
+            </div>
+        </div>
+    `;
+}
+
+function generateFutureWorklogsAlert(report: TimesheetReport): string {
+    const employees = report.employees.filter(employee => employee.futureWorklogs.length > 0);
+    if (employees.length === 0) {
+        return '';
+    }
+
+    return `
+        <div class="alert alert-warning">
+            <strong>Worklogs in de toekomst:</strong>
+            <ul>
+                ${employees.map(employee => employee.futureWorklogs.map(log => `
+                    <li>${employee.employee}: ${log.issueKey} op ${log.date} (${log.hours} uur)</li>
+                `).join('')).join('')}
+            </ul>
+        </div>
+    `;
+}
+
+function generateFlowGroupTable(title: string, groups: FlowGroup[]): string {
+    const statuses = Array.from(new Set(groups.flatMap(group => Object.keys(group.timeInStatus))));
+    const formatDays = (days: number) => days.toFixed(1).replace('.', ',');
+
+    return `
+        <h5>${title}</h5>
+        <table class="table table-striped">
+            <thead>
+                <tr>
+                    <th>${title}</th>
+                    <th>Issues</th>
+                    <th>Lead time gem.</th>
+                    <th>Lead time P50 / P85 / P95</th>
+                    <th>Cycle time gem.</th>
+                    <th>Cycle time P50 / P85 / P95</th>
+                    ${statuses.map(status => `<th>${status}</th>`).join('')}
+                </tr>
+            </thead>
+            <tbody>
+                ${groups.map(group => `
+                    <tr>
+                        <td>${group.name}</td>
+                        <td>${group.issues}</td>
+                        <td>${formatDays(group.leadTime.average)}</td>
+                        <td>${formatDays(group.leadTime.p50)} / ${formatDays(group.leadTime.p85)} / ${formatDays(group.leadTime.p95)}</td>
+                        <td>${group.cycleTime.count > 0 ? formatDays(group.cycleTime.average) : '-'}</td>
+                        <td>${group.cycleTime.count > 0 ? `${formatDays(group.cycleTime.p50)} / ${formatDays(group.cycleTime.p85)} / ${formatDays(group.cycleTime.p95)}` : '-'}</td>
+                        ${statuses.map(status => `<td>${formatDays(group.timeInStatus[status] || 0)}</td>`).join('')}
+                    </tr>
+                `).join('')}
+            </tbody>
+        </table>
+    `;
+}
+
+// Doorlooptijden in dagen per project, issuetype en medewerker
+function generateFlowTables(report: FlowReport): string {
+    if (report.issues.length === 0) {
+        return `<div class="alert alert-info">Geen opgeloste issues gevonden van ${report.startDate} t/m ${report.endDate}.</div>`;
+    }
+
+    return `
+        <div class="row">
+            <div class="col-md-12">
+                <h4>Doorlooptijden ${report.startDate} t/m ${report.endDate}</h4>
+                <p><small class="text-muted">
+                    In dagen. Lead time: aangemaakt tot opgelost. Cycle time: eerste keer In Progress tot Closed.
+                    Per status het gemiddeld aantal dagen per issue.
+                </small></p>
+                ${generateFlowGroupTable('Project', report.byProject)}
+                ${generateFlowGroupTable('Issuetype', report.byIssueType)}
+                ${generateFlowGroupTable('Medewerker', report.byAssignee)}
+            </div>
+        </div>
+    `;
+}
+
+const TREND_COLORS = ['#0d6efd', '#dc3545', '#198754', '#fd7e14', '#6f42c1', '#20c997', '#d63384', '#6c757d'];
+
+// Lijngrafiek als SVG: een lijn per medewerker of project, perioden zonder geschatte uren worden overgeslagen
+function generateTrendChart(trend: EfficiencyTrend, series: EfficiencyTrendSeries[]): string {
+    const width = 800;
+    const height = 240;
+    const padding = 40;
+    const values = series.flatMap(line => line.points.map(point => point.efficiency)).filter((value): value is number => value !== null);
+    const maxValue = Math.max(100, ...values);
+    const x = (index: number) => padding + (trend.buckets.length > 1 ? index * (width - 2 * padding) / (trend.buckets.length - 1) : (width - 2 * padding) / 2);
+    const y = (value: number) => height - padding - value / maxValue * (height - 2 * padding);
+
+    return `
+        <svg viewBox="0 0 ${width} ${height}" style="width: 100%; max-width: ${width}px;">
+            <line x1="${padding}" y1="${y(100)}" x2="${width - padding}" y2="${y(100)}" stroke="#adb5bd" stroke-dasharray="4" />
+            <text x="4" y="${y(100) + 4}" font-size="10">100%</text>
+            ${trend.buckets.map((bucket, index) => `<text x="${x(index)}" y="${height - 10}" font-size="10" text-anchor="middle">${bucket.label}</text>`).join('')}
+            ${series.map((line, lineIndex) => {
+                const color = TREND_COLORS[lineIndex % TREND_COLORS.length];
+                const points = line.points
+                    .map((point, index) => point.efficiency === null ? null : { x: x(index), y: y(point.efficiency) })
+                    .filter((point): point is { x: number; y: number } => point !== null);
+                return `
+                    <polyline fill="none" stroke="${color}" stroke-width="2" points="${points.map(point => `${point.x},${point.y}`).join(' ')}" />
+                    ${points.map(point => `<circle cx="${point.x}" cy="${point.y}" r="3" fill="${color}" />`).join('')}
+                `;
+            }).join('')}
+        </svg>
+        <p>
+            ${series.map((line, lineIndex) =>
+                `<span class="badge" style="background-color: ${TREND_COLORS[lineIndex % TREND_COLORS.length]};">${line.name}</span>`
+            ).join(' ')}
+        </p>
+    `;
+}
+
+function generateTrendTable(title: string, trend: EfficiencyTrend, series: EfficiencyTrendSeries[]): string {
+    const formatEfficiency = (value: number | null) => value === null ? '-' : `${value.toFixed(1)}%`;
+
+    return `
+        <h5>${title}</h5>
+        ${generateTrendChart(trend, series)}
+        <div style="overflow-x: auto;">
+            <table class="table table-striped">
+                <thead>
+                    <tr>
+                        <th>${title}</th>
+                        ${trend.buckets.map(bucket => `<th title="${bucket.startDate} t/m ${bucket.endDate}">${bucket.label}</th>`).join('')}
+                    </tr>
+                </thead>
+                <tbody>
+                    ${series.map(line => `
+                        <tr>
+                            <td>${line.name}</td>
+                            ${line.points.map(point => `
+                                <td title="${point.loggedHours.toFixed(1)} van ${point.estimatedHours.toFixed(1)} uur, ${point.numberOfIssues} issues">
+                                    ${formatEfficiency(point.efficiency)}<br><small class="text-muted">zuiver ${formatEfficiency(point.pureEfficiency)}</small>
+                                </td>
+                            `).join('')}
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+    `;
+}
+
+// Efficiëntie per periode, per project en per medewerker
+function generateEfficiencyTrend(trend: EfficiencyTrend): string {
+    if (trend.employees.length === 0) {
+        return `<div class="alert alert-info">Geen afgesloten issues gevonden van ${trend.startDate} t/m ${trend.endDate}.</div>`;
+    }
+
+    return `
+        <div class="row">
+            <div class="col-md-12">
+                <h4>Efficiëntie trend ${trend.startDate} t/m ${trend.endDate}</h4>
+                <p><small class="text-muted">
+                    Gelogde uren gedeeld door de originele schatting van de issues die in de periode zijn afgesloten.
+                    Zuiver: alleen issues waar één medewerker op heeft gelogd.
+                </small></p>
+                ${generateTrendTable('Project', trend, trend.projects)}
+                ${generateTrendTable('Medewerker', trend, trend.employees)}
+            </div>
+        </div>
+    `;
+}
+
+function generateEstimateAccuracyTable(title: string, groups: EstimateAccuracyGroup[]): string {
+    const formatRatio = (ratio: number) => ratio.toFixed(2).replace('.', ',');
+    const labels = groups[0]?.distribution.map(band => band.label) || [];
+
+    return `
+        <h5>${title}</h5>
+        <table class="table table-striped">
+            <thead>
+                <tr>
+                    <th>${title}</th>
+                    <th>Issues</th>
+                    <th>Geschatte uren</th>
+                    <th>Gelogde uren</th>
+                    <th>Mediaan</th>
+                    <th>P25 - P75</th>
+                    <th>Min - max</th>
+                    ${labels.map(label => `<th>${label}</th>`).join('')}
+                </tr>
+            </thead>
+            <tbody>
+                ${groups.map(group => `
+                    <tr>
+                        <td>${group.name}</td>
+                        <td>${group.issues}</td>
+                        <td>${group.estimatedHours.toFixed(1)}</td>
+                        <td>${group.loggedHours.toFixed(1)}</td>
+                        <td>${formatRatio(group.median)}</td>
+                        <td>${formatRatio(group.p25)} - ${formatRatio(group.p75)}</td>
+                        <td>${formatRatio(group.min)} - ${formatRatio(group.max)}</td>
+                        ${group.distribution.map(band => `<td>${band.count}</td>`).join('')}
+                    </tr>
+                `).join('')}
+            </tbody>
+        </table>
+    `;
+}
+
+// Verhouding gelogd / geschat van de afgesloten issues, met de grootste afwijkingen en de issues zonder schatting
+function generateEstimateAccuracy(report: EstimateAccuracyReport): string {
+    const unestimatedHours = report.unestimated.reduce((total, issue) => total + issue.loggedHours, 0);
+
+    return `
+        <div class="row">
+            <div class="col-md-12">
+                <h4>Nauwkeurigheid schattingen ${report.startDate} t/m ${report.endDate}</h4>
+                <p><small class="text-muted">
+                    Verhouding gelogde uren (alle medewerkers) / originele schatting per afgesloten issue; 1 is precies volgens
+                    schatting. Medewerker is de toegewezen medewerker.
+                </small></p>
+                ${report.unestimated.length > 0 ? `
+                    <div class="alert alert-warning">
+                        <strong>${report.unestimated.length} afgesloten issues zonder schatting</strong>
+                        (${unestimatedHours.toFixed(1)} uur gelogd), deze tellen niet mee:
+                        <ul>
+                            ${report.unestimated.map(issue => `
+                                <li>${issue.key} ${issue.summary} (${issue.issueType}, ${issue.assignee}): ${issue.loggedHours.toFixed(1)} uur</li>
+                            `).join('')}
+                        </ul>
+                    </div>
+                ` : ''}
+                ${generateEstimateAccuracyTable('Totaal', [report.overall])}
+                ${generateEstimateAccuracyTable('Issuetype', report.byIssueType)}
+                ${generateEstimateAccuracyTable('Grootte', report.bySize)}
+                ${generateEstimateAccuracyTable('Project', report.byProject)}
+                ${generateEstimateAccuracyTable('Medewerker', report.byAssignee)}
+                <h5>Grootste afwijkingen</h5>
+                <table class="table table-striped">
+                    <thead>
+                        <tr>
+                            <th>Issue</th>
+                            <th>Samenvatting</th>
+                            <th>Issuetype</th>
+                            <th>Medewerker</th>
+                            <th>Geschatte uren</th>
+                            <th>Gelogde uren</th>
+                            <th>Verhouding</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${report.outliers.map(issue => `
+                            <tr>
+                                <td>${issue.key}</td>
+                                <td>${issue.summary}</td>
+                                <td>${issue.issueType}</td>
+                                <td>${issue.assignee}</td>
+                                <td>${issue.estimatedHours.toFixed(1)}</td>
+                                <td>${issue.loggedHours.toFixed(1)}</td>
+                                <td>${issue.ratio.toFixed(2).replace('.', ',')}</td>
+                            </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    `;
+}
+
+function generateAvailabilityTable(availability: EmployeeAvailability[]): string {
+    return `
+        <div class="row">
+            <div class="col-md-12">
+                <h4>Verwachte uren</h4>
+                <table class="table table-striped">
+                    <thead>
+                        <tr>
+                            <th>Medewerker</th>
+                            <th>Verwachte uren</th>
+                            <th>Verlof en feestdagen</th>
+                            <th>Gelogde uren</th>
+                            <th>Gelogd (%)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${availability.map(row => `
+                            <tr class="${row.percentage < 80 ? 'table-warning' : ''}">
+                                <td>${row.employee}</td>
+                                <td>${row.expectedHours.toFixed(1)}</td>
+                                <td>${row.leaveHours.toFixed(1)}</td>
+                                <td>${row.loggedHours.toFixed(1)}</td>
+                                <td>${row.percentage}%</td>
+                            </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+            </div>
+        </div>
     `;
-    
-    html += '</tbody></table></div></div>';
-    return html;
 }
 
 // Error handling middleware
@@ -736,6 +1106,19 @@ process.on('uncaughtException', (error: Error) => {
 try {
     app.listen(port, () => {
         console.log(`Server draait op poort ${port}`);
+
+        // Vul de worklog store alvast, zodat het eerste rapport niet hoeft te wachten
+        if (WORKLOG_MODE === 'store') {
+            syncWorklogStore().catch(error => logger.error(`Synchronisatie worklog store mislukt: ${error}`));
+        }
+
+        // Controleer elk uur of het maandrapport van de vorige maand al in de spreadsheet staat
+        if (REPORT_SHEET_ENABLED && process.env.REPORT_SHEET_SCHEDULE === 'monthly') {
+            const writeMonthlyReport = () => writePreviousMonthReportToSheet()
+                .catch(error => logger.error(`Schrijven van maandrapport naar Google Sheets mislukt: ${error}`));
+            writeMonthlyReport();
+            setInterval(writeMonthlyReport, 60 * 60 * 1000);
+        }
     }).on('error', (error) => {
         console.error(`Error bij starten van server: ${error}`);
         process.exit(1);
@@ -935,6 +1318,25 @@ const styles = `
     .worklogs-form .btn-primary:hover {
         background-color: #0069d9;
     }
+    .worklogs-form .col-md-8 {
+        flex: 0 0 66.666667%;
+        max-width: 66.666667%;
+        padding: 0 15px;
+        margin-bottom: 15px;
+    }
+    .worklogs-form .btn-secondary {
+        background-color: #6c757d;
+        color: white;
+        border: none;
+        padding: 10px 15px;
+        border-radius: 4px;
+        cursor: pointer;
+        height: 38px;
+        margin-right: 10px;
+    }
+    .worklogs-form .btn-secondary:hover {
+        background-color: #5a6268;
+    }
     a {
         color: #007bff;
         text-decoration: none;
@@ -1026,12 +1428,12 @@ const styles = `
     }
 `;
 
-function generatePlanningTable(planning: PlanningResult, sprintNames: Map<string, string>): string {
+function generatePlanningTable(planning: PlanningResult, sprintNames: Map<string, string>, title = 'Planning'): string {
     return `
         <div class="row mb-4">
             <div class="col">
                 <div class="d-flex justify-content-between align-items-center">
-                    <h2 class="mb-0">Planning</h2>
+                    <h2 class="mb-0">${title}</h2>
                     <div class="btn-group">
                         <a href="/worklogs" class="btn btn-outline-primary">Worklogs</a>
                     </div>
@@ -1062,7 +1464,7 @@ function generatePlanningTable(planning: PlanningResult, sprintNames: Map<string
                                     sh => sh.sprint === capacity.sprint
                                 );
                                 const usedHours = sprintHours?.hours || 0;
-                                const availableHours = capacity.capacity - usedHours;
+                                const availableHours = Number((capacity.capacity - usedHours).toFixed(1));
                                 const plannedIssues = sprintHours?.issues || [];
                                 
                                 return `
@@ -1072,20 +1474,196 @@ function generatePlanningTable(planning: PlanningResult, sprintNames: Map<string
                                         <td>${capacity.capacity}</td>
                                         <td>${usedHours}</td>
                                         <td>${availableHours}</td>
-                                        <td>${plannedIssues.map(issue => 
-                                            `${issue.key} (${issue.hours} uur)`
-                                        ).join('<br>')}</td>
+                                        <td>${plannedIssues.map(issue => {
+                                            // Issues die buiten hun sprint in Jira vallen, bijvoorbeeld doordat ze niet binnen die sprint passen
+                                            const jiraSprint = planning.issueSprints?.get(issue.key);
+                                            const inJira = jiraSprint && jiraSprint !== capacity.sprint
+                                                ? ` <span class="text-muted">(in Jira: ${sprintNames.get(jiraSprint) || jiraSprint})</span>`
+                                                : '';
+                                            return `${issue.key} (${issue.hours} uur)${inJira}`;
+                                        }).join('<br>')}</td>
+                                    </tr>
+                                `;
+                            }).join('')}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+        ${generateDependencyWarnings(planning)}
+        ${generateUnplannedIssuesTable(planning)}
+    `;
+}
+
+// Links naar de opgeslagen scenario's van een project; het actieve scenario wordt gemarkeerd
+function generateScenarioLinks(projectName: string, scenarios: Scenario[], active?: Scenario): string {
+    if (scenarios.length === 0) {
+        return '';
+    }
+
+    const link = (label: string, scenario?: Scenario) => {
+        const query = `project=${encodeURIComponent(projectName)}${scenario ? `&scenario=${encodeURIComponent(scenario.name)}` : ''}`;
+        const isActive = scenario?.name === active?.name;
+        return `<a href="/planning?${query}" class="btn ${isActive ? 'btn-primary' : 'btn-outline-primary'}"${scenario?.description ? ` title="${scenario.description}"` : ''}>${label}</a>`;
+    };
+
+    return `
+        <div class="row mb-4">
+            <div class="col">
+                <span class="me-2">Scenario:</span>
+                <div class="btn-group">
+                    ${link('Geen')}
+                    ${scenarios.map(scenario => link(scenario.name, scenario)).join('')}
+                </div>
+            </div>
+        </div>
+    `;
+}
+
+function generatePlanningDiff(diff: PlanningDiff, sprintNames: Map<string, string>): string {
+    const sprintName = (sprint: string) => sprintNames.get(sprint) || sprint;
+    const formatSprints = (sprints: string[]) => sprints.length > 0 ? sprints.join('<br>') : '-';
+
+    return `
+        <div class="row mb-4">
+            <div class="col-lg-6">
+                <h4>Verschuivingen per issue</h4>
+                ${diff.allocations.length === 0 ? '<p class="text-muted">Geen verschillen in de verdeling over de sprints.</p>' : `
+                    <table class="table table-striped table-bordered">
+                        <thead>
+                            <tr>
+                                <th>Issue</th>
+                                <th>Zonder scenario</th>
+                                <th>Met scenario</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            ${diff.allocations.map(change => `
+                                <tr>
+                                    <td>${change.key} - ${change.summary}</td>
+                                    <td>${formatSprints(change.baseline)}</td>
+                                    <td>${formatSprints(change.scenario)}</td>
+                                </tr>
+                            `).join('')}
+                        </tbody>
+                    </table>
+                `}
+            </div>
+            <div class="col-lg-6">
+                <h4>Geplande uren per sprint en medewerker</h4>
+                ${diff.load.length === 0 ? '<p class="text-muted">Geen verschillen in geplande uren.</p>' : `
+                    <table class="table table-striped table-bordered">
+                        <thead>
+                            <tr>
+                                <th>Sprint</th>
+                                <th>Medewerker</th>
+                                <th>Zonder scenario</th>
+                                <th>Met scenario</th>
+                                <th>Verschil</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            ${diff.load.map(change => {
+                                const difference = Number((change.scenarioHours - change.baselineHours).toFixed(1));
+                                return `
+                                    <tr>
+                                        <td>${sprintName(change.sprint)}</td>
+                                        <td>${change.employee}</td>
+                                        <td>${change.baselineHours}</td>
+                                        <td>${change.scenarioHours}</td>
+                                        <td class="${difference > 0 ? 'text-danger' : 'text-success'}">${difference > 0 ? '+' : ''}${difference}</td>
                                     </tr>
                                 `;
                             }).join('')}
                         </tbody>
                     </table>
+                `}
+            </div>
+        </div>
+    `;
+}
+
+function generateAllocationAlerts(alerts: AllocationAlert[]): string {
+    if (alerts.length === 0) {
+        return '';
+    }
+
+    return `
+        <div class="row mb-4">
+            <div class="col">
+                <div class="card">
+                    <div class="card-header">Signaleringen (${alerts.length})</div>
+                    <ul class="list-group list-group-flush">
+                        ${alerts.map(alert => `
+                            <li class="list-group-item list-group-item-${alert.severity}">
+                                ${alert.message}${alert.issues ? `<br><small>${alert.issues.join(', ')}</small>` : ''}
+                            </li>
+                        `).join('')}
+                    </ul>
                 </div>
             </div>
         </div>
     `;
 }
 
+function generateDependencyWarnings(planning: PlanningResult): string {
+    if (planning.dependencyCycles.length === 0 && planning.externalBlockers.length === 0) {
+        return '';
+    }
+
+    return `
+        <div class="row">
+            <div class="col">
+                ${planning.dependencyCycles.map(cycle => `
+                    <div class="alert alert-danger">
+                        Afhankelijkheidscyclus tussen ${cycle.join(', ')}
+                    </div>
+                `).join('')}
+                ${planning.externalBlockers.map(blocker => `
+                    <div class="alert alert-warning">
+                        ${blocker.key} wordt geblokkeerd door voorganger(s) in een ander project: ${blocker.predecessors.join(', ')}
+                    </div>
+                `).join('')}
+            </div>
+        </div>
+    `;
+}
+
+function generateUnplannedIssuesTable(planning: PlanningResult): string {
+    const unplanned = planning.plannedIssues.filter(planned => planned.sprint === UNPLANNED_SPRINT);
+    if (unplanned.length === 0) {
+        return '';
+    }
+
+    return `
+        <div class="row">
+            <div class="col">
+                <h4>${UNPLANNED_SPRINT}</h4>
+                <table class="table table-striped table-bordered">
+                    <thead>
+                        <tr>
+                            <th>Issue</th>
+                            <th>Samenvatting</th>
+                            <th>Medewerker</th>
+                            <th>Resterende uren</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${unplanned.map(planned => `
+                            <tr>
+                                <td>${planned.issue.key}</td>
+                                <td>${planned.issue.fields.summary}</td>
+                                <td>${planned.issue.fields.assignee?.displayName || 'Niet toegewezen'}</td>
+                                <td>${planned.hours}</td>
+                            </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    `;
+}
+
 app.get('/planning', async (req, res) => {
     try {
         const projectType = req.query.project as string;
@@ -1114,11 +1692,39 @@ app.get('/planning', async (req, res) => {
             throw error;
         }
 
+        // Een onleesbaar scenario bestand mag de planning niet blokkeren; die wordt dan zonder scenario's getoond
+        let scenarios: Scenario[] = [];
+        try {
+            scenarios = loadScenarios(projectType);
+        } catch (error: any) {
+            logger.error(`Error bij inlezen van scenario's voor ${projectType}: ${error.message}`);
+        }
+
+        const scenarioName = req.query.scenario as string | undefined;
+        const scenario = scenarioName ? scenarios.find(candidate => candidate.name === scenarioName) : undefined;
+        if (scenarioName && !scenario) {
+            return res.status(404).send('Scenario niet gevonden');
+        }
+
         const issues = await getIssues(projectConfig.jqlFilter);
         const jiraIssues = convertIssuesToJiraIssues(issues);
-        const planning = await calculatePlanning(jiraIssues, projectType, googleSheetsData);
-        const sprintNames = await getSprintNamesFromSheet(googleSheetsData);
-
+        const employees = parseEmployees(googleSheetsData);
+        const planning = await calculatePlanning(jiraIssues, projectType, employees, projectConfig.projectCodes);
+        const sprintNames = await getSprintNames(googleSheetsData, await getSprintCalendarForProjects(projectConfig.projectCodes));
+
+        // Met een scenario staat de planning met scenario naast de planning zonder, met de verschillen eronder
+        let planningHtml = generatePlanningTable(planning, sprintNames);
+        if (scenario) {
+            const scenarioPlanning = await calculatePlanning(jiraIssues, projectType, employees, projectConfig.projectCodes, scenario);
+            planningHtml = `
+                <div class="row">
+                    <div class="col-xl-6">${planningHtml}</div>
+                    <div class="col-xl-6">${generatePlanningTable(scenarioPlanning, sprintNames, `Scenario: ${scenario.name}`)}</div>
+                </div>
+                ${generatePlanningDiff(diffPlannings(planning, scenarioPlanning), sprintNames)}
+            `;
+        }
+
         let html = `
             <!DOCTYPE html>
             <html lang="nl">
@@ -1145,12 +1751,51 @@ app.get('/planning', async (req, res) => {
                         <li class="nav-item">
                             <a href="/worklogs" class="nav-link">Worklogs & Efficiëntie</a>
                         </li>
+                        <li class="nav-item">
+                            <a href="/forecast" class="nav-link">Prognose</a>
+                        </li>
                     </ul>
                 </nav>
                 <div class="container-fluid">
-                    ${generatePlanningTable(planning, sprintNames)}
+                    ${generateJiraFailuresAlert(res.locals.jiraFailures)}
+                    ${generateSheetValidationAlert()}
+                    ${generateScenarioLinks(projectType, scenarios, scenario)}
+                    ${generateAllocationAlerts(buildAllocationAlerts(planning, issues, employees))}
+                    ${planningHtml}
+                    <div class="row mb-4">
+                        <div class="col">
+                            <button class="btn btn-outline-primary" id="simulationButton" onclick="loadSimulation()">Simulatie</button>
+                            <div id="simulationContainer" class="mt-3"></div>
+                        </div>
+                    </div>
                 </div>
                 <script src="https://cdn.jsdelivr.net/npm/bootstrap@5.1.3/dist/js/bootstrap.bundle.min.js"></script>
+                <script>
+                    async function loadSimulation() {
+                        const button = document.getElementById('simulationButton');
+                        const simulationContainer = document.getElementById('simulationContainer');
+                        button.disabled = true;
+                        simulationContainer.innerHTML = '<p class="text-muted">Simulatie wordt uitgevoerd...</p>';
+
+                        try {
+                            const response = await fetch(\`/api/planning/simulation/chart?project=\${encodeURIComponent(${JSON.stringify(projectType)})}\`);
+                            const data = await response.json();
+                            if (!response.ok) {
+                                throw new Error(data.error);
+                            }
+                            simulationContainer.innerHTML = data.html;
+                        } catch (error) {
+                            console.error('Error:', error);
+                            simulationContainer.innerHTML = \`
+                                <div class="alert alert-danger">
+                                    Er is een fout opgetreden bij het simuleren van de planning.
+                                </div>
+                            \`;
+                        } finally {
+                            button.disabled = false;
+                        }
+                    }
+                </script>
             </body>
             </html>
         `;
@@ -1162,129 +1807,22 @@ app.get('/planning', async (req, res) => {
     }
 });
 
-async function getSprintNamesFromSheet(googleSheetsData: (string | null)[][] | null): Promise<Map<string, string>> {
-    const sprintNames = new Map<string, string>();
-    
-    if (!googleSheetsData) {
-        return sprintNames;
-    }
-
-    // Zoek de kolom met sprint namen
-    const headerRow = googleSheetsData[0];
-    const sprintNameColIndex = headerRow.findIndex(header => header === 'Sprint');
-    
-    if (sprintNameColIndex === -1) {
-        return sprintNames;
-    }
-
-    // Vul de map met sprint nummers en namen
-    for (let i = 1; i < googleSheetsData.length; i++) {
-        const row = googleSheetsData[i];
-        const sprintNumber = row[0];
-        const sprintName = row[sprintNameColIndex];
-        
-        if (sprintNumber && sprintName) {
-            sprintNames.set(sprintNumber.toString(), sprintName.toString());
+// Sprintnamen uit de sheet, aangevuld met de namen van de Jira sprints die niet in de sheet staan
+async function getSprintNames(googleSheetsData: (string | null)[][] | null, calendar: SprintPeriod[]): Promise<Map<string, string>> {
+    const sprintNames = googleSheetsData ? parseSprintNames(googleSheetsData) : new Map<string, string>();
+    calendar.forEach(period => {
+        if (period.name && !sprintNames.has(period.sprintId.toString())) {
+            sprintNames.set(period.sprintId.toString(), period.name);
         }
-    }
-
+    });
     return sprintNames;
 }
 
-function generateTotalWorklogsTable(worklogs: WorkLog[]): string {
-    // Groepeer worklogs per medewerker
-    const worklogsByEmployee = new Map<string, WorkLog[]>();
-    worklogs.forEach(log => {
-        const employeeName = typeof log.author === 'string' ? 
-            log.author : 
-            (log.author && typeof log.author === 'object' && 'displayName' in log.author ? 
-                log.author.displayName : 
-                'Onbekend');
-        
-        if (!worklogsByEmployee.has(employeeName)) {
-            worklogsByEmployee.set(employeeName, []);
-        }
-        worklogsByEmployee.get(employeeName)?.push(log);
-    });
-
-    let html = `
-        <div class="row">
-            <div class="col-md-12">
-                <h4>Worklogs Totaal</h4>
-                <table class="table table-striped">
-                    <thead>
-                        <tr>
-                            <th>Medewerker</th>
-                            <th>Niet gewerkt</th>
-                            <th>Overige niet-declarabel</th>
-                            <th>Productontwikkeling</th>
-                            <th>Totaal</th>
-                        </tr>
-                    </thead>
-                    <tbody>
-    `;
-
-    let totalNotWorked = 0;
-    let totalNonBillable = 0;
-    let totalProductDev = 0;
-
-    worklogsByEmployee.forEach((logs, employee) => {
-        // Bereken de uren per categorie op basis van de issues
-        const notWorked = logs
-            .filter(log => {
-                // Filter op basis van de issue key of andere eigenschappen
-                // Hier moeten we de juiste logica toevoegen om te bepalen welke issues bij "Niet gewerkt" horen
-                return false; // Placeholder - vervang dit met de juiste logica
-            })
-            .reduce((sum, log) => sum + log.timeSpentSeconds / 3600, 0);
-        
-        const nonBillable = logs
-            .filter(log => {
-                // Filter op basis van de issue key of andere eigenschappen
-                // Hier moeten we de juiste logica toevoegen om te bepalen welke issues bij "Overige niet-declarabel" horen
-                return false; // Placeholder - vervang dit met de juiste logica
-            })
-            .reduce((sum, log) => sum + log.timeSpentSeconds / 3600, 0);
-        
-        const productDev = logs
-            .filter(log => {
-                // Filter op basis van de issue key of andere eigenschappen
-                // Hier moeten we de juiste logica toevoegen om te bepalen welke issues bij "Productontwikkeling" horen
-                return false; // Placeholder - vervang dit met de juiste logica
-            })
-            .reduce((sum, log) => sum + log.timeSpentSeconds / 3600, 0);
-        
-        const total = notWorked + nonBillable + productDev;
-
-        totalNotWorked += notWorked;
-        totalNonBillable += nonBillable;
-        totalProductDev += productDev;
-
-        html += `
-            <tr>
-                <td>${employee}</td>
-                <td>${notWorked.toFixed(1)}</td>
-                <td>${nonBillable.toFixed(1)}</td>
-                <td>${productDev.toFixed(1)}</td>
-                <td>${total.toFixed(1)}</td>
-            </tr>
-        `;
-    });
-
-    // Voeg totaalregel toe
-    const grandTotal = totalNotWorked + totalNonBillable + totalProductDev;
-    html += `
-        <tr class="table-dark">
-            <td><strong>Totaal</strong></td>
-            <td><strong>${totalNotWorked.toFixed(1)}</strong></td>
-            <td><strong>${totalNonBillable.toFixed(1)}</strong></td>
-            <td><strong>${totalProductDev.toFixed(1)}</strong></td>
-            <td><strong>${grandTotal.toFixed(1)}</strong></td>
-        </tr>
-    `;
-
-    html += '</tbody></table></div></div>';
-    return html;
+// Sprintkalender uit Jira voor de projectcodes van een project. Elk project heeft zijn eigen kalender,
+// omdat teams dezelfde sprintnummers met andere datums kunnen hebben.
+async function getProjectSprintCalendar(projectName: string): Promise<SprintPeriod[]> {
+    const projectConfig = (await getProjectConfigsFromSheet()).find(config => config.projectName === projectName);
+    return getSprintCalendarForProjects(projectConfig?.projectCodes || []);
 }
 
 interface Project {
@@ -1299,8 +1837,8 @@ const projects: Project[] = [
 
 async function loadWorklogs() {
   try {
-    const employees = await getGoogleSheetsData();
-    const projectEmployees = employees.map(row => row[0]); // Eerste kolom bevat de medewerkersnamen
+    const employees = await getEmployeesFromSheet();
+    const projectEmployees = employees.map(employee => employee.name);
 
     // Haal worklogs op voor alle projecten
     const worklogs = await Promise.all(
@@ -1331,364 +1869,1077 @@ async function loadWorklogs() {
   }
 }
 
-async function calculatePlanning(issues: JiraIssue[], projectType: string, googleSheetsData: GoogleSheetsData | null): Promise<PlanningResult> {
-    // Implementatie van calculatePlanning
+async function calculatePlanning(issues: JiraIssue[], projectType: string, employees: Employee[] | null, projectCodes?: string[], scenario?: Scenario): Promise<PlanningResult> {
+    logger.log(`Start planning voor project ${projectType} met ${issues.length} issues${scenario ? ` (scenario ${scenario.name})` : ''}`);
+
+    // Haal de capaciteit per medewerker per sprint op, met de sprintdatums uit Jira
+    const sheetCapacities = await getSprintCapacityFromSheet();
+    const leave = await getLeaveCalendar();
+    const sprints = await getProjectSprints(projectCodes || []);
+    const sprintCapacity = buildSprintCapacity(projectType, employees, sheetCapacities, leave, buildSprintCalendar(sprints));
+
+    // Een scenario past issues en capaciteit aan voordat er gepland wordt; issues die in Jira al in een
+    // sprint staan beginnen in die sprint
+    const input = scenario ? applyScenario(issues, sprintCapacity, scenario) : { issues, sprintCapacity };
+    const planning = planIssues(input.issues, input.sprintCapacity, {
+        projectCodes,
+        strictPredecessors: process.env.PLANNING_STRICT_PREDECESSORS === 'true',
+        issueSprints: getIssueSprintIds(input.issues, sprints)
+    });
+    const unplanned = planning.plannedIssues.filter(planned => planned.sprint === UNPLANNED_SPRINT);
+    logger.log(`Planning voor ${projectType}${scenario ? ` (scenario ${scenario.name})` : ''}: ${planning.plannedIssues.length - unplanned.length} toewijzingen, ${unplanned.length} niet gepland`);
+
+    return planning;
+}
+
+// Aantal maanden afgesloten issues waarover de efficiëntie voor de prognose wordt berekend
+const DEFAULT_FORECAST_EFFICIENCY_MONTHS = 6;
+
+// Maximum aantal simulaties per aanvraag; de simulatie draait synchroon en houdt zolang andere requests op
+const MAX_SIMULATION_RUNS = 5000;
+
+interface ForecastInput {
+    projectName: string;
+    issues: JiraIssue[];
+    sprintCapacity: SprintCapacity[];
+    options: PlanningOptions;
+    calendar: SprintPeriod[];
+}
+
+// Open issues (uit het JQL filter) en sprint capaciteit per project, of alleen voor het opgegeven project
+async function getForecastInputs(projectName?: string): Promise<ForecastInput[]> {
+    const projectConfigs = (await getProjectConfigsFromSheet())
+        .filter(config => !projectName || config.projectName === projectName);
+    if (projectName && projectConfigs.length === 0) {
+        throw new Error(`Project configuratie niet gevonden voor: ${projectName}`);
+    }
+
+    const employees = parseEmployees(await getGoogleSheetsData());
+    const sheetCapacities = await getSprintCapacityFromSheet();
+    const leave = await getLeaveCalendar();
+
+    const inputs: ForecastInput[] = [];
+    for (const projectConfig of projectConfigs) {
+        const sprints = await getProjectSprints(projectConfig.projectCodes);
+        const calendar = buildSprintCalendar(sprints);
+        const issues = convertIssuesToJiraIssues(await getIssues(projectConfig.jqlFilter));
+        inputs.push({
+            projectName: projectConfig.projectName,
+            issues,
+            sprintCapacity: buildSprintCapacity(projectConfig.projectName, employees, sheetCapacities, leave, calendar),
+            options: {
+                projectCodes: projectConfig.projectCodes,
+                strictPredecessors: process.env.PLANNING_STRICT_PREDECESSORS === 'true',
+                issueSprints: getIssueSprintIds(issues, sprints)
+            },
+            calendar
+        });
+    }
+    return inputs;
+}
+
+// Periode van de afgesloten issues waaruit de prognose de historische efficiëntie haalt
+function getForecastHistoryPeriod(): { startDate: Date; endDate: Date } {
+    const months = Number(process.env.FORECAST_EFFICIENCY_MONTHS) || DEFAULT_FORECAST_EFFICIENCY_MONTHS;
+    const endDate = new Date();
+    return { startDate: subMonths(endDate, months), endDate };
+}
+
+// Prognose van het resterende werk per project (of alleen het opgegeven project), met de efficiëntie
+// over de afgesloten issues van de afgelopen maanden als correctie op de resterende schattingen
+async function buildForecasts(projectName?: string): Promise<ProjectForecast[]> {
+    const inputs = await getForecastInputs(projectName);
+    const { startDate, endDate } = getForecastHistoryPeriod();
+    const efficiency = await calculateEfficiency([], startDate, endDate);
+
+    return inputs.map(input => buildProjectForecast(input.projectName, input.issues, input.sprintCapacity, efficiency.normal, input.options, input.calendar));
+}
+
+// Monte Carlo prognose voor een project, met de verhoudingen gelogd / geschat van de afgesloten issues
+// van de afgelopen maanden
+async function buildSimulation(req: Request): Promise<ProjectSimulation | { error: string; status: number }> {
+    const projectName = req.query.project as string;
+    if (!projectName) {
+        return { error: 'Project is verplicht', status: 400 };
+    }
+
+    const runs = req.query.runs !== undefined
+        ? Number(req.query.runs)
+        : Math.min(MAX_SIMULATION_RUNS, Number(process.env.MONTE_CARLO_RUNS) || DEFAULT_SIMULATION_RUNS);
+    if (!Number.isInteger(runs) || runs < 1 || runs > MAX_SIMULATION_RUNS) {
+        return { error: `Ongeldig aantal simulaties: ${req.query.runs} (1 t/m ${MAX_SIMULATION_RUNS})`, status: 400 };
+    }
+
+    if (!(await getProjectConfigsFromSheet()).some(config => config.projectName === projectName)) {
+        return { error: 'Project configuratie niet gevonden', status: 404 };
+    }
+
+    const [input] = await getForecastInputs(projectName);
+    const { startDate, endDate } = getForecastHistoryPeriod();
+    const ratios = getHistoricalRatios(await getClosedIssuesForPeriod(startDate, endDate), input.options.projectCodes);
+    logger.log(`Simulatie voor ${projectName} op basis van ${ratios.length} afgesloten issues`);
+    if (ratios.length === 0) {
+        return { error: 'Geen afgesloten issues met schatting en gelogde uren om de simulatie op te baseren', status: 400 };
+    }
+
+    return simulateProjectForecast(input.projectName, input.issues, input.sprintCapacity, ratios, { runs, planning: input.options, calendar: input.calendar });
+}
+
+function formatForecastFinish(estimate: SprintFinish, sprintNames: Map<string, string>): string {
+    if (!estimate.finishSprint) {
+        return '-';
+    }
+    if (estimate.finishSprint === UNPLANNED_SPRINT) {
+        return `<span class="text-danger">${UNPLANNED_SPRINT}</span>`;
+    }
+    const sprintName = sprintNames.get(estimate.finishSprint) || estimate.finishSprint;
+    return estimate.finishDate ? `${sprintName} (${estimate.finishDate})` : sprintName;
+}
+
+function generateForecastTable(forecast: ProjectForecast, sprintNames: Map<string, string>): string {
+    const row = (group: ForecastGroup, isTotal = false) => `
+        <tr${isTotal ? ' class="fw-bold"' : ''}>
+            <td>${group.name}${group.summary ? ` - ${group.summary}` : ''}</td>
+            <td>${group.issues}</td>
+            <td>${group.baseline.remainingHours.toFixed(1)}</td>
+            <td>${formatForecastFinish(group.baseline, sprintNames)}</td>
+            <td>${group.corrected.remainingHours.toFixed(1)}</td>
+            <td>${formatForecastFinish(group.corrected, sprintNames)}</td>
+        </tr>
+    `;
+
+    return `
+        <div class="row mt-4">
+            <div class="col-md-12">
+                <h4>${forecast.name}</h4>
+                <table class="table table-striped table-bordered">
+                    <thead>
+                        <tr>
+                            <th>Epic</th>
+                            <th>Issues</th>
+                            <th>Resterende uren</th>
+                            <th>Verwacht klaar</th>
+                            <th>Gecorrigeerde uren</th>
+                            <th>Verwacht klaar (gecorrigeerd)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${forecast.epics.map(epic => row(epic)).join('')}
+                        ${row({ ...forecast, name: 'Totaal' }, true)}
+                    </tbody>
+                </table>
+                <p class="text-muted">
+                    Efficiëntie correctie (gelogd / geschat): team ${forecast.teamFactor.toFixed(2)}${forecast.factors.map(factor =>
+                        `, ${factor.employee} ${factor.factor.toFixed(2)}${factor.source === 'team' ? ' (team)' : ''}`
+                    ).join('')}
+                </p>
+            </div>
+        </div>
+    `;
+}
+
+// Staafgrafiek als SVG met per sprint het percentage simulaties dat in die sprint klaar is, met de
+// P50, P85 en P95 per project en epic in een tabel eronder
+function generateSimulationChart(simulation: ProjectSimulation, sprintNames: Map<string, string>): string {
+    const width = 800;
+    const height = 200;
+    const padding = 30;
+    const barWidth = (width - 2 * padding) / Math.max(1, simulation.distribution.length);
+    const maxProbability = Math.max(1, ...simulation.distribution.map(bar => bar.probability));
+    const barHeight = (probability: number) => probability / maxProbability * (height - 2 * padding);
+
+    return `
+        <h4>Simulatie (${simulation.runs} keer, ${simulation.samples} afgesloten issues)</h4>
+        <svg viewBox="0 0 ${width} ${height}" style="width: 100%; max-width: ${width}px;">
+            ${simulation.distribution.map((bar, index) => {
+                const x = padding + index * barWidth;
+                const y = height - padding - barHeight(bar.probability);
+                const color = bar.sprint === UNPLANNED_SPRINT ? '#dc3545' : '#0d6efd';
+                return `
+                    <rect x="${x + 4}" y="${y}" width="${barWidth - 8}" height="${barHeight(bar.probability)}" fill="${color}">
+                        <title>${bar.cumulative}% klaar in of voor deze sprint</title>
+                    </rect>
+                    <text x="${x + barWidth / 2}" y="${y - 4}" font-size="10" text-anchor="middle">${bar.probability}%</text>
+                    <text x="${x + barWidth / 2}" y="${height - 10}" font-size="10" text-anchor="middle">${sprintNames.get(bar.sprint) || bar.sprint}</text>
+                `;
+            }).join('')}
+        </svg>
+        <table class="table table-striped table-bordered">
+            <thead>
+                <tr>
+                    <th>Epic</th>
+                    <th>Issues</th>
+                    <th>P50</th>
+                    <th>P85</th>
+                    <th>P95</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${[...simulation.epics, { ...simulation, name: 'Totaal' }].map((group, index) => `
+                    <tr${index === simulation.epics.length ? ' class="fw-bold"' : ''}>
+                        <td>${group.name}${group.summary ? ` - ${group.summary}` : ''}</td>
+                        <td>${group.issues}</td>
+                        <td>${formatForecastFinish(group.p50, sprintNames)}</td>
+                        <td>${formatForecastFinish(group.p85, sprintNames)}</td>
+                        <td>${formatForecastFinish(group.p95, sprintNames)}</td>
+                    </tr>
+                `).join('')}
+            </tbody>
+        </table>
+    `;
+}
+
+// Monte Carlo prognose als JSON voor ?project=, met optioneel ?runs= (aantal simulaties)
+app.get('/api/planning/simulation', async (req: Request, res: Response) => {
+    try {
+        const simulation = await buildSimulation(req);
+        if ('error' in simulation) {
+            return res.status(simulation.status).json({ error: simulation.error });
+        }
+        res.json({ ...simulation, jiraFailures: res.locals.jiraFailures });
+    } catch (error) {
+        logger.error(`Error bij simuleren van de planning: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het simuleren van de planning' });
+    }
+});
+
+app.get('/api/planning/simulation/chart', async (req: Request, res: Response) => {
+    try {
+        const simulation = await buildSimulation(req);
+        if ('error' in simulation) {
+            return res.status(simulation.status).json({ error: simulation.error });
+        }
+        const sprintNames = await getSprintNames(await getGoogleSheetsData(), await getProjectSprintCalendar(req.query.project as string));
+        res.json({
+            html: generateJiraFailuresAlert(res.locals.jiraFailures) + generateSimulationChart(simulation, sprintNames),
+            jiraFailures: res.locals.jiraFailures.length
+        });
+    } catch (error) {
+        logger.error(`Error bij simuleren van de planning: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het simuleren van de planning' });
+    }
+});
+
+// Prognose van het resterende werk als JSON, voor alle projecten of met ?project= voor één project
+app.get('/api/forecast', async (req: Request, res: Response) => {
+    try {
+        const forecasts = await buildForecasts(req.query.project as string | undefined);
+        res.json({ forecasts, jiraFailures: res.locals.jiraFailures });
+    } catch (error) {
+        logger.error(`Error bij berekenen van prognose: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het berekenen van de prognose' });
+    }
+});
+
+app.get('/forecast', async (req: Request, res: Response) => {
+    try {
+        const forecasts = await buildForecasts(req.query.project as string | undefined);
+        const googleSheetsData = await getGoogleSheetsData();
+        const sprintNames = new Map<string, Map<string, string>>();
+        for (const forecast of forecasts) {
+            sprintNames.set(forecast.name, await getSprintNames(googleSheetsData, await getProjectSprintCalendar(forecast.name)));
+        }
+
+        res.send(`
+            <!DOCTYPE html>
+            <html lang="nl">
+            <head>
+                <meta charset="UTF-8">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>Prognose</title>
+                <link href="https://cdn.jsdelivr.net/npm/bootstrap@5.1.3/dist/css/bootstrap.min.css" rel="stylesheet">
+                <style>
+                    ${styles}
+                    .table { font-size: 0.9rem; }
+                    .table th { background-color: #f8f9fa; }
+                    .navbar { margin-bottom: 20px; }
+                </style>
+            </head>
+            <body>
+                <nav class="navbar">
+                    <a href="/" class="navbar-brand">Worklogs Dashboard</a>
+                    <ul class="navbar-nav">
+                        <li class="nav-item">
+                            <a href="/worklogs" class="nav-link">Worklogs & Efficiëntie</a>
+                        </li>
+                        <li class="nav-item">
+                            <a href="/forecast" class="nav-link active">Prognose</a>
+                        </li>
+                    </ul>
+                </nav>
+                <div class="container-fluid">
+                    ${generateJiraFailuresAlert(res.locals.jiraFailures)}
+                    ${generateSheetValidationAlert()}
+                    <h2>Prognose resterend werk</h2>
+                    ${forecasts.map(forecast => generateForecastTable(forecast, sprintNames.get(forecast.name)!)).join('')}
+                </div>
+                <script src="https://cdn.jsdelivr.net/npm/bootstrap@5.1.3/dist/js/bootstrap.bundle.min.js"></script>
+            </body>
+            </html>
+        `);
+    } catch (error) {
+        logger.error(`Error in /forecast route: ${error}`);
+        res.status(500).send('Er is een fout opgetreden bij het berekenen van de prognose');
+    }
+});
+
+// Signaleringen bij de planning (over- en onderbezetting, issues die niet gepland kunnen worden) als
+// JSON voor notificaties, voor alle projecten of met ?project= voor één project
+app.get('/api/planning/alerts', async (req: Request, res: Response) => {
+    try {
+        const projectName = req.query.project as string | undefined;
+        const projectConfigs = (await getProjectConfigsFromSheet())
+            .filter(config => !projectName || config.projectName === projectName);
+        if (projectName && projectConfigs.length === 0) {
+            return res.status(404).json({ error: 'Project configuratie niet gevonden' });
+        }
+
+        const employees = parseEmployees(await getGoogleSheetsData());
+        const projects: { project: string; alerts: AllocationAlert[] }[] = [];
+        for (const projectConfig of projectConfigs) {
+            const issues = await getIssuesWithoutWorklogs(projectConfig.jqlFilter);
+            const planning = await calculatePlanning(convertIssuesToJiraIssues(issues), projectConfig.projectName, employees, projectConfig.projectCodes);
+            projects.push({ project: projectConfig.projectName, alerts: buildAllocationAlerts(planning, issues, employees) });
+        }
+
+        res.json({ projects, jiraFailures: res.locals.jiraFailures });
+    } catch (error) {
+        logger.error(`Error bij ophalen van planning signaleringen: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het ophalen van de signaleringen' });
+    }
+});
+
+// Opgeslagen scenario's, eventueel alleen van ?project=
+app.get('/api/scenarios', (req: Request, res: Response) => {
+    try {
+        res.json(loadScenarios(req.query.project as string | undefined));
+    } catch (error) {
+        logger.error(`Error bij ophalen van scenario's: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het ophalen van de scenario\'s' });
+    }
+});
+
+// Sla een scenario op (JSON body); een scenario met dezelfde naam in hetzelfde project wordt vervangen
+app.post('/api/scenarios', (req: Request, res: Response) => {
+    let scenario: Scenario;
+    try {
+        scenario = parseScenario(req.body);
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+
+    try {
+        res.json(saveScenario(scenario));
+    } catch (error) {
+        logger.error(`Error bij opslaan van scenario: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het opslaan van het scenario' });
+    }
+});
+
+app.delete('/api/scenarios', (req: Request, res: Response) => {
+    try {
+        const project = req.query.project as string;
+        const name = req.query.name as string;
+        if (!project || !name) {
+            return res.status(400).json({ error: 'Project en naam zijn verplicht' });
+        }
+        if (!deleteScenario(project, name)) {
+            return res.status(404).json({ error: 'Scenario niet gevonden' });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        logger.error(`Error bij verwijderen van scenario: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het verwijderen van het scenario' });
+    }
+});
+
+// Verschil in sprintverdeling tussen de planning zonder en met ?scenario= voor ?project=
+app.get('/api/planning/scenario', async (req: Request, res: Response) => {
+    try {
+        const projectName = req.query.project as string;
+        const scenario = projectName ? getScenario(projectName, req.query.scenario as string) : undefined;
+        if (!scenario) {
+            return res.status(404).json({ error: 'Scenario niet gevonden' });
+        }
+
+        const projectConfig = (await getProjectConfigsFromSheet()).find(config => config.projectName === projectName);
+        if (!projectConfig) {
+            return res.status(404).json({ error: 'Project configuratie niet gevonden' });
+        }
+
+        const jiraIssues = convertIssuesToJiraIssues(await getIssuesWithoutWorklogs(projectConfig.jqlFilter));
+        const employees = parseEmployees(await getGoogleSheetsData());
+        const baseline = await calculatePlanning(jiraIssues, projectName, employees, projectConfig.projectCodes);
+        const scenarioPlanning = await calculatePlanning(jiraIssues, projectName, employees, projectConfig.projectCodes, scenario);
+
+        res.json({ scenario, diff: diffPlannings(baseline, scenarioPlanning), jiraFailures: res.locals.jiraFailures });
+    } catch (error) {
+        logger.error(`Error bij berekenen van scenario: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het berekenen van het scenario' });
+    }
+});
+
+// Synchroniseer de lokale worklog store direct met Jira
+app.post('/api/worklogs/sync', async (req: Request, res: Response) => {
+    try {
+        await syncWorklogStore();
+        res.json({ success: true });
+    } catch (error) {
+        logger.error(`Error bij synchroniseren van worklog store: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het synchroniseren van de worklog store' });
+    }
+});
+
+// Lees en valideer de periode uit de query parameters
+function parseReportPeriod(req: Request): { startDate: Date; endDate: Date } | { error: string } {
+    const { startDate, endDate } = req.query;
+
+    if (!startDate || !endDate) {
+        return { error: 'Start- en einddatum zijn verplicht' };
+    }
+
+    // Valideer en parseer de datums
+    const parsedStartDate = new Date(startDate.toString());
+    const parsedEndDate = new Date(endDate.toString());
+
+    // Valideer dat de datums geldig zijn
+    if (isNaN(parsedStartDate.getTime())) {
+        return { error: 'Ongeldige startdatum' };
+    }
+    if (isNaN(parsedEndDate.getTime())) {
+        return { error: 'Ongeldige einddatum' };
+    }
+    if (parsedStartDate > parsedEndDate) {
+        return { error: 'Startdatum moet voor einddatum liggen' };
+    }
+
+    return { startDate: parsedStartDate, endDate: parsedEndDate };
+}
+
+// Verzamel de uren per project, medewerker en kolom en de efficiëntie voor de periode, met de
+// onderliggende worklogs
+async function buildWorklogReport(
+    startDate: Date,
+    endDate: Date,
+    jiraFailures: JiraFailure[]
+): Promise<{ report: WorkLogsResponse; worklogs: ExportWorklog[] }> {
+    logger.log('Start ophalen worklog configuraties...');
+    // Haal worklog configuraties op
+    const worklogConfigs = await getWorklogConfigsFromSheet();
+    logger.log(`Aantal worklog configuraties: ${worklogConfigs.length}`);
+
+    // Haal project configuraties op
+    const projectConfigs = await getProjectConfigsFromSheet();
+    logger.log(`Aantal project configuraties: ${projectConfigs.length}`);
+
+    // Groepeer worklog configuraties per worklogName
+    const worklogGroups = new Map<string, WorklogConfig[]>();
+    worklogConfigs.forEach(config => {
+        if (!worklogGroups.has(config.worklogName)) {
+            worklogGroups.set(config.worklogName, []);
+        }
+        worklogGroups.get(config.worklogName)!.push({ ...config, projectName: config.projectName || '' });
+    });
+    logger.log(`Aantal worklog groepen: ${worklogGroups.size}`);
+
+    const employees = parseEmployees(await getGoogleSheetsData());
+    const leave = await getLeaveCalendar();
+    const projects: ProjectWorkLogs[] = [];
+    const worklogs: ExportWorklog[] = [];
+    const reportedEmployees = new Set<string>();
+
+    // Verwerk de worklog groepen
+    for (const [worklogName, configs] of worklogGroups) {
+        logger.log(`Verwerken worklog groep: ${worklogName}`);
+        // Zoek alle projecten met deze worklogName
+        const matchingProjects = projectConfigs.filter(pc => pc.worklogName === worklogName);
+
+        if (matchingProjects.length === 0) {
+            logger.error(`Geen project configuraties gevonden voor worklogName: ${worklogName}`);
+            continue;
+        }
+
+        // Verwerk elk project apart
+        for (const projectConfig of matchingProjects) {
+            logger.log(`Verwerken project: ${projectConfig.projectName}`);
+
+            // Haal actieve medewerkers op uit de Google Sheet
+            const activeEmployees = getActiveEmployees(employees, projectConfig.projectName);
+            activeEmployees.forEach(name => reportedEmployees.add(name));
+
+            const projectHours = await calculateProjectWorklogHours(
+                projectConfig,
+                configs,
+                activeEmployees,
+                startDate,
+                endDate
+            );
+
+            projects.push({
+                projectName: projectConfig.projectName,
+                worklogName,
+                ...toWorkLogsTable(getProjectCategories(configs, projectHours.worklogs), projectHours.hoursByEmployee)
+            });
+            worklogs.push(...projectHours.worklogs.map(log => ({ ...log, projectName: projectConfig.projectName })));
+        }
+    }
+
+    // Verzamel alle issues per project voor efficiëntie berekening
+    const allIssues: JiraIssue[] = [];
+    for (const projectConfig of projectConfigs) {
+        // Bouw de JQL query met de juiste filters
+        const projectFilter = `project in (${projectConfig.projectCodes.map(code => `"${code}"`).join(', ')})`;
+        const jql = `${projectFilter} AND resolutiondate >= "${startDate.toISOString().split('T')[0]}" AND resolutiondate <= "${endDate.toISOString().split('T')[0]}" AND status = Closed ORDER BY resolutiondate DESC`;
+
+        logger.log(`\n=== JQL Query voor efficiëntie berekening ===`);
+        logger.log(`Project: ${projectConfig.projectName}`);
+        logger.log(`JQL: ${jql}`);
+
+        const issues = await getIssues(jql);
+        const jiraIssues = convertIssuesToJiraIssues(issues);
+        allIssues.push(...jiraIssues);
+    }
+
+    const efficiencyData = await calculateEfficiency(allIssues, startDate, endDate);
+    const totals = mergeWorkLogsTables(projects);
+
     return {
-        sprintCapacity: [],
-        employeeSprintUsedHours: [],
-        plannedIssues: []
+        report: {
+            startDate: startDate.toISOString().split('T')[0],
+            endDate: endDate.toISOString().split('T')[0],
+            projects,
+            totals,
+            availability: buildAvailability(
+                employees.filter(employee => reportedEmployees.has(employee.name)),
+                totals,
+                startDate,
+                endDate,
+                leave
+            ),
+            efficiencyTable: efficiencyData,
+            jiraFailures
+        },
+        worklogs
     };
 }
 
 app.get('/api/worklogs', async (req: Request, res: Response) => {
     try {
-        const { startDate, endDate } = req.query;
-        
-        if (!startDate || !endDate) {
-            return res.status(400).json({ error: 'Start- en einddatum zijn verplicht' });
+        const period = parseReportPeriod(req);
+        if ('error' in period) {
+            return res.status(400).json({ error: period.error });
         }
 
-        // Valideer en parseer de datums
-        const parsedStartDate = new Date(startDate.toString());
-        const parsedEndDate = new Date(endDate.toString());
+        const { report, worklogs } = await buildWorklogReport(period.startDate, period.endDate, res.locals.jiraFailures);
+
+        // Genereer HTML voor de worklogs tabellen
+        let worklogsHtml = '';
+        report.projects.forEach(project => {
+            worklogsHtml += generateProjectWorklogsTable(project);
+        });
+        worklogsHtml += generateTotalWorklogsTableFromData(report.totals);
+        worklogsHtml += generateWorklogRulesTable(worklogs);
+        worklogsHtml += generateAvailabilityTable(report.availability);
+        worklogsHtml += generateEfficiencyTable(report.efficiencyTable);
+
+        res.json({
+            html: generateJiraFailuresAlert(report.jiraFailures) + generateSheetValidationAlert() + worklogsHtml,
+            jiraFailures: report.jiraFailures.length
+        });
+    } catch (error) {
+        logger.error(`Error bij ophalen van worklogs: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het ophalen van de worklogs' });
+    }
+});
 
-        // Valideer dat de datums geldig zijn
-        if (isNaN(parsedStartDate.getTime())) {
-            return res.status(400).json({ error: 'Ongeldige startdatum' });
+// Hetzelfde worklog overzicht als gestructureerde JSON, voor scripts en andere clients
+app.get('/api/worklogs/report', async (req: Request, res: Response) => {
+    try {
+        const period = parseReportPeriod(req);
+        if ('error' in period) {
+            return res.status(400).json({ error: period.error });
         }
-        if (isNaN(parsedEndDate.getTime())) {
-            return res.status(400).json({ error: 'Ongeldige einddatum' });
+
+        const { report } = await buildWorklogReport(period.startDate, period.endDate, res.locals.jiraFailures);
+        res.json(report);
+    } catch (error) {
+        logger.error(`Error bij ophalen van worklog rapport: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het ophalen van het worklog rapport' });
+    }
+});
+
+// Urenregistratie van de actieve medewerkers (gekoppeld aan een project uit de Projects sheet)
+async function buildTimesheet(startDate: Date, endDate: Date): Promise<TimesheetReport> {
+    const projectConfigs = await getProjectConfigsFromSheet();
+    const projectNames = new Set(projectConfigs.map(config => config.projectName));
+    const employees = parseEmployees(await getGoogleSheetsData())
+        .filter(employee => projectNames.has(employee.project));
+
+    const [worklogs, leave] = await Promise.all([
+        getAllWorklogsForPeriod(startDate, endDate),
+        getLeaveCalendar()
+    ]);
+
+    return buildTimesheetReport(employees, worklogs, startDate, endDate, leave);
+}
+
+app.get('/api/worklogs/timesheet', async (req: Request, res: Response) => {
+    try {
+        const period = parseReportPeriod(req);
+        if ('error' in period) {
+            return res.status(400).json({ error: period.error });
         }
-        if (parsedStartDate > parsedEndDate) {
-            return res.status(400).json({ error: 'Startdatum moet voor einddatum liggen' });
+
+        const report = await buildTimesheet(period.startDate, period.endDate);
+        res.json({ ...report, jiraFailures: res.locals.jiraFailures });
+    } catch (error) {
+        logger.error(`Error bij controleren van urenregistratie: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het controleren van de urenregistratie' });
+    }
+});
+
+app.get('/api/worklogs/timesheet/heatmap', async (req: Request, res: Response) => {
+    try {
+        const period = parseReportPeriod(req);
+        if ('error' in period) {
+            return res.status(400).json({ error: period.error });
         }
 
-        logger.log('Start ophalen worklog configuraties...');
-        // Haal worklog configuraties op
-        const worklogConfigs = await getWorklogConfigsFromSheet();
-        logger.log(`Aantal worklog configuraties: ${worklogConfigs.length}`);
-        
-        // Haal project configuraties op
-        const projectConfigs = await getProjectConfigsFromSheet();
-        logger.log(`Aantal project configuraties: ${projectConfigs.length}`);
-        
-        // Genereer HTML voor worklogs tabel
-        let worklogsHtml = '';
-        
-        // Groepeer worklog configuraties per worklogName
-        const worklogGroups = new Map<string, WorklogConfig[]>();
-        worklogConfigs.forEach(config => {
-            if (!worklogGroups.has(config.worklogName)) {
-                worklogGroups.set(config.worklogName, []);
-            }
-            worklogGroups.get(config.worklogName)!.push({ ...config, projectName: config.projectName || '' });
+        const report = await buildTimesheet(period.startDate, period.endDate);
+        res.json({
+            html: generateJiraFailuresAlert(res.locals.jiraFailures) + generateSheetValidationAlert() + generateTimesheetHeatmap(report),
+            jiraFailures: res.locals.jiraFailures.length
         });
-        logger.log(`Aantal worklog groepen: ${worklogGroups.size}`);
+    } catch (error) {
+        logger.error(`Error bij controleren van urenregistratie: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het controleren van de urenregistratie' });
+    }
+});
 
-        // Maak een map om de totale uren per medewerker en categorie bij te houden
-        const totalHoursByEmployeeAndCategory = new Map<string, Map<string, number>>();
-        const allProjectWorklogs: WorkLog[] = [];
-        
-        // Definieer periodeFilter één keer
-        const periodeFilter = `worklogDate >= "${parsedStartDate.toISOString().split('T')[0]}" AND worklogDate <= "${parsedEndDate.toISOString().split('T')[0]}"`;
-        
-        // Verwerk de worklog groepen
-        for await (const [worklogName, configs] of worklogGroups) {
-            logger.log(`Verwerken worklog groep: ${worklogName}`);
-            // Zoek alle projecten met deze worklogName
-            const matchingProjects = projectConfigs.filter(pc => pc.worklogName === worklogName);
-            
-            if (matchingProjects.length === 0) {
-                logger.error(`Geen project configuraties gevonden voor worklogName: ${worklogName}`);
-                continue;
-            }
+// Doorlooptijden van de issues die in de periode zijn opgelost, voor alle projecten uit de Projects sheet
+async function buildFlow(startDate: Date, endDate: Date): Promise<FlowReport> {
+    const projectConfigs = await getProjectConfigsFromSheet();
+    const projectCodes = Array.from(new Set(projectConfigs.flatMap(config => config.projectCodes)));
+    if (projectCodes.length === 0) {
+        return buildFlowReport([], startDate, endDate);
+    }
 
-            // Verwerk elk project apart
-            for await (const projectConfig of matchingProjects) {
-                logger.log(`Verwerken project: ${projectConfig.projectName}`);
+    const jql = `project in (${projectCodes.map(code => `"${code}"`).join(', ')}) AND resolutiondate >= "${format(startDate, 'yyyy-MM-dd')}" AND resolutiondate <= "${format(endDate, 'yyyy-MM-dd')} 23:59" ORDER BY resolutiondate ASC`;
+    logger.log(`\n=== JQL Query voor doorlooptijden ===`);
+    logger.log(`JQL: ${jql}`);
 
-                // Maak een map om de totale uren per medewerker en categorie bij te houden
-                const projectHoursByEmployeeAndCategory = new Map<string, Map<string, number>>();
+    return buildFlowReport(await getIssuesWithChangelog(jql), startDate, endDate);
+}
 
-                // Verwerk de worklogs per kolom
-                for (const config of configs) {
-                    logger.log(`\nVerwerken van worklogs voor kolom: ${config.columnName}`);
-                    
-                    let columnWorklogs: WorkLog[] = [];
-                    
-                    // Haal actieve medewerkers op uit de Google Sheet
-                    const googleSheetsData = await getGoogleSheetsData();
-                    
-                    // Gebruik de juiste kolom indices
-                    const nameIndex = 2; // Kolom C (Naam)
-                    const projectIndex = 7; // Kolom H (Project)
-                    const effectiveHoursIndex = 6; // Kolom G (Effectieve uren)
-                    
-                    const activeEmployees = googleSheetsData
-                        .slice(1) // Skip header row
-                        .filter(row => {
-                            const sheetProjectName = (row[projectIndex] || '').toString().trim();
-                            const configProjectName = projectConfig.projectName.trim();
-                            const matches = sheetProjectName === configProjectName;
-                            return matches;
-                        })
-                        .map(row => row[nameIndex]); // Haal medewerkersnamen op
-                    
-                     
-                    // Bouw de JQL query
-                    let jql = '';
-                    
-                    // Voeg issue filter toe voor kolommen met issues
-                    if (config.issues && config.issues.length > 0) {
-                        let issueFilter = config.issues[0];
-                        // Vervang {projectFilter} en {periodeFilter} in het issuefilter
-                        const projectFilter = `project in (${projectConfig.projectCodes.map(code => `"${code}"`).join(', ')})`;
-                        issueFilter = issueFilter.replace(/{projectFilter}/g, projectFilter);
-                        issueFilter = issueFilter.replace(/{periodeFilter}/g, periodeFilter);
-                        jql = issueFilter;
-                    }
-                    // Voeg worklogJql toe als filter voor kolommen zonder issuefilter
-                    else if (projectConfig.worklogJql) {
-                        let worklogJql = projectConfig.worklogJql;
-                        // Vervang {projectFilter} en {periodeFilter} in het worklogJql
-                        const projectFilter = `project in (${projectConfig.projectCodes.map(code => `"${code}"`).join(', ')})`;
-                        worklogJql = worklogJql.replace(/{projectFilter}/g, projectFilter);
-                        worklogJql = worklogJql.replace(/{periodeFilter}/g, periodeFilter);
-                        jql = worklogJql;
-                    }
-                    
-                    logger.log(`\n=== JQL Query voor kolom ===`);
-                    logger.log(`Project: ${projectConfig.projectName}`);
-                    logger.log(`Kolom: ${config.columnName}`);
-                    logger.log(`JQL: ${jql}`);
-                    
-                    // Haal worklogs op voor deze kolom
-                    columnWorklogs = await getWorkLogsForProject(
-                        projectConfig.projectCodes,
-                        parsedStartDate,
-                        parsedEndDate,
-                        { ...projectConfig, jqlFilter: jql }
-                    );
-                    
-                    // Log worklogs per issue
-                    logger.log(`\nWorklogs voor kolom ${config.columnName}:`);
-                    const worklogsByIssue = new Map<string, { author: string; hours: number; started: string }[]>();
-                    columnWorklogs.forEach(log => {
-                        const authorName = typeof log.author === 'string' ? log.author : log.author.displayName;
-                        const hours = log.timeSpentSeconds / 3600;
-                        
-                        // Controleer of de medewerker actief is voor dit project
-                        if (!activeEmployees.includes(authorName)) {
-                            logger.log(`- ${authorName} is geen actieve medewerker voor ${projectConfig.projectName}, worklog wordt genegeerd`);
-                            return;
-                        }
-                        
-                        if (!worklogsByIssue.has(log.issueKey)) {
-                            worklogsByIssue.set(log.issueKey, []);
-                        }
-                        worklogsByIssue.get(log.issueKey)!.push({ author: authorName, hours, started: log.started });
-                    });
-                    
-                    worklogsByIssue.forEach((logs, issueKey) => {
-                        logger.log(`\nIssue: ${issueKey}`);
-                        logs.forEach(log => {
-                            const logDate = new Date(log.started).toISOString().split('T')[0];
-                            logger.log(`- ${log.author}: ${log.hours.toFixed(1)} uur (${logDate})`);
-                        });
-                    });
-                    
-                    // Voeg worklogs toe aan alle project worklogs
-                    allProjectWorklogs.push(...columnWorklogs);
-                    
-                    logger.log(`Aantal worklogs voor ${config.columnName}: ${columnWorklogs.length}`);
-                    
-                    // Filter worklogs op actieve medewerkers
-                    const filteredWorklogs = columnWorklogs.filter(log => {
-                        const authorName = typeof log.author === 'string' ? log.author : log.author.displayName;
-                        return activeEmployees.includes(authorName);
-                    });
-                    
-                    logger.log(`Aantal gefilterde worklogs voor ${config.columnName}: ${filteredWorklogs.length}`);
-                    
-                    // Verwerk worklogs per medewerker
-                    filteredWorklogs.forEach(log => {
-                        const authorName = typeof log.author === 'string' ? log.author : log.author.displayName;
-                        
-                        if (!projectHoursByEmployeeAndCategory.has(authorName)) {
-                            projectHoursByEmployeeAndCategory.set(authorName, new Map<string, number>());
-                        }
-                        
-                        const employeeCategories = projectHoursByEmployeeAndCategory.get(authorName)!;
-                        const currentHours = employeeCategories.get(config.columnName) || 0;
-                        employeeCategories.set(config.columnName, currentHours + (log.timeSpentSeconds / 3600));
-                    });
-                }
-                
-                // Eerst alle kolommen met issuefilter verwerken
-                const kolommenMetIssuefilter = configs.filter(config => config.issues && config.issues.length > 0);
-                logger.log(`\nKolommen met issuefilter: ${kolommenMetIssuefilter.map(c => c.columnName).join(', ')}`);
-                
-                // Bereken waarden voor kolommen zonder issuefilter
-                projectHoursByEmployeeAndCategory.forEach((employeeCategories, employee) => {
-                    // Haal alle worklogs op voor deze medewerker (zonder issuefilter)
-                    const allWorklogs = allProjectWorklogs.filter(log => {
-                        const authorName = typeof log.author === 'string' ? log.author : log.author.displayName;
-                        return authorName === employee;
-                    });
-                    
-                    // Bereken totaal aantal uren (alle worklogs)
-                    const alleWorklogs = allWorklogs.reduce((sum, log) => sum + (log.timeSpentSeconds / 3600), 0);
-                    
-                    // Update totaal
-                    employeeCategories.set('Totaal', alleWorklogs);
-                    
-                    // Log de waarden voor kolommen met issuefilter
-                    logger.log(`\nWaarden voor ${employee}:`);
-                    kolommenMetIssuefilter.forEach(config => {
-                        const waarde = employeeCategories.get(config.columnName) || 0;
-                        logger.log(`- ${config.columnName}: ${waarde}`);
-                    });
-                    
-                    // Bereken waarden voor kolommen zonder issuefilter
-                    configs.forEach(config => {
-                        if (!config.issues || config.issues.length === 0) {
-                            // Bereken totaal van alle kolommen met issuefilter
-                            const totaalIssuefilterKolommen = kolommenMetIssuefilter.reduce((sum, issueConfig) => {
-                                return sum + (employeeCategories.get(issueConfig.columnName) || 0);
-                            }, 0);
-                            
-                            // Trek de waarden van kolommen met issuefilter af van alle worklogs
-                            const waarde = alleWorklogs - totaalIssuefilterKolommen;
-                            
-                            // Zet de berekende waarde in de kolom zonder issuefilter
-                            employeeCategories.set(config.columnName, waarde);
-                            
-                            // Log de berekening
-                            logger.log(`\nBerekening voor ${employee} - ${config.columnName}:`);
-                            logger.log(`- Alle worklogs: ${alleWorklogs}`);
-                            logger.log(`- Totaal kolommen met issuefilter: ${totaalIssuefilterKolommen}`);
-                            logger.log(`- Berekende waarde: ${waarde}`);
-                        }
-                    });
-                });
+app.get('/api/worklogs/flow', async (req: Request, res: Response) => {
+    try {
+        const period = parseReportPeriod(req);
+        if ('error' in period) {
+            return res.status(400).json({ error: period.error });
+        }
 
-                // Genereer de worklogs tabel voor dit project
-                let worklogsTable = `
-                    <div class="project-section">
-                        <h3>${projectConfig.projectName}</h3>
-                        <table class="table table-striped">
-                            <thead>
-                                <tr>
-                                    <th>Medewerker</th>
-                                    ${configs.map(config => `<th>${config.columnName}</th>`).join('')}
-                                    <th>Totaal</th>
-                                </tr>
-                            </thead>
-                            <tbody>
-                        `;
+        const report = await buildFlow(period.startDate, period.endDate);
+        res.json({ ...report, jiraFailures: res.locals.jiraFailures });
+    } catch (error) {
+        logger.error(`Error bij berekenen van doorlooptijden: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het berekenen van de doorlooptijden' });
+    }
+});
 
-                        // Maak een map om de totalen per kolom bij te houden
-                        const columnTotals = new Map<string, number>();
-                        configs.forEach(config => {
-                            columnTotals.set(config.columnName, 0);
-                        });
-                        let grandTotal = 0;
+app.get('/api/worklogs/flow/table', async (req: Request, res: Response) => {
+    try {
+        const period = parseReportPeriod(req);
+        if ('error' in period) {
+            return res.status(400).json({ error: period.error });
+        }
 
-                        // Toon resultaten per medewerker
-                        projectHoursByEmployeeAndCategory.forEach((employeeCategories, employee) => {
-                            worklogsTable += `<tr><td>${employee}</td>`;
-                            let employeeTotal = 0;
+        const report = await buildFlow(period.startDate, period.endDate);
+        res.json({
+            html: generateJiraFailuresAlert(res.locals.jiraFailures) + generateSheetValidationAlert() + generateFlowTables(report),
+            jiraFailures: res.locals.jiraFailures.length
+        });
+    } catch (error) {
+        logger.error(`Error bij berekenen van doorlooptijden: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het berekenen van de doorlooptijden' });
+    }
+});
 
-                            configs.forEach(config => {
-                                let hours = employeeCategories.get(config.columnName) || 0;
-                                
-                                // Voor de 'Ontwikkeling' kolom gebruiken we de berekende waarde
-                                if (config.columnName === 'Ontwikkeling') {
-                                    hours = employeeCategories.get(config.columnName) || 0;
-                                }
-                                
-                                employeeTotal += hours;
-                                worklogsTable += `<td>${hours.toFixed(1)}</td>`;
-                                
-                                // Update totaal voor deze kolom
-                                columnTotals.set(config.columnName, (columnTotals.get(config.columnName) || 0) + hours);
-                                
-                                // Voeg de uren toe aan de totale uren per medewerker en categorie
-                                if (!totalHoursByEmployeeAndCategory.has(employee)) {
-                                    totalHoursByEmployeeAndCategory.set(employee, new Map<string, number>());
-                                }
-                                const totalEmployeeCategories = totalHoursByEmployeeAndCategory.get(employee)!;
-                                const currentTotalHours = totalEmployeeCategories.get(config.columnName) || 0;
-                                totalEmployeeCategories.set(config.columnName, currentTotalHours + hours);
-                            });
-
-                            grandTotal += employeeTotal;
-                            worklogsTable += `<td>${employeeTotal.toFixed(1)}</td></tr>`;
-                        });
-
-                        // Voeg totaalregel toe
-                        worklogsTable += `
-                            <tr class="table-dark">
-                                <td><strong>Totaal</strong></td>
-                                ${configs.map(config => 
-                                    `<td><strong>${(columnTotals.get(config.columnName) || 0).toFixed(1)}</strong></td>`
-                                ).join('')}
-                                <td><strong>${grandTotal.toFixed(1)}</strong></td>
-                            </tr>
-                        `;
+// Projectnaam per projectcode uit de Projects sheet
+async function getProjectNames(): Promise<Map<string, string>> {
+    const projectNames = new Map<string, string>();
+    (await getProjectConfigsFromSheet()).forEach(config => {
+        config.projectCodes.forEach(code => projectNames.set(code.trim(), config.projectName));
+    });
+    return projectNames;
+}
 
-                        worklogsTable += `
-                            </tbody>
-                        </table>
-                    </div>
-                `;
+// Efficiëntie trend over de periode, per week, maand of sprint
+async function buildEfficiencyTrendReport(req: Request): Promise<EfficiencyTrend | { error: string }> {
+    const period = parseReportPeriod(req);
+    if ('error' in period) {
+        return period;
+    }
 
-                worklogsHtml += worklogsTable;
-            }
+    const granularity = (req.query.granularity || 'month').toString() as TrendGranularity;
+    if (!TREND_GRANULARITIES.includes(granularity)) {
+        return { error: `Ongeldige indeling: ${granularity} (week, month of sprint)` };
+    }
+    // Met een project alleen de issues van dat project; sprints komen dan uit de Jira sprintkalender van
+    // het project, anders (en voor alle projecten samen) uit SPRINT_START_DATE
+    const projectName = req.query.project ? req.query.project.toString() : undefined;
+    const projectConfig = projectName ? (await getProjectConfigsFromSheet()).find(config => config.projectName === projectName) : undefined;
+    if (projectName && !projectConfig) {
+        return { error: `Project configuratie niet gevonden voor: ${projectName}` };
+    }
+    const calendar = granularity === 'sprint' && projectConfig ? await getSprintCalendarForProjects(projectConfig.projectCodes) : [];
+    if (granularity === 'sprint' && calendar.length === 0 && !process.env.SPRINT_START_DATE) {
+        return { error: 'Kies een project met sprints in Jira, of stel SPRINT_START_DATE in; de sprintdatums zijn onbekend' };
+    }
+
+    const projectCodes = new Set((projectConfig?.projectCodes || []).map(code => code.trim()));
+    const closedIssues = (await getClosedIssuesForPeriod(period.startDate, period.endDate))
+        .filter(issue => !projectConfig || projectCodes.has(issue.fields?.project?.key || issue.key.split('-')[0]));
+    return buildEfficiencyTrend(closedIssues, period.startDate, period.endDate, granularity, await getProjectNames(), getAttributionMode(), calendar);
+}
+
+app.get('/api/worklogs/efficiency-trend', async (req: Request, res: Response) => {
+    try {
+        const trend = await buildEfficiencyTrendReport(req);
+        if ('error' in trend) {
+            return res.status(400).json({ error: trend.error });
         }
 
-        // Genereer de totale worklogs tabel
-        const totalWorklogsTable = generateTotalWorklogsTableFromData(totalHoursByEmployeeAndCategory);
-        worklogsHtml += totalWorklogsTable;
+        res.json({
+            ...trend,
+            chart: {
+                employees: toTrendChartData(trend, trend.employees),
+                projects: toTrendChartData(trend, trend.projects)
+            },
+            jiraFailures: res.locals.jiraFailures
+        });
+    } catch (error) {
+        logger.error(`Error bij berekenen van efficiëntie trend: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het berekenen van de efficiëntie trend' });
+    }
+});
 
-        // Verzamel alle issues per project voor efficiëntie berekening
-        const allIssues: JiraIssue[] = [];
-        for (const projectConfig of projectConfigs) {
-            // Bouw de JQL query met de juiste filters
-            const projectFilter = `project in (${projectConfig.projectCodes.map(code => `"${code}"`).join(', ')})`;
-            const jql = `${projectFilter} AND resolutiondate >= "${parsedStartDate.toISOString().split('T')[0]}" AND resolutiondate <= "${parsedEndDate.toISOString().split('T')[0]}" AND status = Closed ORDER BY resolutiondate DESC`;
-            
-            logger.log(`\n=== JQL Query voor efficiëntie berekening ===`);
-            logger.log(`Project: ${projectConfig.projectName}`);
-            logger.log(`JQL: ${jql}`);
-            
-            const issues = await getIssues(jql);
-            const jiraIssues = convertIssuesToJiraIssues(issues);
-            allIssues.push(...jiraIssues);
+app.get('/api/worklogs/efficiency-trend/table', async (req: Request, res: Response) => {
+    try {
+        const trend = await buildEfficiencyTrendReport(req);
+        if ('error' in trend) {
+            return res.status(400).json({ error: trend.error });
         }
 
-        // Bereken en voeg de efficiëntie tabel toe
-        const efficiencyData = await calculateEfficiency(allIssues, parsedStartDate, parsedEndDate);
-        const efficiencyTable = generateEfficiencyTable(efficiencyData);
-        worklogsHtml += efficiencyTable;
+        res.json({
+            html: generateJiraFailuresAlert(res.locals.jiraFailures) + generateSheetValidationAlert() + generateEfficiencyTrend(trend),
+            jiraFailures: res.locals.jiraFailures.length
+        });
+    } catch (error) {
+        logger.error(`Error bij berekenen van efficiëntie trend: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het berekenen van de efficiëntie trend' });
+    }
+});
+
+async function buildEstimateAccuracy(startDate: Date, endDate: Date): Promise<EstimateAccuracyReport> {
+    const closedIssues = await getClosedIssuesForPeriod(startDate, endDate);
+    return buildEstimateAccuracyReport(closedIssues, format(startDate, 'yyyy-MM-dd'), format(endDate, 'yyyy-MM-dd'), await getProjectNames());
+}
 
-        res.json({ html: worklogsHtml });
+app.get('/api/worklogs/estimate-accuracy', async (req: Request, res: Response) => {
+    try {
+        const period = parseReportPeriod(req);
+        if ('error' in period) {
+            return res.status(400).json({ error: period.error });
+        }
+
+        const report = await buildEstimateAccuracy(period.startDate, period.endDate);
+        res.json({ ...report, jiraFailures: res.locals.jiraFailures });
     } catch (error) {
-        logger.error(`Error bij ophalen van worklogs: ${error}`);
-        res.status(500).json({ error: 'Er is een fout opgetreden bij het ophalen van de worklogs' });
+        logger.error(`Error bij vergelijken van schattingen: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het vergelijken van de schattingen' });
+    }
+});
+
+app.get('/api/worklogs/estimate-accuracy/table', async (req: Request, res: Response) => {
+    try {
+        const period = parseReportPeriod(req);
+        if ('error' in period) {
+            return res.status(400).json({ error: period.error });
+        }
+
+        const report = await buildEstimateAccuracy(period.startDate, period.endDate);
+        res.json({
+            html: generateJiraFailuresAlert(res.locals.jiraFailures) + generateSheetValidationAlert() + generateEstimateAccuracy(report),
+            jiraFailures: res.locals.jiraFailures.length
+        });
+    } catch (error) {
+        logger.error(`Error bij vergelijken van schattingen: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het vergelijken van de schattingen' });
+    }
+});
+
+// Download van het worklog overzicht: alle tabellen als Excel werkmap, of één tabel als CSV
+app.get('/api/worklogs/export', async (req: Request, res: Response) => {
+    try {
+        const period = parseReportPeriod(req);
+        if ('error' in period) {
+            return res.status(400).json({ error: period.error });
+        }
+
+        const format = (req.query.format || 'xlsx').toString() as ExportFormat;
+        if (format !== 'csv' && format !== 'xlsx') {
+            return res.status(400).json({ error: 'Ongeldig formaat, gebruik csv of xlsx' });
+        }
+
+        const { report, worklogs } = await buildWorklogReport(period.startDate, period.endDate, res.locals.jiraFailures);
+        const tables = buildExportTables(report, worklogs);
+        const fileName = `worklogs-${report.startDate}-${report.endDate}`;
+
+        if (report.jiraFailures.length > 0) {
+            // Geef in de download aan dat de gegevens onvolledig kunnen zijn
+            res.setHeader('X-Jira-Failures', report.jiraFailures.length.toString());
+        }
+
+        if (format === 'xlsx') {
+            res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+            res.setHeader('Content-Disposition', `attachment; filename="${fileName}.xlsx"`);
+            return res.send(await toXlsx(tables));
+        }
+
+        const tableId = (req.query.table || 'totaal').toString();
+        const table = tables.find(candidate => candidate.id === tableId);
+        if (!table) {
+            return res.status(400).json({
+                error: `Onbekende tabel ${tableId}`,
+                tables: tables.map(candidate => candidate.id)
+            });
+        }
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}-${table.id}.csv"`);
+        res.send(toCsv(table));
+    } catch (error) {
+        logger.error(`Error bij exporteren van worklogs: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het exporteren van de worklogs' });
+    }
+});
+
+// Schrijf het worklog overzicht van de periode naar een tabblad van de spreadsheet
+async function writeWorklogReportToSheet(startDate: Date, endDate: Date, jiraFailures: JiraFailure[]) {
+    const { report, worklogs } = await buildWorklogReport(startDate, endDate, jiraFailures);
+    const title = getReportSheetTitle(report.startDate, report.endDate);
+    const result = await writeSheetTab(title, buildReportSheetRows(report, buildExportTables(report, worklogs)));
+    return { title, result, jiraFailures: report.jiraFailures.length };
+}
+
+app.post('/api/worklogs/sheet', async (req: Request, res: Response) => {
+    try {
+        if (!REPORT_SHEET_ENABLED) {
+            return res.status(400).json({ error: 'Terugschrijven naar Google Sheets staat uit (REPORT_SHEET_ENABLED)' });
+        }
+
+        const period = parseReportPeriod(req);
+        if ('error' in period) {
+            return res.status(400).json({ error: period.error });
+        }
+
+        res.json(await writeWorklogReportToSheet(period.startDate, period.endDate, res.locals.jiraFailures));
+    } catch (error) {
+        logger.error(`Error bij schrijven van worklog rapport naar Google Sheets: ${error}`);
+        res.status(500).json({ error: 'Er is een fout opgetreden bij het schrijven van het rapport naar Google Sheets' });
     }
 });
 
-function generateEfficiencyTable(efficiencyData: { normal: EfficiencyData[], pure: EfficiencyData[] }): string {
+// Schrijf het rapport van de vorige maand naar de spreadsheet als het tabblad nog niet bestaat.
+// Bij mislukte Jira requests wordt niets geschreven en volgt een nieuwe poging bij de volgende controle.
+async function writePreviousMonthReportToSheet() {
+    const previousMonth = subMonths(new Date(), 1);
+    const start = format(startOfMonth(previousMonth), 'yyyy-MM-dd');
+    const end = format(endOfMonth(previousMonth), 'yyyy-MM-dd');
+    const title = getReportSheetTitle(start, end);
+
+    if (await sheetTabExists(title)) {
+        return;
+    }
+
+    // Datums als UTC middernacht, net als de datums uit de query parameters
+    const jiraFailures: JiraFailure[] = [];
+    const { report, worklogs } = await withJiraFailureTracking(jiraFailures, () =>
+        buildWorklogReport(new Date(start), new Date(end), jiraFailures)
+    );
+    if (jiraFailures.length > 0) {
+        logger.error(`Maandrapport ${title} niet geschreven: ${jiraFailures.length} Jira request(s) mislukt`);
+        return;
+    }
+
+    await writeSheetTab(title, buildReportSheetRows(report, buildExportTables(report, worklogs)));
+}
+
+function generateProjectWorklogsTable(project: ProjectWorkLogs): string {
+    return `
+        <div class="project-section">
+            <h3>${project.projectName}</h3>
+            <table class="table table-striped">
+                <thead>
+                    <tr>
+                        <th>Medewerker</th>
+                        ${project.columns.map(column => `<th>${column}</th>`).join('')}
+                        <th>Totaal</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${project.employees.map(employee => `
+                        <tr>
+                            <td>${employee.employee}</td>
+                            ${project.columns.map(column => `<td>${employee.hours[column].toFixed(1)}</td>`).join('')}
+                            <td>${employee.total.toFixed(1)}</td>
+                        </tr>
+                    `).join('')}
+                    <tr class="table-dark">
+                        <td><strong>Totaal</strong></td>
+                        ${project.columns.map(column =>
+                            `<td><strong>${project.columnTotals[column].toFixed(1)}</strong></td>`
+                        ).join('')}
+                        <td><strong>${project.total.toFixed(1)}</strong></td>
+                    </tr>
+                </tbody>
+            </table>
+        </div>
+    `;
+}
+
+// Per project de uren per categorie en indelingsregel, met daaronder elke worklog en de regel die hem indeelde
+function generateWorklogRulesTable(worklogs: ExportWorklog[]): string {
+    const groups = new Map<string, { projectName: string; category: string; rule: string; count: number; seconds: number }>();
+    worklogs.forEach(log => {
+        const key = [log.projectName, log.category, log.rule].join('|');
+        const group = groups.get(key) ?? { projectName: log.projectName, category: log.category, rule: log.rule, count: 0, seconds: 0 };
+        group.count++;
+        group.seconds += log.timeSpentSeconds;
+        groups.set(key, group);
+    });
+
+    const sortedWorklogs = [...worklogs].sort((a, b) =>
+        a.projectName.localeCompare(b.projectName) || new Date(a.started).getTime() - new Date(b.started).getTime());
+
+    return `
+        <div class="row mt-4">
+            <div class="col-md-12">
+                <h4>Indeling van worklogs</h4>
+                <table class="table table-striped">
+                    <thead>
+                        <tr>
+                            <th>Project</th>
+                            <th>Categorie</th>
+                            <th>Regel</th>
+                            <th>Worklogs</th>
+                            <th>Uren</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${Array.from(groups.values()).map(group => `
+                            <tr>
+                                <td>${group.projectName}</td>
+                                <td>${group.category}</td>
+                                <td>${group.rule}</td>
+                                <td>${group.count}</td>
+                                <td>${(group.seconds / 3600).toFixed(1)}</td>
+                            </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+                <details>
+                    <summary>Alle worklogs (${worklogs.length})</summary>
+                    <table class="table table-sm table-striped">
+                        <thead>
+                            <tr>
+                                <th>Project</th>
+                                <th>Issue</th>
+                                <th>Medewerker</th>
+                                <th>Datum</th>
+                                <th>Uren</th>
+                                <th>Categorie</th>
+                                <th>Regel</th>
+                                <th>Omschrijving</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            ${sortedWorklogs.map(log => `
+                                <tr>
+                                    <td>${log.projectName}</td>
+                                    <td>${log.issueKey}</td>
+                                    <td>${getAuthorName(log)}</td>
+                                    <td>${log.started.split('T')[0]}</td>
+                                    <td>${(log.timeSpentSeconds / 3600).toFixed(1)}</td>
+                                    <td>${log.category}</td>
+                                    <td>${log.rule}</td>
+                                    <td>${log.comment || ''}</td>
+                                </tr>
+                            `).join('')}
+                        </tbody>
+                    </table>
+                </details>
+            </div>
+        </div>
+    `;
+}
+
+function generateJiraFailuresAlert(failures: JiraFailure[]): string {
+    if (!failures || failures.length === 0) {
+        return '';
+    }
+
+    return `
+        <div class="alert alert-danger">
+            <strong>Let op:</strong> ${failures.length} Jira request(s) zijn mislukt, de gegevens hieronder zijn mogelijk onvolledig.
+            <details>
+                <summary>Details</summary>
+                <ul>
+                    ${failures.map(failure => `
+                        <li>${failure.context}: ${failure.status ? `HTTP ${failure.status} - ` : ''}${failure.message}</li>
+                    `).join('')}
+                </ul>
+            </details>
+        </div>
+    `;
+}
+
+// Regels uit de Google Sheet die niet ingelezen konden worden
+function generateSheetValidationAlert(): string {
+    const errors = getSheetValidationErrors();
+    if (errors.length === 0) {
+        return '';
+    }
+
+    return `
+        <div class="alert alert-warning">
+            <strong>Let op:</strong> ${errors.length} regel(s) in de Google Sheet zijn ongeldig en worden overgeslagen of als leeg gelezen.
+            <details>
+                <summary>Details</summary>
+                <ul>
+                    ${errors.map(error => `<li>${formatSheetRowError(error)}</li>`).join('')}
+                </ul>
+            </details>
+        </div>
+    `;
+}
+
+function generateEfficiencyTable(efficiencyData: { normal: EfficiencyData[], pure: EfficiencyData[], attribution?: EfficiencyAttribution }): string {
+    const estimateHeader = getEstimateHeader(efficiencyData.attribution);
+    const attributionNote = efficiencyData.attribution
+        ? `<p class="text-muted">${ATTRIBUTION_LABELS[efficiencyData.attribution]}</p>`
+        : '';
+
     let html = `
         <div class="row mt-4">
             <div class="col-md-12">
                 <h4>Efficiëntie Overzicht</h4>
+                ${attributionNote}
                 <table class="table table-striped">
                     <thead>
                         <tr>
                             <th>Medewerker</th>
-                            <th>Geschatte uren</th>
+                            <th>${estimateHeader}</th>
                             <th>Gelogde uren</th>
                             <th>Aantal issues</th>
                             <th>Efficiëntie</th>
@@ -1721,11 +2972,12 @@ function generateEfficiencyTable(efficiencyData: { normal: EfficiencyData[], pur
         <div class="row mt-4">
             <div class="col-md-12">
                 <h4>Efficiëntie Overzicht (Zuiver)</h4>
+                ${attributionNote}
                 <table class="table table-striped">
                     <thead>
                         <tr>
                             <th>Medewerker</th>
-                            <th>Geschatte uren</th>
+                            <th>${estimateHeader}</th>
                             <th>Gelogde uren</th>
                             <th>Aantal issues</th>
                             <th>Efficiëntie</th>
@@ -1872,6 +3124,10 @@ function convertIssuesToJiraIssues(issues: Issue[]): JiraIssue[] {
                 timeestimate: issue.fields!.timeestimate || 0,
                 status: issue.fields!.status,
                 timeoriginalestimate: issue.fields!.timeoriginalestimate,
+                issuelinks: issue.fields!.issuelinks,
+                parent: issue.fields!.parent,
+                customfield_10014: issue.fields!.customfield_10014,
+                customfield_10020: issue.fields!.customfield_10020,
                 worklog: issue.fields!.worklog as any // eventueel aanpassen indien nodig
             }
         }));
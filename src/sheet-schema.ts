@@ -0,0 +1,165 @@
+// Inlezen van Google Sheets tabbladen op basis van kolomkoppen in plaats van vaste kolomposities
+
+export type SheetColumnType = 'string' | 'number' | 'integer' | 'list' | 'date';
+
+export interface SheetColumn {
+    header: string;
+    // Andere namen waaronder de kolom in de sheet kan staan
+    aliases?: string[];
+    type: SheetColumnType;
+    // true: kolom en waarde zijn verplicht, 'header': de kolom is verplicht maar een cel mag leeg zijn
+    required?: boolean | 'header';
+    // Vaste kolompositie uit de oude indeling, alleen gebruikt als geen enkele kolomkop herkend wordt
+    legacyIndex?: number;
+}
+
+export interface SheetSchema {
+    tab: string;
+    columns: Record<string, SheetColumn>;
+}
+
+export interface SheetRowError {
+    tab: string;
+    row: number;
+    message: string;
+}
+
+export interface ParsedSheet<T> {
+    records: T[];
+    errors: SheetRowError[];
+}
+
+// Kolomkoppen vergelijken zonder hoofdletters, spaties, underscores en streepjes
+function normalizeHeader(header: unknown): string {
+    return (header ?? '').toString().toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+// Bepaal per kolom uit het schema de index in de sheet. Ontbrekende verplichte kolommen geven een fout.
+export function resolveColumns(schema: SheetSchema, headerRow: unknown[]): { indices: Record<string, number>; legacy: boolean } {
+    const headers = headerRow.map(normalizeHeader);
+    const indices: Record<string, number> = {};
+
+    Object.entries(schema.columns).forEach(([key, column]) => {
+        const names = [column.header, ...(column.aliases || [])].map(normalizeHeader);
+        const index = headers.findIndex(header => names.includes(header));
+        if (index !== -1) {
+            indices[key] = index;
+        }
+    });
+
+    const columns = Object.entries(schema.columns);
+    // Kolommen die later aan het schema zijn toegevoegd hebben geen vaste positie en blijven dan leeg
+    if (Object.keys(indices).length === 0 && columns.some(([, column]) => column.legacyIndex !== undefined)) {
+        columns
+            .filter(([, column]) => column.legacyIndex !== undefined)
+            .forEach(([key, column]) => {
+                indices[key] = column.legacyIndex!;
+            });
+        return { indices, legacy: true };
+    }
+
+    const missing = columns
+        .filter(([key, column]) => column.required && indices[key] === undefined)
+        .map(([, column]) => column.header);
+    if (missing.length > 0) {
+        throw new Error(`Verplichte kolom(men) ontbreken in ${schema.tab} sheet: ${missing.join(', ')}`);
+    }
+
+    return { indices, legacy: false };
+}
+
+// Datums als yyyy-mm-dd of dd-mm-yyyy (ook met / of .), als lokale datum zonder tijd
+function parseDate(raw: string): Date | null {
+    const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    const dutch = raw.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+    const [year, month, day] = iso
+        ? [iso[1], iso[2], iso[3]]
+        : dutch ? [dutch[3], dutch[2], dutch[1]] : [];
+    if (!year) {
+        return null;
+    }
+
+    const date = new Date(Number(year), Number(month) - 1, Number(day));
+    return date.getMonth() === Number(month) - 1 && date.getDate() === Number(day) ? date : null;
+}
+
+function coerceValue(column: SheetColumn, raw: string): { value?: any; error?: string } {
+    switch (column.type) {
+        case 'number':
+        case 'integer': {
+            const value = Number(raw.replace(',', '.'));
+            if (isNaN(value)) {
+                return { error: `${column.header} is geen getal ('${raw}')` };
+            }
+            if (column.type === 'integer' && !Number.isInteger(value)) {
+                return { error: `${column.header} is geen geheel getal ('${raw}')` };
+            }
+            return { value };
+        }
+        case 'date': {
+            const value = parseDate(raw);
+            return value ? { value } : { error: `${column.header} is geen geldige datum ('${raw}')` };
+        }
+        case 'list':
+            return { value: raw.split(',').map(item => item.trim()).filter(Boolean) };
+        default:
+            return { value: raw };
+    }
+}
+
+// Zet de rijen van een tabblad (inclusief kopregel op rij 1) om naar records volgens het schema.
+// Lege rijen worden overgeslagen. Rijen met een ontbrekende of ongeldige verplichte waarde worden
+// overgeslagen en als fout gemeld; een ongeldige optionele waarde wordt gemeld en leeg gelaten.
+export function parseSheet<T>(schema: SheetSchema, rows: unknown[][]): ParsedSheet<T & { row: number }> {
+    const records: (T & { row: number })[] = [];
+    const errors: SheetRowError[] = [];
+
+    if (rows.length === 0) {
+        return { records, errors };
+    }
+
+    const { indices } = resolveColumns(schema, rows[0]);
+
+    rows.slice(1).forEach((cells, index) => {
+        const rowNumber = index + 2;
+        if (cells.every(cell => (cell ?? '').toString().trim() === '')) {
+            return;
+        }
+
+        const record: Record<string, any> = { row: rowNumber };
+        let valid = true;
+
+        Object.entries(schema.columns).forEach(([key, column]) => {
+            const columnIndex = indices[key];
+            const raw = columnIndex === undefined ? '' : (cells[columnIndex] ?? '').toString().trim();
+
+            if (raw === '') {
+                if (column.required === true) {
+                    errors.push({ tab: schema.tab, row: rowNumber, message: `${column.header} ontbreekt` });
+                    valid = false;
+                }
+                return;
+            }
+
+            const { value, error } = coerceValue(column, raw);
+            if (error) {
+                errors.push({ tab: schema.tab, row: rowNumber, message: error });
+                if (column.required === true) {
+                    valid = false;
+                }
+                return;
+            }
+            record[key] = value;
+        });
+
+        if (valid) {
+            records.push(record as T & { row: number });
+        }
+    });
+
+    return { records, errors };
+}
+
+export function formatSheetRowError(error: SheetRowError): string {
+    return `${error.tab} rij ${error.row}: ${error.message}`;
+}
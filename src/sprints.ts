@@ -0,0 +1,246 @@
+import { startOfDay } from 'date-fns';
+import { logger } from './logger.js';
+import { jiraClient } from './jira.js';
+import type { Sprint } from './types.js';
+import type { SprintPeriod } from './capacity.js';
+import { UNPLANNED_SPRINT } from './planning.js';
+
+export type SprintState = 'active' | 'future' | 'closed';
+
+export interface JiraBoard {
+    id: number;
+    name: string;
+    type: string;
+    projectKey?: string;
+}
+
+export interface JiraSprint {
+    id: number;
+    name: string;
+    state: SprintState;
+    startDate?: string;
+    endDate?: string;
+    // Alleen bij afgesloten sprints
+    completeDate?: string;
+    boardId: number;
+}
+
+export interface IssueSprints {
+    // De actieve sprint van het issue, null als het issue niet in een actieve sprint zit
+    current: JiraSprint | null;
+    // Toekomstige sprints van het issue, op volgorde van de sprints op het board
+    future: JiraSprint[];
+}
+
+const AGILE_PAGE_SIZE = 50;
+
+// Cache voor de sprints per set projectcodes, zodat capaciteit, planning en rapporten binnen een request
+// dezelfde sprints gebruiken zonder de Agile API steeds opnieuw aan te roepen
+const sprintsCache = new Map<string, { sprints: JiraSprint[]; timestamp: number }>();
+const SPRINTS_CACHE_DURATION = 5 * 60 * 1000; // 5 minuten
+
+// Issues uit een zoekopdracht (Issue) of uit de planning (JiraIssue); alleen het sprint veld is nodig
+interface IssueWithSprints {
+    key: string;
+    fields?: { customfield_10020?: Sprint[] };
+}
+
+// De Agile REST API staat naast de REST API v2 waar de jiraClient standaard naar wijst
+function getAgileBaseURL(): string {
+    return (jiraClient.defaults.baseURL || '').replace(/\/rest\/api\/2\/?$/, '/rest/agile/1.0');
+}
+
+// Haal alle pagina's van een Agile API lijst op; deze endpoints geven isLast in plaats van een totaal
+async function getAllValues<T>(url: string, params: Record<string, any> = {}): Promise<T[]> {
+    const values: T[] = [];
+    let startAt = 0;
+    let isLast = false;
+
+    while (!isLast) {
+        const response = await jiraClient.get(url, {
+            baseURL: getAgileBaseURL(),
+            params: { ...params, startAt, maxResults: AGILE_PAGE_SIZE }
+        });
+
+        const page: T[] = response.data.values || [];
+        values.push(...page);
+        isLast = response.data.isLast !== false || page.length === 0;
+        startAt += page.length;
+    }
+
+    return values;
+}
+
+export async function getBoards(projectKey: string): Promise<JiraBoard[]> {
+    const boards = await getAllValues<any>('/board', { projectKeyOrId: projectKey });
+    return boards.map(board => ({
+        id: board.id,
+        name: board.name,
+        type: board.type,
+        ...(board.location?.projectKey ? { projectKey: board.location.projectKey } : {})
+    }));
+}
+
+// Sprints van een board; een sprint die op een ander board is aangemaakt hoort bij dat board
+export async function getBoardSprints(boardId: number): Promise<JiraSprint[]> {
+    const sprints = await getAllValues<any>(`/board/${boardId}/sprint`);
+    return sprints.map(sprint => ({
+        id: sprint.id,
+        name: sprint.name,
+        state: sprint.state,
+        ...(sprint.startDate ? { startDate: sprint.startDate } : {}),
+        ...(sprint.endDate ? { endDate: sprint.endDate } : {}),
+        ...(sprint.completeDate ? { completeDate: sprint.completeDate } : {}),
+        boardId: sprint.originBoardId ?? boardId
+    }));
+}
+
+// Sprints zonder startdatum (toekomstige sprints) komen na de sprints met startdatum, in de volgorde van het board
+function compareSprints(a: JiraSprint, b: JiraSprint): number {
+    if (a.startDate && b.startDate) {
+        return a.startDate.localeCompare(b.startDate) || a.id - b.id;
+    }
+    return (a.startDate ? 0 : 1) - (b.startDate ? 0 : 1);
+}
+
+// Alle sprints van de boards van de opgegeven projecten, zonder dubbelen (een sprint kan op meerdere
+// boards staan) en gesorteerd op startdatum
+export async function getSprintsForProjects(projectCodes: string[]): Promise<JiraSprint[]> {
+    const sprints = new Map<number, JiraSprint>();
+    const boardIds = new Set<number>();
+
+    for (const projectCode of projectCodes) {
+        const boards = (await getBoards(projectCode)).filter(board => board.type !== 'kanban');
+        boards.forEach(board => boardIds.add(board.id));
+    }
+
+    for (const boardId of boardIds) {
+        (await getBoardSprints(boardId)).forEach(sprint => {
+            if (!sprints.has(sprint.id)) {
+                sprints.set(sprint.id, sprint);
+            }
+        });
+    }
+
+    logger.log(`${sprints.size} sprints gevonden op ${boardIds.size} boards voor ${projectCodes.join(', ')}`);
+    return Array.from(sprints.values()).sort(compareSprints);
+}
+
+// De actieve en toekomstige sprints van een issue. De sprints in het sprint veld van het issue worden
+// opgezocht in de sprints van de boards, zodat status en datums uit de Agile API komen; sprints die
+// daar niet bij staan houden de status uit het issue.
+export function getIssueSprints(issue: IssueWithSprints, sprints: JiraSprint[] = []): IssueSprints {
+    const issueSprints = (issue.fields?.customfield_10020 || []).map(sprint =>
+        sprints.find(candidate => candidate.id === Number(sprint.id))
+            ?? { id: Number(sprint.id), name: sprint.name, state: sprint.state as SprintState, boardId: 0 }
+    );
+    const order = (sprint: JiraSprint) => {
+        const index = sprints.findIndex(candidate => candidate.id === sprint.id);
+        return index === -1 ? Infinity : index;
+    };
+
+    return {
+        current: issueSprints.find(sprint => sprint.state === 'active') ?? null,
+        future: issueSprints
+            .filter(sprint => sprint.state === 'future')
+            .sort((a, b) => order(a) - order(b))
+    };
+}
+
+// Naam van de sprint waarin aan een issue gewerkt wordt: de actieve sprint, anders de eerstvolgende
+// toekomstige sprint. Een issue dat alleen in afgesloten sprints heeft gestaan staat op de backlog.
+export function getSprintName(issue: IssueWithSprints, sprints: JiraSprint[] = []): string {
+    const { current, future } = getIssueSprints(issue, sprints);
+    const sprint = current ?? future[0];
+    if (!sprint) {
+        logger.log(`Geen actieve of toekomstige sprint gevonden voor issue ${issue.key}`);
+        return UNPLANNED_SPRINT;
+    }
+    return sprint.name;
+}
+
+// Sprintnummer uit de sprintnaam ("Sprint 12", "ABC Sprint 12"), zodat een Jira sprint overeenkomt met
+// het sprintnummer in de Sprint Capacity sheet
+export function getSprintNumber(sprint: JiraSprint): number | null {
+    const match = sprint.name.match(/(\d+)\s*$/);
+    return match ? Number(match[1]) : null;
+}
+
+// Sprintnummer (zoals in de capaciteit) van de sprint waarin elk issue in Jira staat: de actieve sprint,
+// anders de eerstvolgende toekomstige sprint. Issues op de backlog en sprints zonder nummer ontbreken.
+export function getIssueSprintIds(issues: IssueWithSprints[], sprints: JiraSprint[]): Map<string, string> {
+    const issueSprintIds = new Map<string, string>();
+    issues.forEach(issue => {
+        const { current, future } = getIssueSprints(issue, sprints);
+        const sprint = current ?? future[0];
+        const sprintId = sprint ? getSprintNumber(sprint) : null;
+        if (sprintId !== null) {
+            issueSprintIds.set(issue.key, sprintId.toString());
+        }
+    });
+    return issueSprintIds;
+}
+
+// Sprintkalender uit de Jira sprints met een start- en einddatum, voor de sprints van één project. Voor
+// afgesloten sprints telt de datum waarop de sprint werkelijk is afgesloten. Sprints zonder nummer in de
+// naam worden overgeslagen; bij meerdere sprints met hetzelfde nummer telt de eerste.
+export function buildSprintCalendar(sprints: JiraSprint[]): SprintPeriod[] {
+    const periods = new Map<number, SprintPeriod>();
+    const skipped: string[] = [];
+    const duplicates: string[] = [];
+
+    sprints.forEach(sprint => {
+        const sprintId = getSprintNumber(sprint);
+        const end = sprint.state === 'closed' ? sprint.completeDate ?? sprint.endDate : sprint.endDate;
+        if (sprintId === null || !sprint.startDate || !end) {
+            skipped.push(sprint.name);
+            return;
+        }
+        if (periods.has(sprintId)) {
+            duplicates.push(sprint.name);
+        } else {
+            periods.set(sprintId, {
+                sprintId,
+                startDate: startOfDay(new Date(sprint.startDate)),
+                endDate: startOfDay(new Date(end)),
+                name: sprint.name,
+                state: sprint.state
+            });
+        }
+    });
+
+    if (skipped.length > 0) {
+        logger.log(`Sprints zonder nummer of datums niet in de sprintkalender: ${skipped.join(', ')}`);
+    }
+    if (duplicates.length > 0) {
+        logger.error(`Sprints met een nummer dat al in de sprintkalender staat overgeslagen: ${duplicates.join(', ')}`);
+    }
+    return Array.from(periods.values()).sort((a, b) => a.sprintId - b.sprintId);
+}
+
+// Sprints van een project (de projectcodes uit de Projects sheet). Als de Agile API niet beschikbaar is,
+// zijn er geen sprints en rekenen capaciteit en planning met SPRINT_START_DATE.
+export async function getProjectSprints(projectCodes: string[]): Promise<JiraSprint[]> {
+    if (projectCodes.length === 0) {
+        return [];
+    }
+
+    const cacheKey = [...projectCodes].sort().join(',');
+    const cached = sprintsCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < SPRINTS_CACHE_DURATION) {
+        return cached.sprints;
+    }
+
+    try {
+        const sprints = await getSprintsForProjects(projectCodes);
+        sprintsCache.set(cacheKey, { sprints, timestamp: Date.now() });
+        return sprints;
+    } catch (error: any) {
+        logger.error(`Error bij ophalen van sprints uit Jira voor ${projectCodes.join(', ')}: ${error.message}`);
+        return [];
+    }
+}
+
+export async function getSprintCalendarForProjects(projectCodes: string[]): Promise<SprintPeriod[]> {
+    return buildSprintCalendar(await getProjectSprints(projectCodes));
+}
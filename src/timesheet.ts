@@ -0,0 +1,151 @@
+import { eachDayOfInterval, isWeekend, format, startOfDay, endOfDay } from 'date-fns';
+import type { WorkLog } from './types.js';
+import type { Employee } from './google-sheets.js';
+import { getLeaveHoursOnDay } from './leave.js';
+import type { LeaveEntry } from './leave.js';
+import { getAuthorName, roundHours } from './worklog-report.js';
+
+// - 'ok': gelogd binnen de marge rond de verwachte uren
+// - 'missing': niets gelogd op een dag met verwachte uren
+// - 'under' / 'over': minder of meer gelogd dan verwacht
+// - 'leave': de hele dag verlof of een feestdag, niets gelogd
+// - 'free': weekend of niet in dienst, niets gelogd
+// - 'future': dag na vandaag, nog niet te beoordelen
+export type TimesheetStatus = 'ok' | 'missing' | 'under' | 'over' | 'leave' | 'free' | 'future';
+
+export interface TimesheetDay {
+    date: string;
+    expectedHours: number;
+    loggedHours: number;
+    status: TimesheetStatus;
+}
+
+export interface FutureWorklog {
+    issueKey: string;
+    date: string;
+    hours: number;
+}
+
+export interface TimesheetEmployee {
+    employee: string;
+    expectedHours: number;
+    loggedHours: number;
+    missingDays: number;
+    underDays: number;
+    overDays: number;
+    days: TimesheetDay[];
+    // Worklogs met een startdatum na vandaag
+    futureWorklogs: FutureWorklog[];
+}
+
+export interface TimesheetReport {
+    startDate: string;
+    endDate: string;
+    // Afwijking in uren per dag die nog als volledig telt
+    toleranceHours: number;
+    employees: TimesheetEmployee[];
+}
+
+// Standaard marge per dag, zodat kleine afrondingsverschillen niet als onder- of overschrijding tellen
+const DEFAULT_TOLERANCE_HOURS = 0.5;
+
+export function getTimesheetTolerance(): number {
+    const tolerance = Number(process.env.TIMESHEET_TOLERANCE_HOURS);
+    return process.env.TIMESHEET_TOLERANCE_HOURS && tolerance >= 0 ? tolerance : DEFAULT_TOLERANCE_HOURS;
+}
+
+// De datum van een worklog zoals de medewerker hem heeft ingevoerd (Jira geeft de lokale tijd met offset)
+function getWorklogDate(log: WorkLog): string {
+    return log.started.split('T')[0];
+}
+
+function isEmployed(employee: Employee, day: Date): boolean {
+    return (!employee.startDate || day >= startOfDay(employee.startDate))
+        && (!employee.endDate || day <= startOfDay(employee.endDate));
+}
+
+function getDayStatus(expectedHours: number, loggedHours: number, workingDay: boolean, tolerance: number): TimesheetStatus {
+    if (loggedHours === 0) {
+        if (expectedHours > 0) {
+            return 'missing';
+        }
+        return workingDay ? 'leave' : 'free';
+    }
+    if (loggedHours < expectedHours - tolerance) {
+        return 'under';
+    }
+    if (loggedHours > expectedHours + tolerance) {
+        return 'over';
+    }
+    return 'ok';
+}
+
+// Vergelijk per medewerker per dag de gelogde uren met de verwachte uren (effectieve uren per werkdag,
+// min verlof en feestdagen). Dagen na vandaag worden niet beoordeeld.
+export function buildTimesheetReport(
+    employees: Employee[],
+    worklogs: WorkLog[],
+    startDate: Date,
+    endDate: Date,
+    leave: LeaveEntry[] = [],
+    now = new Date()
+): TimesheetReport {
+    const tolerance = getTimesheetTolerance();
+    const today = endOfDay(now);
+    const days = eachDayOfInterval({ start: startOfDay(startDate), end: startOfDay(endDate) });
+
+    // Een medewerker kan op meerdere regels staan (per project); de eerste regel telt
+    const uniqueEmployees = new Map<string, Employee>();
+    employees.forEach(employee => {
+        if (!uniqueEmployees.has(employee.name)) {
+            uniqueEmployees.set(employee.name, employee);
+        }
+    });
+
+    const timesheets = Array.from(uniqueEmployees.values()).map(employee => {
+        const employeeWorklogs = worklogs.filter(log => getAuthorName(log) === employee.name);
+        const hoursByDate = new Map<string, number>();
+        employeeWorklogs.forEach(log => {
+            const date = getWorklogDate(log);
+            hoursByDate.set(date, (hoursByDate.get(date) || 0) + log.timeSpentSeconds / 3600);
+        });
+
+        const dailyHours = employee.effectiveHours / 5;
+        const timesheetDays: TimesheetDay[] = days.map(day => {
+            const date = format(day, 'yyyy-MM-dd');
+            const workingDay = !isWeekend(day) && isEmployed(employee, day);
+            const expectedHours = workingDay
+                ? roundHours(dailyHours - getLeaveHoursOnDay(leave, employee.name, day, dailyHours))
+                : 0;
+            const loggedHours = roundHours(hoursByDate.get(date) || 0);
+
+            return {
+                date,
+                expectedHours,
+                loggedHours,
+                status: day > today ? 'future' : getDayStatus(expectedHours, loggedHours, workingDay, tolerance)
+            };
+        });
+
+        const assessedDays = timesheetDays.filter(day => day.status !== 'future');
+        return {
+            employee: employee.name,
+            expectedHours: roundHours(assessedDays.reduce((total, day) => total + day.expectedHours, 0)),
+            loggedHours: roundHours(assessedDays.reduce((total, day) => total + day.loggedHours, 0)),
+            missingDays: timesheetDays.filter(day => day.status === 'missing').length,
+            underDays: timesheetDays.filter(day => day.status === 'under').length,
+            overDays: timesheetDays.filter(day => day.status === 'over').length,
+            days: timesheetDays,
+            futureWorklogs: employeeWorklogs
+                .filter(log => new Date(log.started) > today)
+                .map(log => ({ issueKey: log.issueKey, date: getWorklogDate(log), hours: roundHours(log.timeSpentSeconds / 3600) }))
+        };
+    });
+
+    return {
+        startDate: format(startDate, 'yyyy-MM-dd'),
+        endDate: format(endDate, 'yyyy-MM-dd'),
+        toleranceHours: tolerance,
+        employees: timesheets
+    };
+}
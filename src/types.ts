@@ -2,6 +2,7 @@ export interface IssueHistory {
     created: string;
     items: {
         field: string;
+        fromString?: string;
         toString: string;
     }[];
 }
@@ -54,7 +55,12 @@ export interface Issue {
         issuelinks?: IssueLink[];
         parent?: {
             key: string;
+            fields?: {
+                summary?: string;
+            };
         };
+        // Epic link
+        customfield_10014?: string;
         customfield_10020?: Sprint[];
         worklog?: {
             worklogs: Array<{
@@ -81,8 +87,18 @@ export interface WorkLog {
     issueStatus?: string;
     issueAssignee?: string;
     issuePriority?: string;
+    issueType?: string;
+    issueLabels?: string[];
+    // Parent issue of epic van het issue
+    issueParent?: string;
 }
 
+// Verdeling van de schatting van een issue over de medewerkers:
+// - 'assignee': de hele schatting voor de toegewezen medewerker, tegenover alleen diens eigen uren
+// - 'proportional': naar verhouding van de gelogde uren per medewerker
+// - 'equal': gelijk verdeeld over de medewerkers die op het issue gelogd hebben
+export type EfficiencyAttribution = 'assignee' | 'proportional' | 'equal';
+
 export interface EfficiencyData {
     employee: string;
     estimatedHours?: number;
@@ -102,18 +118,51 @@ export interface EfficiencyTable {
     };
 }
 
+// Uren van één medewerker per kolom van het worklog overzicht
 export interface WorkLogsSummary {
     employee: string;
-    nietGewerkt: string;
-    nietOpIssues: string;
-    ontwikkeling: string;
-    total: string;
+    hours: Record<string, number>;
+    total: number;
+}
+
+export interface WorkLogsTable {
+    columns: string[];
+    employees: WorkLogsSummary[];
+    columnTotals: Record<string, number>;
+    total: number;
+}
+
+export interface ProjectWorkLogs extends WorkLogsTable {
+    projectName: string;
+    worklogName: string;
+}
+
+// Verwachte uren (effectieve uren min verlof en feestdagen) tegenover de gelogde uren
+export interface EmployeeAvailability {
+    employee: string;
+    expectedHours: number;
+    leaveHours: number;
+    loggedHours: number;
+    // Gelogde uren als percentage van de verwachte uren
+    percentage: number;
 }
 
 export interface WorkLogsResponse {
-    workLogs: WorkLog[];
-    efficiencyTable: EfficiencyData[];
-    workLogsSummary: Record<string, WorkLogsSummary[]>;
+    startDate: string;
+    endDate: string;
+    projects: ProjectWorkLogs[];
+    totals: WorkLogsTable;
+    availability: EmployeeAvailability[];
+    efficiencyTable: {
+        normal: EfficiencyData[];
+        pure: EfficiencyData[];
+        attribution?: EfficiencyAttribution;
+    };
+    jiraFailures: {
+        context: string;
+        status?: number;
+        message: string;
+    }[];
 }
 
 export interface ProjectConfig {
@@ -128,6 +177,15 @@ export interface WorklogConfig {
     columnName: string;
     issues?: string[];
     worklogJql?: string;
+    // Rij in de Worklogs sheet
+    row?: number;
+    // Criteria van de indelingsregel, zie worklog-rules.ts
+    priority?: number;
+    issueKeys?: string[];
+    issueTypes?: string[];
+    parents?: string[];
+    labels?: string[];
+    commentPattern?: string;
 }
 
 export interface ProjectData {
@@ -153,6 +211,15 @@ export interface JiraIssue {
             name: string;
         };
         timeoriginalestimate?: number;
+        issuelinks?: IssueLink[];
+        parent?: {
+            key: string;
+            fields?: {
+                summary?: string;
+            };
+        };
+        customfield_10014?: string;
+        customfield_10020?: Sprint[];
         worklog?: {
             worklogs: WorkLog[];
         };
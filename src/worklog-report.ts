@@ -0,0 +1,214 @@
+import { logger } from './logger.js';
+import { getWorkLogsForProject } from './jira.js';
+import type { ProjectConfig, Employee } from './google-sheets.js';
+import type { WorkLog, WorklogConfig, WorkLogsTable, EmployeeAvailability } from './types.js';
+import { calculateExpectedHours } from './capacity.js';
+import type { LeaveEntry } from './leave.js';
+import { rulesFromWorklogConfigs, categoriseWorklogs, UNCATEGORISED } from './worklog-rules.js';
+import type { CategorisedWorklog, JqlMatches } from './worklog-rules.js';
+
+export function getAuthorName(log: WorkLog): string {
+    return typeof log.author === 'string' ? log.author : log.author.displayName;
+}
+
+// Medewerkers die in de Employees sheet aan het project gekoppeld zijn
+export function getActiveEmployees(employees: Employee[], projectName: string): string[] {
+    return employees
+        .filter(employee => employee.project === projectName.trim())
+        .map(employee => employee.name);
+}
+
+// Bouw de JQL query voor een kolom: het issuefilter van de kolom, of anders de worklogJql van het project
+export function buildColumnJql(column: WorklogConfig, projectConfig: ProjectConfig, periodeFilter: string): string {
+    const projectFilter = `project in (${projectConfig.projectCodes.map(code => `"${code}"`).join(', ')})`;
+
+    if (column.issues && column.issues.length > 0) {
+        return column.issues[0]
+            .replace(/{projectFilter}/g, projectFilter)
+            .replace(/{periodeFilter}/g, periodeFilter);
+    }
+    if (projectConfig.worklogJql) {
+        return projectConfig.worklogJql
+            .replace(/{projectFilter}/g, projectFilter)
+            .replace(/{periodeFilter}/g, periodeFilter);
+    }
+    return '';
+}
+
+// Een worklog kan door meerdere regels worden opgehaald, maar wordt maar één keer ingedeeld
+function getWorklogId(log: WorkLog): string {
+    return log.id ? String(log.id) : `${log.issueKey}|${getAuthorName(log)}|${log.started}|${log.timeSpentSeconds}`;
+}
+
+export interface ProjectWorklogHours {
+    hoursByEmployee: Map<string, Map<string, number>>;
+    // Alle worklogs van actieve medewerkers in dit project, elke worklog één keer, met de categorie
+    // en de regel die de categorie bepaalde
+    worklogs: CategorisedWorklog[];
+}
+
+// Bereken de uren per medewerker en categorie voor één project. Elke kolom uit de Worklogs sheet is een
+// indelingsregel (zie worklog-rules.ts); elke worklog telt bij precies één categorie mee.
+export async function calculateProjectWorklogHours(
+    projectConfig: ProjectConfig,
+    columns: WorklogConfig[],
+    activeEmployees: string[],
+    startDate: Date,
+    endDate: Date
+): Promise<ProjectWorklogHours> {
+    const projectWorklogs = new Map<string, WorkLog>();
+    const jqlMatches: JqlMatches = new Map();
+    const rules = rulesFromWorklogConfigs(columns);
+    const periodeFilter = `worklogDate >= "${startDate.toISOString().split('T')[0]}" AND worklogDate <= "${endDate.toISOString().split('T')[0]}"`;
+
+    const fetchWorklogs = async (jql: string, label: string): Promise<WorkLog[]> => {
+        logger.log(`\n=== JQL Query voor ${label} ===`);
+        logger.log(`Project: ${projectConfig.projectName}`);
+        logger.log(`JQL: ${jql}`);
+
+        const worklogs = await getWorkLogsForProject(
+            projectConfig.projectCodes,
+            startDate,
+            endDate,
+            { ...projectConfig, jqlFilter: jql }
+        );
+        worklogs.forEach(log => projectWorklogs.set(getWorklogId(log), log));
+        logger.log(`Aantal worklogs voor ${label}: ${worklogs.length}`);
+        return worklogs;
+    };
+
+    // Regels met een JQL query: de issues uit de query horen bij de regel
+    for (const [index, rule] of rules.entries()) {
+        if (rule.jql) {
+            const worklogs = await fetchWorklogs(buildColumnJql(columns[index], projectConfig, periodeFilter), `${rule.id} (${rule.category})`);
+            jqlMatches.set(rule.id, new Set(worklogs.map(log => log.issueKey)));
+        }
+    }
+
+    // Regels zonder JQL query werken op alle worklogs van het project
+    const ruleWithoutJql = rules.findIndex(rule => !rule.jql);
+    if (ruleWithoutJql !== -1) {
+        await fetchWorklogs(buildColumnJql(columns[ruleWithoutJql], projectConfig, periodeFilter), 'alle worklogs');
+    }
+
+    // Filter worklogs op actieve medewerkers
+    const worklogs = categoriseWorklogs(
+        Array.from(projectWorklogs.values()).filter(log => {
+            if (!activeEmployees.includes(getAuthorName(log))) {
+                logger.log(`- ${getAuthorName(log)} is geen actieve medewerker voor ${projectConfig.projectName}, worklog wordt genegeerd`);
+                return false;
+            }
+            return true;
+        }),
+        rules,
+        jqlMatches
+    );
+
+    // Verwerk worklogs per medewerker
+    const projectHoursByEmployeeAndCategory = new Map<string, Map<string, number>>();
+    worklogs.forEach(log => {
+        const authorName = getAuthorName(log);
+        logger.log(`- ${log.issueKey} ${authorName}: ${(log.timeSpentSeconds / 3600).toFixed(1)} uur (${log.started.split('T')[0]}) -> ${log.category} (${log.rule || 'geen regel'})`);
+
+        if (!projectHoursByEmployeeAndCategory.has(authorName)) {
+            projectHoursByEmployeeAndCategory.set(authorName, new Map<string, number>());
+        }
+
+        const employeeCategories = projectHoursByEmployeeAndCategory.get(authorName)!;
+        const hours = log.timeSpentSeconds / 3600;
+        employeeCategories.set(log.category, (employeeCategories.get(log.category) || 0) + hours);
+        employeeCategories.set('Totaal', (employeeCategories.get('Totaal') || 0) + hours);
+    });
+
+    return {
+        hoursByEmployee: projectHoursByEmployeeAndCategory,
+        worklogs
+    };
+}
+
+// Categorieën van een project in de volgorde van de sheet, met 'Niet ingedeeld' als er worklogs
+// zijn waar geen regel op paste
+export function getProjectCategories(columns: WorklogConfig[], worklogs: CategorisedWorklog[]): string[] {
+    const categories = Array.from(new Set(columns.map(column => column.columnName)));
+    if (worklogs.some(log => log.category === UNCATEGORISED)) {
+        categories.push(UNCATEGORISED);
+    }
+    return categories;
+}
+
+export function roundHours(hours: number): number {
+    return Math.round(hours * 100) / 100;
+}
+
+// Zet de uren per medewerker en kolom om naar een tabel met totalen per medewerker en per kolom
+export function toWorkLogsTable(columns: string[], hoursByEmployee: Map<string, Map<string, number>>): WorkLogsTable {
+    const columnTotals: Record<string, number> = Object.fromEntries(columns.map(column => [column, 0]));
+
+    const employees = Array.from(hoursByEmployee.entries()).map(([employee, employeeCategories]) => {
+        const hours: Record<string, number> = {};
+        let total = 0;
+        columns.forEach(column => {
+            const value = employeeCategories.get(column) || 0;
+            hours[column] = roundHours(value);
+            columnTotals[column] += value;
+            total += value;
+        });
+        return { employee, hours, total: roundHours(total) };
+    });
+
+    const total = columns.reduce((sum, column) => sum + columnTotals[column], 0);
+    columns.forEach(column => {
+        columnTotals[column] = roundHours(columnTotals[column]);
+    });
+
+    return { columns, employees, columnTotals, total: roundHours(total) };
+}
+
+// Tel de tabellen van meerdere projecten op per medewerker en kolom
+export function mergeWorkLogsTables(tables: WorkLogsTable[]): WorkLogsTable {
+    const columns = Array.from(new Set(tables.flatMap(table => table.columns)));
+    const hoursByEmployee = new Map<string, Map<string, number>>();
+
+    tables.forEach(table => {
+        table.employees.forEach(({ employee, hours }) => {
+            if (!hoursByEmployee.has(employee)) {
+                hoursByEmployee.set(employee, new Map<string, number>());
+            }
+            const employeeCategories = hoursByEmployee.get(employee)!;
+            Object.entries(hours).forEach(([column, value]) => {
+                employeeCategories.set(column, (employeeCategories.get(column) || 0) + value);
+            });
+        });
+    });
+
+    return toWorkLogsTable(columns, hoursByEmployee);
+}
+
+// Verwachte tegenover gelogde uren per medewerker, in de volgorde van de Employees sheet
+export function buildAvailability(
+    employees: Employee[],
+    totals: WorkLogsTable,
+    startDate: Date,
+    endDate: Date,
+    leave: LeaveEntry[]
+): EmployeeAvailability[] {
+    // Een medewerker kan op meerdere regels staan (per project); de eerste regel telt
+    const uniqueEmployees = new Map<string, Employee>();
+    employees.forEach(employee => {
+        if (!uniqueEmployees.has(employee.name)) {
+            uniqueEmployees.set(employee.name, employee);
+        }
+    });
+
+    return Array.from(uniqueEmployees.values()).map(employee => {
+        const { expectedHours, leaveHours } = calculateExpectedHours(employee, startDate, endDate, leave);
+        const loggedHours = totals.employees.find(row => row.employee === employee.name)?.total ?? 0;
+        return {
+            employee: employee.name,
+            expectedHours,
+            leaveHours,
+            loggedHours,
+            percentage: expectedHours > 0 ? Math.round(loggedHours / expectedHours * 100) : 0
+        };
+    });
+}
@@ -0,0 +1,121 @@
+import { logger } from './logger.js';
+import type { WorkLog, WorklogConfig } from './types.js';
+
+// Regel die worklogs aan een categorie (kolom van het overzicht) toewijst. Alle opgegeven criteria
+// moeten kloppen; een regel zonder criteria vangt de worklogs op die door geen andere regel zijn ingedeeld.
+export interface WorklogRule {
+    // Herkenbare naam van de regel, bijvoorbeeld 'Worklogs rij 4'
+    id: string;
+    category: string;
+    // Lager nummer gaat voor; regels zonder prioriteit volgen in de volgorde van de sheet
+    priority?: number;
+    issueKeys?: string[];
+    // Issues die de JQL query teruggeeft
+    jql?: string;
+    issueTypes?: string[];
+    // Parent issue of epic
+    parents?: string[];
+    labels?: string[];
+    // Reguliere expressie op het commentaar van de worklog, zonder hoofdlettergevoeligheid
+    commentPattern?: string;
+}
+
+export interface CategorisedWorklog extends WorkLog {
+    category: string;
+    // Id van de regel die de worklog heeft ingedeeld
+    rule: string;
+}
+
+// Categorie van worklogs waar geen enkele regel op past
+export const UNCATEGORISED = 'Niet ingedeeld';
+
+// Per regel id de issue keys die de JQL query van de regel heeft opgeleverd
+export type JqlMatches = Map<string, Set<string>>;
+
+function hasValues(values?: string[]): values is string[] {
+    return !!values && values.length > 0;
+}
+
+function includesIgnoringCase(values: string[], value?: string): boolean {
+    return !!value && values.some(item => item.toLowerCase() === value.toLowerCase());
+}
+
+export function isFallbackRule(rule: WorklogRule): boolean {
+    return !hasValues(rule.issueKeys) && !rule.jql && !hasValues(rule.issueTypes)
+        && !hasValues(rule.parents) && !hasValues(rule.labels) && !rule.commentPattern;
+}
+
+// Maak van de regels uit de Worklogs sheet de regels voor één project
+export function rulesFromWorklogConfigs(configs: WorklogConfig[]): WorklogRule[] {
+    return configs.map(config => ({
+        id: config.row ? `Worklogs rij ${config.row}` : config.columnName,
+        category: config.columnName,
+        priority: config.priority,
+        issueKeys: config.issueKeys,
+        jql: config.issues && config.issues.length > 0 ? config.issues[0] : undefined,
+        issueTypes: config.issueTypes,
+        parents: config.parents,
+        labels: config.labels,
+        commentPattern: config.commentPattern
+    }));
+}
+
+// Volgorde waarin de regels worden geprobeerd: eerst de regels met criteria, dan de opvangregels,
+// binnen die groepen op prioriteit en daarna in de volgorde van de sheet
+export function sortRules(rules: WorklogRule[]): WorklogRule[] {
+    return rules
+        .map((rule, index) => ({ rule, index }))
+        .sort((a, b) =>
+            Number(isFallbackRule(a.rule)) - Number(isFallbackRule(b.rule))
+            || (a.rule.priority ?? Number.MAX_SAFE_INTEGER) - (b.rule.priority ?? Number.MAX_SAFE_INTEGER)
+            || a.index - b.index)
+        .map(({ rule }) => rule);
+}
+
+function toCommentRegExp(rule: WorklogRule): RegExp {
+    try {
+        return new RegExp(rule.commentPattern!, 'i');
+    } catch {
+        // Geen geldige reguliere expressie: zoek naar de letterlijke tekst
+        logger.error(`Ongeldig commentaarpatroon in ${rule.id}: '${rule.commentPattern}', er wordt op de letterlijke tekst gezocht`);
+        return new RegExp(rule.commentPattern!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    }
+}
+
+export function matchesRule(rule: WorklogRule, log: WorkLog, jqlMatches: JqlMatches = new Map(), comment?: RegExp): boolean {
+    if (hasValues(rule.issueKeys) && !includesIgnoringCase(rule.issueKeys, log.issueKey)) {
+        return false;
+    }
+    if (rule.jql && !jqlMatches.get(rule.id)?.has(log.issueKey)) {
+        return false;
+    }
+    if (hasValues(rule.issueTypes) && !includesIgnoringCase(rule.issueTypes, log.issueType)) {
+        return false;
+    }
+    if (hasValues(rule.parents) && !includesIgnoringCase(rule.parents, log.issueParent)) {
+        return false;
+    }
+    if (hasValues(rule.labels) && !(log.issueLabels || []).some(label => includesIgnoringCase(rule.labels!, label))) {
+        return false;
+    }
+    if (rule.commentPattern && !(comment ?? toCommentRegExp(rule)).test(log.comment || '')) {
+        return false;
+    }
+    return true;
+}
+
+// Deel elke worklog in bij precies één categorie: de eerste regel die past wint. Worklogs waar geen
+// regel op past komen in de categorie 'Niet ingedeeld'.
+export function categoriseWorklogs(worklogs: WorkLog[], rules: WorklogRule[], jqlMatches: JqlMatches = new Map()): CategorisedWorklog[] {
+    const orderedRules = sortRules(rules).map(rule => ({
+        rule,
+        comment: rule.commentPattern ? toCommentRegExp(rule) : undefined
+    }));
+
+    return worklogs.map(log => {
+        const match = orderedRules.find(({ rule, comment }) => matchesRule(rule, log, jqlMatches, comment));
+        return match
+            ? { ...log, category: match.rule.category, rule: match.rule.id }
+            : { ...log, category: UNCATEGORISED, rule: '' };
+    });
+}
@@ -0,0 +1,209 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import { logger } from './logger.js';
+import type { JiraWorkLog } from './jira.js';
+
+let db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+    if (db) {
+        return db;
+    }
+
+    // Locatie van het lokale SQLite bestand met issues en worklogs
+    const STORE_PATH = process.env.WORKLOG_STORE_PATH || path.join(process.cwd(), 'data', 'worklogs.db');
+    fs.mkdirSync(path.dirname(STORE_PATH), { recursive: true });
+    db = new Database(STORE_PATH);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS issues (
+            id TEXT PRIMARY KEY,
+            key TEXT NOT NULL,
+            project TEXT,
+            summary TEXT,
+            status TEXT,
+            assignee TEXT,
+            priority TEXT,
+            issuetype TEXT,
+            labels TEXT,
+            parent TEXT
+        );
+        CREATE TABLE IF NOT EXISTS worklogs (
+            id TEXT PRIMARY KEY,
+            issue_id TEXT NOT NULL,
+            author TEXT,
+            started TEXT NOT NULL,
+            started_ms INTEGER NOT NULL,
+            time_spent_seconds INTEGER NOT NULL,
+            comment TEXT
+        );
+        CREATE INDEX IF NOT EXISTS worklogs_started_ms ON worklogs (started_ms);
+        CREATE TABLE IF NOT EXISTS sync_state (
+            name TEXT PRIMARY KEY,
+            value TEXT
+        );
+        CREATE TABLE IF NOT EXISTS jql_matches (
+            jql TEXT NOT NULL,
+            issue_id TEXT NOT NULL,
+            PRIMARY KEY (jql, issue_id)
+        );
+    `);
+
+    // Kolommen die later zijn toegevoegd aan een bestaande store
+    const issueColumns = (db.prepare('PRAGMA table_info(issues)').all() as { name: string }[]).map(column => column.name);
+    ['labels', 'parent']
+        .filter(column => !issueColumns.includes(column))
+        .forEach(column => db!.exec(`ALTER TABLE issues ADD COLUMN ${column} TEXT`));
+
+    logger.log(`Worklog store geopend: ${STORE_PATH}`);
+    return db;
+}
+
+export function getSyncState(name: string): string | undefined {
+    const row = getDb().prepare('SELECT value FROM sync_state WHERE name = ?').get(name) as { value: string } | undefined;
+    return row?.value;
+}
+
+export function setSyncState(name: string, value: string): void {
+    getDb().prepare('INSERT INTO sync_state (name, value) VALUES (?, ?) ON CONFLICT(name) DO UPDATE SET value = excluded.value')
+        .run(name, value);
+}
+
+// Sla issues op zoals ze uit de Jira search komen
+export function upsertIssues(issues: any[]): void {
+    const statement = getDb().prepare(`
+        INSERT INTO issues (id, key, project, summary, status, assignee, priority, issuetype, labels, parent)
+        VALUES (@id, @key, @project, @summary, @status, @assignee, @priority, @issuetype, @labels, @parent)
+        ON CONFLICT(id) DO UPDATE SET
+            key = excluded.key, project = excluded.project, summary = excluded.summary, status = excluded.status,
+            assignee = excluded.assignee, priority = excluded.priority, issuetype = excluded.issuetype,
+            labels = excluded.labels, parent = excluded.parent
+    `);
+
+    getDb().transaction((rows: any[]) => {
+        rows.forEach(issue => statement.run({
+            id: String(issue.id),
+            key: issue.key,
+            project: issue.fields?.project?.key ?? issue.key.split('-')[0],
+            summary: issue.fields?.summary ?? null,
+            status: issue.fields?.status?.name ?? null,
+            assignee: issue.fields?.assignee?.displayName ?? null,
+            priority: issue.fields?.priority?.name ?? null,
+            issuetype: issue.fields?.issuetype?.name ?? null,
+            labels: JSON.stringify(issue.fields?.labels ?? []),
+            parent: issue.fields?.parent?.key ?? issue.fields?.customfield_10014 ?? null
+        }));
+    })(issues);
+}
+
+export function upsertWorklogs(worklogs: JiraWorkLog[]): void {
+    const statement = getDb().prepare(`
+        INSERT INTO worklogs (id, issue_id, author, started, started_ms, time_spent_seconds, comment)
+        VALUES (@id, @issueId, @author, @started, @startedMs, @timeSpentSeconds, @comment)
+        ON CONFLICT(id) DO UPDATE SET
+            issue_id = excluded.issue_id, author = excluded.author, started = excluded.started,
+            started_ms = excluded.started_ms, time_spent_seconds = excluded.time_spent_seconds, comment = excluded.comment
+    `);
+
+    getDb().transaction((rows: JiraWorkLog[]) => {
+        rows.forEach(log => statement.run({
+            id: String(log.id),
+            issueId: String(log.issueId),
+            author: typeof log.author === 'string' ? log.author : log.author?.displayName ?? null,
+            started: log.started,
+            startedMs: new Date(log.started).getTime(),
+            timeSpentSeconds: log.timeSpentSeconds,
+            comment: typeof log.comment === 'string' ? log.comment : null
+        }));
+    })(worklogs);
+}
+
+export function deleteWorklogs(ids: (string | number)[]): void {
+    const statement = getDb().prepare('DELETE FROM worklogs WHERE id = ?');
+    getDb().transaction((rows: (string | number)[]) => {
+        rows.forEach(id => statement.run(String(id)));
+    })(ids);
+}
+
+// Haal de worklogs op die in de periode gestart zijn (startdatum vanaf middernacht, einddatum tot het einde van de dag)
+export function getStoredWorklogs(startDate: Date | string, endDate: Date | string): JiraWorkLog[] {
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    start.setHours(0, 0, 0, 0);
+    end.setHours(23, 59, 59, 999);
+
+    const rows = getDb().prepare(`
+        SELECT id, issue_id, author, started, time_spent_seconds, comment
+        FROM worklogs
+        WHERE started_ms BETWEEN ? AND ?
+        ORDER BY started_ms
+    `).all(start.getTime(), end.getTime()) as any[];
+
+    return rows.map(row => ({
+        id: row.id,
+        issueId: row.issue_id,
+        author: row.author,
+        started: row.started,
+        timeSpentSeconds: row.time_spent_seconds,
+        comment: row.comment ?? undefined
+    }));
+}
+
+// Haal issues op uit de store, in dezelfde vorm als een Jira search resultaat
+export function getStoredIssues(ids: string[]): Map<string, any> {
+    const issues = new Map<string, any>();
+    const statement = getDb().prepare('SELECT * FROM issues WHERE id = ?');
+
+    ids.forEach(id => {
+        const row = statement.get(id) as any;
+        if (row) {
+            issues.set(row.id, {
+                id: row.id,
+                key: row.key,
+                fields: {
+                    summary: row.summary,
+                    project: { key: row.project },
+                    status: row.status ? { name: row.status } : undefined,
+                    assignee: row.assignee ? { displayName: row.assignee } : undefined,
+                    priority: row.priority ? { name: row.priority } : undefined,
+                    issuetype: row.issuetype ? { name: row.issuetype } : undefined,
+                    labels: row.labels ? JSON.parse(row.labels) : [],
+                    parent: row.parent ? { key: row.parent } : undefined
+                }
+            });
+        }
+    });
+
+    return issues;
+}
+
+// Issue ids waarvoor wel worklogs maar nog geen issue gegevens in de store staan
+export function getMissingIssueIds(): string[] {
+    const rows = getDb().prepare(`
+        SELECT DISTINCT w.issue_id FROM worklogs w
+        LEFT JOIN issues i ON i.id = w.issue_id
+        WHERE i.id IS NULL
+    `).all() as { issue_id: string }[];
+    return rows.map(row => row.issue_id);
+}
+
+export function getStoredProjectKeys(): string[] {
+    const rows = getDb().prepare('SELECT DISTINCT project FROM issues WHERE project IS NOT NULL').all() as { project: string }[];
+    return rows.map(row => row.project);
+}
+
+// Laatst bekende resultaat van een JQL filter voor de opgegeven issues, voor als Jira niet bereikbaar is
+export function getJqlMatches(jql: string, issueIds: string[]): string[] {
+    const statement = getDb().prepare('SELECT 1 FROM jql_matches WHERE jql = ? AND issue_id = ?');
+    return issueIds.filter(id => statement.get(jql, id));
+}
+
+export function setJqlMatches(jql: string, checkedIds: string[], matchedIds: string[]): void {
+    const remove = getDb().prepare('DELETE FROM jql_matches WHERE jql = ? AND issue_id = ?');
+    const insert = getDb().prepare('INSERT OR IGNORE INTO jql_matches (jql, issue_id) VALUES (?, ?)');
+    getDb().transaction(() => {
+        checkedIds.forEach(id => remove.run(jql, id));
+        matchedIds.forEach(id => insert.run(jql, id));
+    })();
+}
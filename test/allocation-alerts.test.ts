@@ -0,0 +1,74 @@
+import './setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildAllocationAlerts } from '../src/allocation-alerts.js';
+import { planIssues } from '../src/planning.js';
+import type { PlanningResult, SprintCapacity } from '../src/planning.js';
+import type { Employee } from '../src/google-sheets.js';
+import type { Issue, JiraIssue } from '../src/types.js';
+import { makeIssue } from './issues.js';
+
+const employees: Employee[] = [
+    { row: 2, name: 'Jan Jansen', effectiveHours: 40, project: 'Alpha' },
+    { row: 3, name: 'Piet de Vries', effectiveHours: 40, project: 'Alpha' },
+    { row: 4, name: 'Klaas Extern', effectiveHours: 40, project: 'Beta' }
+];
+
+const sprintCapacity: SprintCapacity[] = ['Jan Jansen', 'Piet de Vries'].flatMap(employee =>
+    ['1', '2'].map(sprint => ({ employee, sprint, capacity: 10, project: 'Alpha' }))
+);
+
+describe('signaleringen bij de planning', () => {
+    it('meldt overbezetting, onbenutte capaciteit en issues die niet gepland kunnen worden', () => {
+        const issues = [
+            makeIssue('ABC-1', { assignee: 'Jan Jansen', hours: 30 }),
+            makeIssue('ABC-2', { assignee: 'Piet de Vries', hours: 2 }),
+            makeIssue('ABC-3', { hours: 5 }),
+            makeIssue('ABC-4', { assignee: 'Piet de Vries', hours: 0 }),
+            makeIssue('ABC-5', { assignee: 'Kees Klaassen', hours: 3 }),
+            makeIssue('ABC-6', { assignee: 'Klaas Extern', hours: 3 }),
+            makeIssue('ABC-7', { assignee: 'Piet de Vries', hours: 0, status: 'Closed' })
+        ];
+        const planning = planIssues(issues.filter(candidate => candidate.fields?.assignee) as JiraIssue[], sprintCapacity);
+
+        assert.deepEqual(buildAllocationAlerts(planning, issues, employees).map(alert => [alert.type, alert.employee, alert.sprint, alert.hours, alert.issues]), [
+            ['overallocated', 'Jan Jansen', 'Niet gepland', 10, ['ABC-1']],
+            ['unassigned', undefined, undefined, 5, ['ABC-3']],
+            ['no-estimate', undefined, undefined, undefined, ['ABC-4']],
+            ['unknown-assignee', 'Kees Klaassen', undefined, undefined, ['ABC-5']],
+            ['no-capacity', 'Klaas Extern', undefined, undefined, ['ABC-6']],
+            ['underallocated', 'Piet de Vries', '1', 8, undefined],
+            ['underallocated', 'Piet de Vries', '2', 10, undefined]
+        ]);
+    });
+
+    it('meldt meer werk in een Jira sprint dan de capaciteit', () => {
+        const issues = [
+            makeIssue('ABC-1', { assignee: 'Jan Jansen', hours: 6 }),
+            makeIssue('ABC-2', { assignee: 'Jan Jansen', hours: 2 }),
+            makeIssue('ABC-3', { assignee: 'Jan Jansen', hours: 3, status: 'Closed' })
+        ];
+        const planning: PlanningResult = {
+            sprintCapacity: [{ employee: 'Jan Jansen', sprint: '1', capacity: 5, project: 'Alpha' }],
+            employeeSprintUsedHours: [{ employee: 'Jan Jansen', sprintHours: [{ sprint: '1', hours: 5, issues: [{ key: 'ABC-1', hours: 5 }] }] }],
+            plannedIssues: [],
+            dependencyCycles: [],
+            externalBlockers: [],
+            issueSprints: new Map([['ABC-1', '1'], ['ABC-2', '1'], ['ABC-3', '1']])
+        };
+
+        // Afgesloten issues tellen niet mee
+        assert.deepEqual(buildAllocationAlerts(planning, issues, employees), [{
+            type: 'overallocated',
+            severity: 'danger',
+            message: 'Jan Jansen heeft in sprint 1 in Jira 3 uur meer werk dan de capaciteit van 5 uur',
+            employee: 'Jan Jansen',
+            sprint: '1',
+            hours: 3,
+            issues: ['ABC-1', 'ABC-2']
+        }]);
+
+        // Zonder Jira sprints is er alleen de planning, die nooit meer dan de capaciteit boekt
+        assert.deepEqual(buildAllocationAlerts({ ...planning, issueSprints: undefined }, issues, employees), []);
+    });
+});
@@ -0,0 +1,100 @@
+import './setup.js';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCapacityCalendar, countWorkingDays, getSprintCalendar } from '../src/capacity.js';
+import { buildSprintCapacity } from '../src/planning.js';
+import type { Employee, SprintCapacity } from '../src/google-sheets.js';
+
+const employees: Employee[] = [
+    { row: 2, name: 'Jan Jansen', effectiveHours: 40, project: 'Alpha' },
+    { row: 3, name: 'Piet de Vries', effectiveHours: 32, project: 'Alpha', startDate: new Date(2025, 2, 10) },
+    { row: 4, name: 'Klaas Extern', effectiveHours: 40, project: 'Alpha', endDate: new Date(2025, 2, 5) }
+];
+
+const sheetCapacities: SprintCapacity[] = [
+    { assignee: 'Jan Jansen', capacity: 60, sprintId: 2 },
+    { assignee: 'Onbekend', capacity: 80, sprintId: 1 }
+];
+
+describe('capaciteitskalender', () => {
+    beforeEach(() => {
+        process.env.SPRINT_START_DATE = '2025-03-03';
+    });
+
+    afterEach(() => {
+        delete process.env.SPRINT_START_DATE;
+    });
+
+    it('telt alleen werkdagen', () => {
+        assert.equal(countWorkingDays(new Date(2025, 2, 3), new Date(2025, 2, 16)), 10);
+        assert.equal(countWorkingDays(new Date(2025, 2, 8), new Date(2025, 2, 9)), 0);
+        assert.equal(countWorkingDays(new Date(2025, 2, 10), new Date(2025, 2, 3)), 0);
+    });
+
+    it('bepaalt de sprintdatums vanaf de startdatum van sprint 1', () => {
+        assert.deepEqual(getSprintCalendar([1, 3]), [
+            { sprintId: 1, startDate: new Date(2025, 2, 3), endDate: new Date(2025, 2, 16) },
+            { sprintId: 3, startDate: new Date(2025, 2, 31), endDate: new Date(2025, 3, 13) }
+        ]);
+    });
+
+    it('berekent de capaciteit uit de werkdagen in dienst en gebruikt de sheet waar die een regel heeft', () => {
+        const entries = buildCapacityCalendar(employees, sheetCapacities);
+
+        assert.deepEqual(entries, [
+            { employee: 'Jan Jansen', sprintId: 1, capacity: 80, source: 'calculated' },
+            { employee: 'Jan Jansen', sprintId: 2, capacity: 60, source: 'sheet' },
+            { employee: 'Piet de Vries', sprintId: 1, capacity: 32, source: 'calculated' },
+            { employee: 'Piet de Vries', sprintId: 2, capacity: 64, source: 'calculated' },
+            { employee: 'Klaas Extern', sprintId: 1, capacity: 24, source: 'calculated' },
+            { employee: 'Klaas Extern', sprintId: 2, capacity: 0, source: 'calculated' }
+        ]);
+    });
+
+    it('geeft sprints die al voorbij zijn geen capaciteit meer', () => {
+        const capacity = buildSprintCapacity('Alpha', employees, [
+            { assignee: 'Jan Jansen', capacity: 60, sprintId: 1 },
+            { assignee: 'Jan Jansen', capacity: 60, sprintId: 2 },
+            { assignee: 'Jan Jansen', capacity: 60, sprintId: 3 }
+        ], [], [], new Date(2025, 2, 17));
+
+        // Sprint 1 liep tot en met 16 maart; sprint 2 begint vandaag
+        assert.deepEqual(Array.from(new Set(capacity.map(entry => entry.sprint))), ['2', '3']);
+
+        // Zonder sprintdatums is niet bekend welke sprints voorbij zijn
+        delete process.env.SPRINT_START_DATE;
+        assert.equal(buildSprintCapacity('Alpha', employees, [{ assignee: 'Jan Jansen', capacity: 60, sprintId: 1 }], [], [], new Date(2030, 0, 1)).length, 3);
+    });
+
+    it('trekt verlof af van de berekende capaciteit', () => {
+        const leave = [{ employee: 'Jan Jansen', startDate: new Date(2025, 2, 7), endDate: new Date(2025, 2, 10), description: 'Verlof' }];
+
+        const entries = buildCapacityCalendar(employees.slice(0, 1), [], leave, [1]);
+        assert.deepEqual(entries, [{ employee: 'Jan Jansen', sprintId: 1, capacity: 64, source: 'calculated' }]);
+    });
+
+    it('trekt verlof ook af van de capaciteit uit de sheet', () => {
+        const leave = [{ employee: 'Jan Jansen', startDate: new Date(2025, 2, 7), endDate: new Date(2025, 2, 10), description: 'Verlof' }];
+        const sheet = [{ assignee: 'Jan Jansen', capacity: 60, sprintId: 1 }, { assignee: 'Jan Jansen', capacity: 10, sprintId: 2 }];
+
+        // Sprint 1 bevat twee verlofdagen; in sprint 2 blijft er na verlof niets over
+        const longLeave = [...leave, { employee: 'Jan Jansen', startDate: new Date(2025, 2, 17), endDate: new Date(2025, 2, 18), description: 'Verlof' }];
+        assert.deepEqual(buildCapacityCalendar(employees.slice(0, 1), sheet, longLeave, [1, 2]), [
+            { employee: 'Jan Jansen', sprintId: 1, capacity: 44, source: 'sheet' },
+            { employee: 'Jan Jansen', sprintId: 2, capacity: 0, source: 'sheet' }
+        ]);
+
+        // Zonder sprintdatums is niet bekend op welke dagen het verlof valt
+        delete process.env.SPRINT_START_DATE;
+        assert.deepEqual(buildCapacityCalendar(employees.slice(0, 1), sheet, leave, [1]), [
+            { employee: 'Jan Jansen', sprintId: 1, capacity: 60, source: 'sheet' }
+        ]);
+    });
+
+    it('rekent zonder sprintdatums met hele sprints', () => {
+        delete process.env.SPRINT_START_DATE;
+
+        const entries = buildCapacityCalendar(employees.slice(1, 2), [], [], [1]);
+        assert.deepEqual(entries, [{ employee: 'Piet de Vries', sprintId: 1, capacity: 64, source: 'calculated' }]);
+    });
+});
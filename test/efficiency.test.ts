@@ -0,0 +1,95 @@
+import './setup.js';
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateEfficiencyFromIssues, buildEfficiencyTrend, getTrendBuckets, toTrendChartData } from '../src/efficiency.js';
+import type { Issue } from '../src/types.js';
+import { makeIssue } from './issues.js';
+
+const issues: Issue[] = [
+    makeIssue('AAA-1', { assignee: 'Jan Jansen', estimateHours: 4, resolved: '2025-03-05', worklogs: [['Jan Jansen', 3]] }),
+    makeIssue('AAA-2', { assignee: 'Jan Jansen', estimateHours: 2, resolved: '2025-03-20', worklogs: [['Jan Jansen', 2], ['Piet de Vries', 2]] }),
+    makeIssue('BBB-1', { assignee: 'Piet de Vries', estimateHours: 4, resolved: '2025-04-02', worklogs: [['Piet de Vries', 6]] })
+];
+
+describe('efficiëntie', () => {
+    afterEach(() => {
+        delete process.env.SPRINT_START_DATE;
+    });
+
+    it('berekent de normale en zuivere efficiëntie per medewerker', () => {
+        const { normal, pure } = calculateEfficiencyFromIssues(issues, 'assignee');
+
+        assert.deepEqual(normal.map(row => [row.employee, row.estimatedHours, row.loggedHours, row.numberOfIssues, row.efficiency]), [
+            ['Jan Jansen', 6, 5, 2, 83.3],
+            ['Piet de Vries', 4, 6, 1, 150]
+        ]);
+        // AAA-2 heeft worklogs van twee medewerkers en telt niet mee in de zuivere efficiëntie
+        assert.deepEqual(pure.map(row => [row.employee, row.estimatedHours, row.loggedHours, row.numberOfIssues, row.efficiency]), [
+            ['Jan Jansen', 4, 3, 1, 75],
+            ['Piet de Vries', 4, 6, 1, 150]
+        ]);
+    });
+
+    it('verdeelt de schatting van een gedeeld issue over de medewerkers', () => {
+        const shared = [makeIssue('AAA-3', { assignee: 'Jan Jansen', estimateHours: 6, resolved: '2025-03-05', worklogs: [['Jan Jansen', 1], ['Piet de Vries', 5]] })];
+        const rows = (mode: 'assignee' | 'proportional' | 'equal') => calculateEfficiencyFromIssues(shared, mode).normal
+            .map(row => [row.employee, row.estimatedHours, row.loggedHours, row.numberOfIssues, row.efficiency]);
+
+        assert.deepEqual(rows('assignee'), [['Jan Jansen', 6, 1, 1, 16.7], ['Piet de Vries', 0, 0, 0, 0]]);
+        assert.deepEqual(rows('proportional'), [['Jan Jansen', 1, 1, 1, 100], ['Piet de Vries', 5, 5, 1, 100]]);
+        assert.deepEqual(rows('equal'), [['Jan Jansen', 3, 1, 1, 33.3], ['Piet de Vries', 3, 5, 1, 166.7]]);
+
+        // Standaard naar verhouding van de gelogde uren
+        const result = calculateEfficiencyFromIssues(issues);
+        assert.equal(result.attribution, 'proportional');
+        assert.deepEqual(result.normal.map(row => [row.employee, row.estimatedHours, row.loggedHours, row.numberOfIssues]), [
+            ['Jan Jansen', 5, 5, 2],
+            ['Piet de Vries', 5, 8, 2]
+        ]);
+    });
+
+    it('verdeelt een periode in weken, maanden en sprints', () => {
+        assert.deepEqual(getTrendBuckets(new Date(2025, 2, 5), new Date(2025, 2, 18), 'week'), [
+            { label: '2025-W10', startDate: '2025-03-05', endDate: '2025-03-09' },
+            { label: '2025-W11', startDate: '2025-03-10', endDate: '2025-03-16' },
+            { label: '2025-W12', startDate: '2025-03-17', endDate: '2025-03-18' }
+        ]);
+        assert.deepEqual(getTrendBuckets(new Date(2025, 0, 15), new Date(2025, 1, 28), 'month').map(bucket => bucket.label), ['2025-01', '2025-02']);
+
+        assert.throws(() => getTrendBuckets(new Date(2025, 2, 10), new Date(2025, 3, 1), 'sprint'), /SPRINT_START_DATE/);
+        process.env.SPRINT_START_DATE = '2025-03-03';
+        assert.deepEqual(getTrendBuckets(new Date(2025, 2, 10), new Date(2025, 3, 1), 'sprint'), [
+            { label: 'Sprint 1', startDate: '2025-03-10', endDate: '2025-03-16' },
+            { label: 'Sprint 2', startDate: '2025-03-17', endDate: '2025-03-30' },
+            { label: 'Sprint 3', startDate: '2025-03-31', endDate: '2025-04-01' }
+        ]);
+
+        // Met de Jira sprintkalender loopt een sprint tot de start van de volgende
+        assert.deepEqual(getTrendBuckets(new Date(2025, 2, 10), new Date(2025, 3, 1), 'sprint', [
+            { sprintId: 1, startDate: new Date(2025, 2, 3), endDate: new Date(2025, 2, 14), name: 'ABC Sprint 1' },
+            { sprintId: 2, startDate: new Date(2025, 2, 19), endDate: new Date(2025, 3, 1), name: 'ABC Sprint 2' }
+        ]), [
+            { label: 'ABC Sprint 1', startDate: '2025-03-10', endDate: '2025-03-18' },
+            { label: 'ABC Sprint 2', startDate: '2025-03-19', endDate: '2025-04-01' }
+        ]);
+    });
+
+    it('berekent de efficiëntie per periode, medewerker en project', () => {
+        const trend = buildEfficiencyTrend(issues, new Date(2025, 2, 1), new Date(2025, 3, 30), 'month', new Map([['AAA', 'Alpha']]), 'assignee');
+
+        assert.deepEqual(trend.buckets.map(bucket => bucket.label), ['2025-03', '2025-04']);
+        assert.deepEqual(trend.employees.map(line => [line.name, line.points.map(point => [point.efficiency, point.pureEfficiency])]), [
+            ['Jan Jansen', [[83.3, 75], [null, null]]],
+            // Piet heeft in maart alleen gelogd op een issue van Jan
+            ['Piet de Vries', [[null, null], [150, 150]]]
+        ]);
+        assert.deepEqual(trend.projects.map(line => [line.name, line.points.map(point => point.efficiency)]), [
+            ['Alpha', [83.3, null]],
+            ['BBB', [null, 150]]
+        ]);
+        assert.deepEqual(toTrendChartData(trend, trend.projects, true), {
+            labels: ['2025-03', '2025-04'],
+            datasets: [{ label: 'Alpha', data: [75, null] }, { label: 'BBB', data: [null, 150] }]
+        });
+    });
+});
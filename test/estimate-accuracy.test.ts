@@ -0,0 +1,55 @@
+import './setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildEstimateAccuracyReport, getSizeBand } from '../src/estimate-accuracy.js';
+import { makeIssue } from './issues.js';
+
+describe('nauwkeurigheid van schattingen', () => {
+    const report = buildEstimateAccuracyReport([
+        makeIssue('ABC-1', { issueType: 'Story', assignee: 'Jan Jansen', estimateHours: 2, worklogs: [['Jan Jansen', 1], ['Jan Jansen', 1]] }),
+        makeIssue('ABC-2', { issueType: 'Story', assignee: 'Jan Jansen', estimateHours: 8, worklogs: [['Jan Jansen', 4]] }),
+        makeIssue('ABC-3', { issueType: 'Bug', assignee: 'Jan Jansen', estimateHours: 4, worklogs: [['Jan Jansen', 12]] }),
+        makeIssue('ABC-4', { issueType: 'Story', assignee: 'Jan Jansen', estimateHours: 20, worklogs: [['Jan Jansen', 25]] }),
+        makeIssue('XYZ-1', { issueType: 'Bug', assignee: 'Jan Jansen', estimateHours: 16, worklogs: [['Jan Jansen', 16]] }),
+        makeIssue('XYZ-2', { issueType: 'Bug', assignee: 'Jan Jansen', estimateHours: 0, worklogs: [['Jan Jansen', 3]] })
+    ], '2025-03-01', '2025-03-31', new Map([['ABC', 'Alpha']]), 2);
+
+    it('deelt schattingen in grootteklassen in', () => {
+        assert.equal(getSizeBand(3.9), '< 4 uur');
+        assert.equal(getSizeBand(4), '4 - 16 uur');
+        assert.equal(getSizeBand(16), '4 - 16 uur');
+        assert.equal(getSizeBand(16.5), '> 16 uur');
+    });
+
+    it('berekent mediaan, spreiding en verdeling van gelogd / geschat', () => {
+        assert.deepEqual(report.overall, {
+            name: 'Totaal',
+            issues: 5,
+            estimatedHours: 50,
+            loggedHours: 59,
+            median: 1,
+            p25: 1,
+            p75: 1.25,
+            min: 0.5,
+            max: 3,
+            distribution: [
+                { label: '< 0,5', count: 0 },
+                { label: '0,5 - 0,8', count: 1 },
+                { label: '0,8 - 1,2', count: 2 },
+                { label: '1,2 - 2', count: 1 },
+                { label: '>= 2', count: 1 }
+            ]
+        });
+        assert.deepEqual(report.bySize.map(group => [group.name, group.issues]), [['< 4 uur', 1], ['4 - 16 uur', 3], ['> 16 uur', 1]]);
+        assert.deepEqual(report.byIssueType.map(group => [group.name, group.median]), [['Bug', 2], ['Story', 1]]);
+        assert.deepEqual(report.byProject.map(group => group.name), ['Alpha', 'XYZ']);
+    });
+
+    it('noemt de grootste afwijkingen en de issues zonder schatting', () => {
+        // De helft van de schatting weegt even zwaar als het dubbele; drie keer de schatting het zwaarst
+        assert.deepEqual(report.outliers.map(outlier => [outlier.key, outlier.ratio]), [['ABC-3', 3], ['ABC-2', 0.5]]);
+        assert.deepEqual(report.unestimated, [
+            { key: 'XYZ-2', summary: 'Issue XYZ-2', project: 'XYZ', issueType: 'Bug', assignee: 'Jan Jansen', loggedHours: 3 }
+        ]);
+    });
+});
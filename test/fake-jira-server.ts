@@ -0,0 +1,282 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Declaratieve beschrijving van de inhoud van de nep Jira
+export interface FakeJiraWorklog {
+    id: string;
+    author: string;
+    started: string;
+    timeSpentSeconds: number;
+    comment?: string;
+    // Tijdstip van de laatste wijziging voor /worklog/updated; standaard het starttijdstip
+    updated?: string;
+}
+
+export interface FakeJiraIssue {
+    id: string;
+    key: string;
+    fields: Record<string, any>;
+    worklogs?: FakeJiraWorklog[];
+    // Wordt alleen meegestuurd met expand=changelog
+    changelog?: { histories: { created: string; items: { field: string; fromString?: string; toString: string }[] }[] };
+}
+
+export interface FakeJiraSprint {
+    id: number;
+    boardId: number;
+    name: string;
+    state: 'future' | 'active' | 'closed';
+    startDate?: string;
+    endDate?: string;
+    completeDate?: string;
+}
+
+export interface FakeJiraFixture {
+    issues: FakeJiraIssue[];
+    boards?: { id: number; name: string; projectKey: string }[];
+    sprints?: FakeJiraSprint[];
+    // Vaste zoekresultaten (issue keys) voor JQL queries die de eenvoudige JQL interpretatie niet aankan
+    searches?: Record<string, string[]>;
+    // Verwijderde worklogs voor /worklog/deleted, met het tijdstip van verwijderen
+    deletedWorklogs?: { id: string; deleted: string }[];
+    // Requests die met een HTTP fout beantwoord worden
+    errors?: { path: string; status: number }[];
+}
+
+export interface FakeJiraOptions {
+    // Maximaal aantal resultaten per pagina, ongeacht de gevraagde maxResults (zoals Jira Cloud ook doet)
+    maxResults?: number;
+    // Maximaal aantal histories in de changelog bij expand=changelog; Jira geeft dan alleen de laatste
+    maxChangelogResults?: number;
+}
+
+export interface FakeJiraRequest {
+    method: string;
+    path: string;
+    query: Record<string, any>;
+    body?: any;
+}
+
+export interface FakeJiraServer {
+    // Base URL voor de jiraClient, inclusief /rest/api/2
+    baseURL: string;
+    url: string;
+    requests: FakeJiraRequest[];
+    close(): Promise<void>;
+}
+
+export function loadFixture(name: string): FakeJiraFixture {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', `${name}.json`), 'utf-8'));
+}
+
+function normalizeJql(jql: string): string {
+    return jql.replace(/\s+/g, ' ').trim();
+}
+
+function parseList(list: string): string[] {
+    return list.split(',').map(item => item.trim().replace(/^"|"$/g, '')).filter(Boolean);
+}
+
+// Eenvoudige JQL interpretatie: project = X, project in (...), key in (...), id in (...) en
+// worklogDate >= / <= "yyyy-mm-dd". Alle andere voorwaarden worden genegeerd.
+function searchIssues(fixture: FakeJiraFixture, jql: string): FakeJiraIssue[] | null {
+    const fixed = fixture.searches?.[normalizeJql(jql)];
+    if (fixed) {
+        return fixed.map(key => {
+            const issue = fixture.issues.find(candidate => candidate.key === key);
+            if (!issue) {
+                throw new Error(`Onbekend issue ${key} in searches fixture`);
+            }
+            return issue;
+        });
+    }
+
+    const projects = [
+        ...Array.from(jql.matchAll(/project\s*=\s*"?([A-Z0-9]+)"?/gi), match => match[1]),
+        ...Array.from(jql.matchAll(/project\s+in\s*\(([^)]*)\)/gi), match => parseList(match[1])).flat()
+    ];
+    const keys = Array.from(jql.matchAll(/(?:issue)?key\s+in\s*\(([^)]*)\)/gi), match => parseList(match[1])).flat();
+    const ids = Array.from(jql.matchAll(/\bid\s+in\s*\(([^)]*)\)/gi), match => parseList(match[1])).flat();
+    const worklogFrom = jql.match(/worklogDate\s*>=\s*"([^"]+)"/i)?.[1];
+    const worklogTo = jql.match(/worklogDate\s*<=\s*"([^"]+)"/i)?.[1];
+
+    if (projects.length === 0 && keys.length === 0 && ids.length === 0 && !worklogFrom && !worklogTo) {
+        return null;
+    }
+
+    return fixture.issues.filter(issue => {
+        const project = issue.fields.project?.key ?? issue.key.split('-')[0];
+        if (projects.length > 0 && !projects.includes(project)) {
+            return false;
+        }
+        if (keys.length > 0 && !keys.includes(issue.key)) {
+            return false;
+        }
+        if (ids.length > 0 && !ids.includes(issue.id)) {
+            return false;
+        }
+        if (worklogFrom || worklogTo) {
+            return (issue.worklogs || []).some(log => {
+                const day = log.started.slice(0, 10);
+                return (!worklogFrom || day >= worklogFrom) && (!worklogTo || day <= worklogTo);
+            });
+        }
+        return true;
+    });
+}
+
+function toJiraWorklog(issue: FakeJiraIssue, log: FakeJiraWorklog) {
+    return {
+        id: log.id,
+        issueId: issue.id,
+        author: { displayName: log.author },
+        started: log.started,
+        updated: log.updated ?? log.started,
+        timeSpentSeconds: log.timeSpentSeconds,
+        comment: log.comment
+    };
+}
+
+// Wijzigingen na `since` (ms sinds epoch) in de vorm van /worklog/updated, op volgorde van wijziging
+function changedSince(changes: { worklogId: number; updatedTime: number }[], since: number, limit: number) {
+    const values = changes
+        .filter(change => change.updatedTime > since)
+        .sort((a, b) => a.updatedTime - b.updatedTime)
+        .slice(0, limit);
+    const lastPage = values.length < limit;
+    return { values, since, until: values.length > 0 ? values[values.length - 1].updatedTime : since, lastPage };
+}
+
+function toJiraIssue(issue: FakeJiraIssue, fields?: string, expand?: string, changelogLimit = 100) {
+    const requested = fields ? fields.split(',').filter(Boolean) : [];
+    const issueFields = requested.length > 0 && !requested.includes('*all')
+        ? Object.fromEntries(Object.entries(issue.fields).filter(([name]) => requested.includes(name)))
+        : { ...issue.fields };
+    const histories = issue.changelog?.histories ?? [];
+    const changelog = (expand || '').split(',').includes('changelog')
+        ? { changelog: { startAt: 0, maxResults: changelogLimit, total: histories.length, histories: histories.slice(-changelogLimit) } }
+        : {};
+    return { id: issue.id, key: issue.key, fields: issueFields, ...changelog };
+}
+
+function page<T>(items: T[], query: Record<string, any>, limit: number) {
+    const startAt = parseInt(query.startAt ?? '0', 10) || 0;
+    const maxResults = Math.min(parseInt(query.maxResults ?? String(limit), 10) || limit, limit);
+    return { startAt, maxResults, total: items.length, values: items.slice(startAt, startAt + maxResults) };
+}
+
+// Start een nep Jira REST server op een vrije poort, met de endpoints die de applicatie gebruikt
+export async function startFakeJiraServer(fixture: FakeJiraFixture, options: FakeJiraOptions = {}): Promise<FakeJiraServer> {
+    const limit = options.maxResults ?? 50;
+    const changelogLimit = options.maxChangelogResults ?? 100;
+    const requests: FakeJiraRequest[] = [];
+    const app = express();
+    app.use(express.json());
+
+    app.use((req, res, next) => {
+        requests.push({ method: req.method, path: req.path, query: req.query, body: req.body });
+        const error = fixture.errors?.find(candidate => candidate.path === req.path);
+        if (error) {
+            return res.status(error.status).json({ errorMessages: [`Fout ingesteld voor ${req.path}`] });
+        }
+        next();
+    });
+
+    app.get('/rest/api/2/search', (req: Request, res: Response) => {
+        const jql = String(req.query.jql || '');
+        const issues = searchIssues(fixture, jql);
+        if (!issues) {
+            return res.status(400).json({ errorMessages: [`JQL wordt niet ondersteund door de nep Jira: ${jql}`] });
+        }
+        const { startAt, maxResults, total, values } = page(issues, req.query, limit);
+        res.json({ startAt, maxResults, total, issues: values.map(issue => toJiraIssue(issue, req.query.fields as string, req.query.expand as string, changelogLimit)) });
+    });
+
+    app.get('/rest/api/2/issue/:key/changelog', (req: Request, res: Response) => {
+        const issue = fixture.issues.find(candidate => candidate.key === req.params.key || candidate.id === req.params.key);
+        if (!issue) {
+            return res.status(404).json({ errorMessages: ['Issue does not exist or you do not have permission to see it.'] });
+        }
+        const { startAt, maxResults, total, values } = page(issue.changelog?.histories ?? [], req.query, limit);
+        res.json({ startAt, maxResults, total, isLast: startAt + values.length >= total, values });
+    });
+
+    app.get('/rest/api/2/issue/:key/worklog', (req: Request, res: Response) => {
+        const issue = fixture.issues.find(candidate => candidate.key === req.params.key || candidate.id === req.params.key);
+        if (!issue) {
+            return res.status(404).json({ errorMessages: ['Issue does not exist or you do not have permission to see it.'] });
+        }
+        const worklogs = (issue.worklogs || []).map(log => toJiraWorklog(issue, log));
+        const { startAt, maxResults, total, values } = page(worklogs, req.query, limit);
+        res.json({ startAt, maxResults, total, worklogs: values });
+    });
+
+    const allWorklogs = () => fixture.issues.flatMap(issue => (issue.worklogs || []).map(log => toJiraWorklog(issue, log)));
+
+    app.get('/rest/api/2/worklog/updated', (req: Request, res: Response) => {
+        const changes = allWorklogs().map(log => ({ worklogId: Number(log.id), updatedTime: new Date(log.updated).getTime() }));
+        res.json(changedSince(changes, Number(req.query.since) || 0, limit));
+    });
+
+    app.get('/rest/api/2/worklog/deleted', (req: Request, res: Response) => {
+        const changes = (fixture.deletedWorklogs || []).map(log => ({ worklogId: Number(log.id), updatedTime: new Date(log.deleted).getTime() }));
+        res.json(changedSince(changes, Number(req.query.since) || 0, limit));
+    });
+
+    app.post('/rest/api/2/worklog/list', (req: Request, res: Response) => {
+        const ids = ((req.body?.ids || []) as (string | number)[]).map(String);
+        res.json(allWorklogs().filter(log => ids.includes(log.id)));
+    });
+
+    app.get('/rest/agile/1.0/board', (req: Request, res: Response) => {
+        const projectKey = req.query.projectKeyOrId as string | undefined;
+        const boards = (fixture.boards || [])
+            .filter(board => !projectKey || board.projectKey === projectKey)
+            .map(board => ({ id: board.id, name: board.name, type: 'scrum', location: { projectKey: board.projectKey } }));
+        const { startAt, maxResults, total, values } = page(boards, req.query, limit);
+        res.json({ startAt, maxResults, total, isLast: startAt + values.length >= total, values });
+    });
+
+    app.get('/rest/agile/1.0/board/:boardId/sprint', (req: Request, res: Response) => {
+        const states = req.query.state ? String(req.query.state).split(',') : undefined;
+        const sprints = (fixture.sprints || [])
+            .filter(sprint => sprint.boardId === Number(req.params.boardId))
+            .filter(sprint => !states || states.includes(sprint.state))
+            .map(sprint => ({ ...sprint, originBoardId: sprint.boardId }));
+        const { startAt, maxResults, values } = page(sprints, req.query, limit);
+        res.json({ startAt, maxResults, isLast: startAt + values.length >= sprints.length, values });
+    });
+
+    app.get('/rest/agile/1.0/sprint/:sprintId/issue', (req: Request, res: Response) => {
+        const sprintId = Number(req.params.sprintId);
+        const issues = fixture.issues.filter(issue =>
+            (issue.fields.customfield_10020 || []).some((sprint: { id: number | string }) => Number(sprint.id) === sprintId)
+        );
+        const { startAt, maxResults, total, values } = page(issues, req.query, limit);
+        res.json({ startAt, maxResults, total, issues: values.map(issue => toJiraIssue(issue, req.query.fields as string)) });
+    });
+
+    app.use((req: Request, res: Response) => {
+        res.status(404).json({ errorMessages: [`Endpoint niet beschikbaar in de nep Jira: ${req.method} ${req.path}`] });
+    });
+
+    const server: Server = await new Promise(resolve => {
+        const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        url,
+        baseURL: `${url}/rest/api/2`,
+        requests,
+        close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+    };
+}
@@ -0,0 +1,107 @@
+import './setup.js';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startFakeJiraServer, loadFixture } from './fake-jira-server.js';
+import type { FakeJiraServer } from './fake-jira-server.js';
+import { jiraClient, getIssuesWithChangelog } from '../src/jira.js';
+import { buildFlowReport, calculateFlowStatistics, calculateIssueFlow } from '../src/flow-metrics.js';
+import { makeIssue } from './issues.js';
+
+describe('doorlooptijden', () => {
+    let jira: FakeJiraServer;
+
+    before(async () => {
+        jira = await startFakeJiraServer(loadFixture('jira-basic'));
+        jiraClient.defaults.baseURL = jira.baseURL;
+    });
+
+    after(() => jira.close());
+
+    it('berekent lead time, cycle time en tijd per status uit de changelog', async () => {
+        const issues = await getIssuesWithChangelog('project = ABC');
+        assert.equal(jira.requests.find(request => request.path.endsWith('/search'))?.query.expand, 'changelog');
+
+        // Alleen ABC-3 is opgelost
+        const report = buildFlowReport(issues, new Date(2025, 2, 1), new Date(2025, 2, 31));
+        assert.deepEqual(report.issues, [{
+            key: 'ABC-3',
+            project: 'ABC',
+            issueType: 'Bug',
+            assignee: 'Piet de Vries',
+            created: '2025-03-03',
+            resolved: '2025-03-13',
+            leadTimeDays: 10,
+            cycleTimeDays: 8,
+            timeInStatus: { Open: 2, 'In Progress': 5, Review: 3 }
+        }]);
+        assert.deepEqual(report.byAssignee.map(group => [group.name, group.issues, group.cycleTime.p50]), [['Piet de Vries', 1, 8]]);
+    });
+
+    it('haalt de volledige changelog op als Jira die bij de zoekopdracht afkapt', async () => {
+        const truncating = await startFakeJiraServer(loadFixture('jira-basic'), { maxResults: 2, maxChangelogResults: 1 });
+        jiraClient.defaults.baseURL = truncating.baseURL;
+        try {
+            const issues = await getIssuesWithChangelog('project = ABC');
+            const abc3 = issues.find(candidate => candidate.key === 'ABC-3')!;
+
+            assert.deepEqual(abc3.changelog?.histories.map(history => history.created), [
+                '2025-03-05T09:00:00.000+0100',
+                '2025-03-10T09:00:00.000+0100',
+                '2025-03-13T09:00:00.000+0100'
+            ]);
+            assert.deepEqual(
+                truncating.requests.filter(request => request.path === '/rest/api/2/issue/ABC-3/changelog').map(request => request.query.startAt),
+                ['0', '2']
+            );
+            assert.equal(calculateIssueFlow(abc3)?.cycleTimeDays, 8);
+        } finally {
+            jiraClient.defaults.baseURL = jira.baseURL;
+            await truncating.close();
+        }
+    });
+
+    it('negeert overgangen na het oplossen en issues die nooit In Progress waren', () => {
+        const reopened = makeIssue('ABC-10', { issueType: 'Story', fields: { created: '2025-03-03T09:00:00.000Z', resolutiondate: '2025-03-04T09:00:00.000Z' }, transitions: [
+            ['2025-03-04T09:00:00.000Z', 'Open', 'Closed'],
+            ['2025-03-06T09:00:00.000Z', 'Closed', 'In Progress']
+        ] });
+
+        assert.deepEqual(calculateIssueFlow(reopened), {
+            key: 'ABC-10',
+            project: 'ABC',
+            issueType: 'Story',
+            assignee: 'Niet toegewezen',
+            created: '2025-03-03',
+            resolved: '2025-03-04',
+            leadTimeDays: 1,
+            cycleTimeDays: null,
+            timeInStatus: { Open: 1 }
+        });
+        assert.equal(calculateIssueFlow(makeIssue('ABC-11', { issueType: 'Story', fields: { created: '2025-03-03T09:00:00.000Z' }, transitions: [] })), null);
+    });
+
+    it('berekent percentielen per groep', () => {
+        assert.deepEqual(calculateFlowStatistics([4, 1, 3, 2, 10]), { count: 5, average: 4, p50: 3, p85: 6.4, p95: 8.8 });
+        assert.deepEqual(calculateFlowStatistics([]), { count: 0, average: 0, p50: 0, p85: 0, p95: 0 });
+
+        const report = buildFlowReport([
+            makeIssue('ABC-20', { issueType: 'Story', fields: { created: '2025-03-03T09:00:00.000Z' }, transitions: [
+                ['2025-03-04T09:00:00.000Z', 'Open', 'In Progress'],
+                ['2025-03-07T09:00:00.000Z', 'In Progress', 'Closed']
+            ] }),
+            makeIssue('ABC-21', { issueType: 'Bug', fields: { created: '2025-03-03T09:00:00.000Z' }, transitions: [
+                ['2025-03-04T09:00:00.000Z', 'Open', 'In Progress'],
+                ['2025-03-05T09:00:00.000Z', 'In Progress', 'Closed']
+            ] })
+        ], new Date(2025, 2, 1), new Date(2025, 2, 31));
+
+        assert.deepEqual(report.byProject, [{
+            name: 'ABC',
+            issues: 2,
+            leadTime: { count: 2, average: 3, p50: 3, p85: 3.7, p95: 3.9 },
+            cycleTime: { count: 2, average: 2, p50: 2, p85: 2.7, p95: 2.9 },
+            timeInStatus: { Open: 1, 'In Progress': 2 }
+        }]);
+        assert.deepEqual(report.byIssueType.map(group => group.name), ['Bug', 'Story']);
+    });
+});
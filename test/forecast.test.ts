@@ -0,0 +1,106 @@
+import './setup.js';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildProjectForecast, getEfficiencyFactors, getHistoricalRatios, simulateProjectForecast } from '../src/forecast.js';
+import type { SprintCapacity } from '../src/planning.js';
+import type { EfficiencyData } from '../src/types.js';
+import { makeIssue, makePlanningIssue } from './issues.js';
+
+const efficiency = (employee: string, estimatedHours: number, loggedHours: number): EfficiencyData => ({
+    employee,
+    estimatedHours,
+    loggedHours,
+    efficiency: loggedHours / estimatedHours * 100,
+    totalHours: 0,
+    nonWorkingHours: 0,
+    nonIssueHours: 0,
+    numberOfIssues: 1
+});
+
+const sprintCapacity: SprintCapacity[] = ['Jan Jansen', 'Piet de Vries'].flatMap(employee =>
+    ['1', '2', '3'].map(sprint => ({ employee, sprint, capacity: 10, project: 'Alpha' }))
+);
+
+const login = { key: 'ABC-100', summary: 'Login' };
+
+describe('prognose resterend werk', () => {
+    beforeEach(() => {
+        process.env.SPRINT_START_DATE = '2025-03-03';
+    });
+
+    afterEach(() => {
+        delete process.env.SPRINT_START_DATE;
+    });
+
+    it('gebruikt de efficiëntie van de medewerker en anders die van het team', () => {
+        const { teamFactor, factors } = getEfficiencyFactors([
+            efficiency('Jan Jansen', 10, 30),
+            efficiency('Kees Klaassen', 10, 10),
+            { ...efficiency('Geen Schatting', 1, 0), estimatedHours: 0 }
+        ]);
+
+        assert.equal(teamFactor, 2);
+        assert.deepEqual(Array.from(factors.entries()), [['Jan Jansen', 3], ['Kees Klaassen', 1]]);
+        assert.equal(getEfficiencyFactors([]).teamFactor, 1);
+    });
+
+    it('voorspelt de laatste sprint per project en per epic, met en zonder efficiëntie correctie', () => {
+        const forecast = buildProjectForecast('Alpha', [
+            makePlanningIssue('ABC-1', 'Jan Jansen', 12, { epic: login }),
+            makePlanningIssue('ABC-2', 'Piet de Vries', 8, { epic: login }),
+            makePlanningIssue('ABC-3', 'Piet de Vries', 4)
+        ], sprintCapacity, [efficiency('Jan Jansen', 10, 30), efficiency('Kees Klaassen', 10, 10)]);
+
+        assert.deepEqual(forecast.baseline, { remainingHours: 24, finishSprint: '2', finishDate: '2025-03-30' });
+        // Jan heeft 36 uur nodig en dat past niet in de drie sprints
+        assert.deepEqual(forecast.corrected, { remainingHours: 60, finishSprint: 'Niet gepland', finishDate: null });
+
+        assert.deepEqual(forecast.epics.map(epic => [epic.name, epic.summary, epic.issues, epic.baseline.finishSprint, epic.corrected.finishSprint]), [
+            ['ABC-100', 'Login', 2, '2', 'Niet gepland'],
+            ['Zonder epic', undefined, 1, '2', '3']
+        ]);
+        assert.equal(forecast.epics[1].corrected.finishDate, '2025-04-13');
+
+        assert.deepEqual(forecast.factors, [
+            { employee: 'Jan Jansen', factor: 3, source: 'employee' },
+            { employee: 'Piet de Vries', factor: 2, source: 'team' }
+        ]);
+    });
+
+    it('haalt de verhouding gelogd / geschat uit afgesloten issues', () => {
+        const closed = (key: string, estimateHours: number, loggedHours: number[]) =>
+            makeIssue(key, { estimateHours, worklogs: loggedHours.map(hours => ['Jan Jansen', hours]) });
+
+        // Issues zonder schatting of zonder gelogde uren tellen niet mee
+        assert.deepEqual(getHistoricalRatios([closed('ABC-1', 4, [2, 4]), closed('ABC-2', 0, [3]), closed('ABC-3', 8, [])]), [1.5]);
+        // Alleen de afgesloten issues van de projecten van het team
+        assert.deepEqual(getHistoricalRatios([closed('ABC-1', 4, [2, 4]), closed('DEF-1', 4, [2])], ['ABC']), [1.5]);
+    });
+
+    it('berekent P50, P85 en P95 over de simulaties', () => {
+        // Om de beurt krijgen alle issues in een simulatie de verhouding 1 of 3
+        const values = [0, 0, 0, 0.9, 0.9, 0.9];
+        let call = 0;
+        const simulation = simulateProjectForecast('Alpha', [
+            makePlanningIssue('ABC-1', 'Jan Jansen', 12, { epic: login }),
+            makePlanningIssue('ABC-2', 'Piet de Vries', 8, { epic: login }),
+            makePlanningIssue('ABC-3', 'Piet de Vries', 4)
+        ], sprintCapacity, [1, 3], { runs: 4, random: () => values[call++ % values.length] });
+
+        assert.deepEqual([simulation.p50, simulation.p85, simulation.p95], [
+            { finishSprint: '2', finishDate: '2025-03-30' },
+            { finishSprint: 'Niet gepland', finishDate: null },
+            { finishSprint: 'Niet gepland', finishDate: null }
+        ]);
+        assert.deepEqual(simulation.distribution, [
+            { sprint: '1', probability: 0, cumulative: 0 },
+            { sprint: '2', probability: 50, cumulative: 50 },
+            { sprint: '3', probability: 0, cumulative: 50 },
+            { sprint: 'Niet gepland', probability: 50, cumulative: 100 }
+        ]);
+        assert.deepEqual(simulation.epics.map(epic => [epic.name, epic.p50.finishSprint]), [['ABC-100', '2'], ['Zonder epic', '2']]);
+        assert.equal(simulation.samples, 2);
+
+        assert.throws(() => simulateProjectForecast('Alpha', [], sprintCapacity, []), /Geen afgesloten issues/);
+    });
+});
@@ -0,0 +1,63 @@
+import type { Issue, JiraIssue } from '../src/types.js';
+
+// Beschrijving van een issue voor de tests, met uren in plaats van seconden
+export interface TestIssue {
+    assignee?: string | null;
+    // Resterende schatting in uren
+    hours?: number;
+    // Originele schatting in uren
+    estimateHours?: number;
+    priority?: string;
+    status?: string;
+    issueType?: string;
+    // Parent issue; met samenvatting zoals een epic in de zoekresultaten
+    epic?: string | { key: string; summary: string };
+    // Dag waarop het issue is opgelost (yyyy-mm-dd); de worklogs vallen op dezelfde dag
+    resolved?: string;
+    // Auteur en uren per worklog
+    worklogs?: [string, number][];
+    // Statusovergangen als [datum, van, naar], voor de changelog
+    transitions?: [string, string, string][];
+    // Overige velden, zoals Jira ze teruggeeft
+    fields?: Issue['fields'];
+}
+
+// Issue zoals de zoekopdracht het teruggeeft; het project is het deel van de key voor het streepje
+export function makeIssue(key: string, issue: TestIssue = {}): Issue {
+    const projectKey = key.split('-')[0];
+    const started = `${issue.resolved || '2025-03-03'}T09:00:00.000+0100`;
+
+    return {
+        key,
+        fields: {
+            summary: `Issue ${key}`,
+            project: { key: projectKey, name: projectKey },
+            ...(issue.assignee ? { assignee: { displayName: issue.assignee } } : {}),
+            ...(issue.hours !== undefined ? { timeestimate: issue.hours * 3600 } : {}),
+            ...(issue.estimateHours !== undefined ? { timeoriginalestimate: issue.estimateHours * 3600 } : {}),
+            ...(issue.priority ? { priority: { name: issue.priority } } : {}),
+            ...(issue.status ? { status: { name: issue.status } } : {}),
+            ...(issue.issueType ? { issuetype: { name: issue.issueType } } : {}),
+            ...(typeof issue.epic === 'string' ? { parent: { key: issue.epic } } : {}),
+            ...(typeof issue.epic === 'object' ? { parent: { key: issue.epic.key, fields: { summary: issue.epic.summary } } } : {}),
+            ...(issue.resolved ? { resolutiondate: `${issue.resolved}T12:00:00.000+0100` } : {}),
+            ...(issue.worklogs ? {
+                worklog: {
+                    worklogs: issue.worklogs.map(([author, hours]) => ({ author: { displayName: author }, started, timeSpentSeconds: hours * 3600 }))
+                }
+            } : {}),
+            ...issue.fields
+        },
+        ...(issue.transitions ? {
+            changelog: {
+                histories: issue.transitions.map(([created, fromString, toString]) => ({ created, items: [{ field: 'status', fromString, toString }] }))
+            }
+        } : {})
+    };
+}
+
+// Issue voor de planning, met een assignee, resterende schatting en prioriteit (standaard Medium)
+export function makePlanningIssue(key: string, assignee: string, hours: number, issue: Omit<TestIssue, 'assignee' | 'hours'> = {}): JiraIssue {
+    const { fields } = makeIssue(key, { priority: 'Medium', ...issue, assignee, hours });
+    return { key, fields: fields as JiraIssue['fields'] };
+}
@@ -0,0 +1,114 @@
+import './setup.js';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startFakeJiraServer, loadFixture } from './fake-jira-server.js';
+import type { FakeJiraServer } from './fake-jira-server.js';
+import { jiraClient, getIssuesForProject, getWorkLogsForProject, withJiraFailureTracking } from '../src/jira.js';
+import type { JiraFailure } from '../src/jira.js';
+import type { ProjectConfig } from '../src/google-sheets.js';
+
+const alpha: ProjectConfig = {
+    projectName: 'Alpha',
+    projectCodes: ['ABC'],
+    jqlFilter: '',
+    worklogName: 'Alpha',
+    worklogJql: '{projectFilter} AND {periodeFilter}'
+};
+
+describe('jira', () => {
+    let jira: FakeJiraServer;
+
+    before(async () => {
+        // Kleine pagina's, zodat de paginering van zoekresultaten en worklogs getest wordt
+        jira = await startFakeJiraServer(loadFixture('jira-basic'), { maxResults: 2 });
+        jiraClient.defaults.baseURL = jira.baseURL;
+    });
+
+    after(() => jira.close());
+
+    beforeEach(() => {
+        jira.requests.length = 0;
+    });
+
+    describe('getIssuesForProject', () => {
+        it('haalt alle pagina\'s op en koppelt de worklogs', async () => {
+            const issues = await getIssuesForProject(['ABC']);
+
+            assert.deepEqual(issues.map(issue => issue.key), ['ABC-1', 'ABC-2', 'ABC-3', 'ABC-4']);
+            assert.deepEqual(
+                jira.requests.filter(request => request.path === '/rest/api/2/search').map(request => request.query.startAt),
+                ['0', '2']
+            );
+
+            const [first, second] = issues;
+            assert.equal(first.fields?.summary, 'Login pagina');
+            assert.equal(first.fields?.assignee?.displayName, 'Jan Jansen');
+            assert.equal(first.fields?.timeestimate, 14400);
+            assert.deepEqual(first.fields?.worklog?.worklogs.map(log => log.timeSpentSeconds), [14400, 7200, 3600]);
+            assert.equal(second.fields?.issuelinks?.[0].inwardIssue?.key, 'ABC-1');
+        });
+
+        it('neemt de periode uit het worklog filter over in de JQL', async () => {
+            const issues = await getIssuesForProject(
+                ['ABC', 'XYZ'],
+                'status != Closed',
+                'worklogDate >= "2025-03-01" AND worklogDate <= "2025-03-31"'
+            );
+
+            const jql = jira.requests.find(request => request.path === '/rest/api/2/search')?.query.jql;
+            assert.equal(jql, '(project = ABC OR project = XYZ) AND status != Closed AND worklogDate >= "2025-03-01" AND worklogDate <= "2025-03-31"');
+            assert.deepEqual(issues.map(issue => issue.key), ['ABC-1', 'ABC-2', 'ABC-3', 'XYZ-1']);
+        });
+    });
+
+    describe('getWorkLogsForProject', () => {
+        it('geeft alleen de worklogs binnen de periode terug', async () => {
+            const worklogs = await getWorkLogsForProject(['ABC'], new Date('2025-03-01'), new Date('2025-03-31'), alpha);
+
+            assert.deepEqual(worklogs.map(log => log.id).sort(), ['20002', '20003', '20004', '20005', '20006']);
+
+            const log = worklogs.find(candidate => candidate.id === '20003')!;
+            assert.equal(log.issueKey, 'ABC-1');
+            assert.equal(log.issueSummary, 'Login pagina');
+            assert.equal(log.issueStatus, 'In Progress');
+            assert.equal(log.author, 'Piet de Vries');
+            assert.equal(log.timeSpentSeconds, 3600);
+
+            const unassigned = worklogs.find(candidate => candidate.id === '20004')!;
+            assert.equal(unassigned.issueAssignee, 'Onbekend');
+        });
+
+        it('vervangt de filters in het jqlFilter van het project', async () => {
+            await getWorkLogsForProject(['ABC'], new Date('2025-03-01'), new Date('2025-03-31'), {
+                ...alpha,
+                jqlFilter: '{projectFilter} AND issuetype = Bug {periodeFilter}'
+            });
+
+            const jql = jira.requests.find(request => request.path === '/rest/api/2/search')?.query.jql;
+            assert.equal(jql, 'project in ("ABC") AND issuetype = Bug ');
+        });
+
+        it('registreert mislukte worklog requests en gaat door met de andere issues', async () => {
+            const failing = await startFakeJiraServer({
+                ...loadFixture('jira-basic'),
+                errors: [{ path: '/rest/api/2/issue/ABC-2/worklog', status: 500 }]
+            });
+            jiraClient.defaults.baseURL = failing.baseURL;
+
+            try {
+                const failures: JiraFailure[] = [];
+                const worklogs = await withJiraFailureTracking(failures, () =>
+                    getWorkLogsForProject(['ABC'], new Date('2025-03-01'), new Date('2025-03-31'), alpha)
+                );
+
+                assert.deepEqual(worklogs.map(log => log.id).sort(), ['20002', '20003', '20006']);
+                assert.equal(failures.length, 1);
+                assert.equal(failures[0].status, 500);
+                assert.match(failures[0].context, /ABC-2/);
+            } finally {
+                jiraClient.defaults.baseURL = jira.baseURL;
+                await failing.close();
+            }
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import './setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseIcsHolidays, getLeaveHoursOnDay } from '../src/leave.js';
+import type { LeaveEntry } from '../src/leave.js';
+import { calculateExpectedHours } from '../src/capacity.js';
+import { buildAvailability } from '../src/worklog-report.js';
+import type { Employee } from '../src/google-sheets.js';
+
+const ics = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'BEGIN:VEVENT',
+    'DTSTART;VALUE=DATE:20250421',
+    'DTEND;VALUE=DATE:20250422',
+    'SUMMARY:Tweede Paasdag',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'DTSTART;VALUE=DATE:20250426',
+    'SUMMARY:Koningsdag',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'DTSTART;VALUE=DATE:20251225',
+    'DTEND;VALUE=DATE:20251227',
+    'SUMMARY:Eerste en Tweede',
+    '  Kerstdag',
+    'END:VEVENT',
+    'END:VCALENDAR'
+].join('\r\n');
+
+const jan: Employee = { row: 2, name: 'Jan Jansen', effectiveHours: 40, project: 'Alpha' };
+
+describe('verlof en feestdagen', () => {
+    const holidays = parseIcsHolidays(ics);
+
+    it('leest feestdagen uit een ICS bestand', () => {
+        assert.deepEqual(holidays, [
+            { startDate: new Date(2025, 3, 21), endDate: new Date(2025, 3, 21), description: 'Tweede Paasdag' },
+            { startDate: new Date(2025, 3, 26), endDate: new Date(2025, 3, 26), description: 'Koningsdag' },
+            { startDate: new Date(2025, 11, 25), endDate: new Date(2025, 11, 26), description: 'Eerste en Tweede Kerstdag' }
+        ]);
+    });
+
+    it('telt overlappend verlof één keer en nooit meer dan de uren van die dag', () => {
+        const leave: LeaveEntry[] = [
+            ...holidays,
+            { employee: 'Jan Jansen', startDate: new Date(2025, 3, 21), endDate: new Date(2025, 3, 21), hoursPerDay: 4, description: 'Tandarts' },
+            { employee: 'Piet de Vries', startDate: new Date(2025, 3, 22), endDate: new Date(2025, 3, 22), description: 'Verlof' }
+        ];
+
+        assert.equal(getLeaveHoursOnDay(leave, 'Jan Jansen', new Date(2025, 3, 21), 8), 8);
+        assert.equal(getLeaveHoursOnDay(leave, 'Jan Jansen', new Date(2025, 3, 22), 8), 0);
+        assert.equal(getLeaveHoursOnDay(leave, 'Piet de Vries', new Date(2025, 3, 22), 6.4), 6.4);
+    });
+
+    it('trekt verlof en feestdagen af van de verwachte uren', () => {
+        const leave: LeaveEntry[] = [
+            ...holidays,
+            { employee: 'Jan Jansen', startDate: new Date(2025, 3, 14), endDate: new Date(2025, 3, 16), hoursPerDay: 4, description: 'Halve dagen' },
+            { employee: 'Jan Jansen', startDate: new Date(2025, 3, 18), endDate: new Date(2025, 3, 21), description: 'Pasen' }
+        ];
+
+        // April 2025 heeft 22 werkdagen; Koningsdag valt op zaterdag
+        assert.deepEqual(calculateExpectedHours(jan, new Date(2025, 3, 1), new Date(2025, 3, 30), leave), {
+            workingHours: 176,
+            leaveHours: 28,
+            expectedHours: 148
+        });
+    });
+
+    it('zet de verwachte uren tegenover de gelogde uren', () => {
+        const totals = {
+            columns: ['Ontwikkeling'],
+            employees: [{ employee: 'Jan Jansen', hours: { Ontwikkeling: 126 }, total: 126 }],
+            columnTotals: { Ontwikkeling: 126 },
+            total: 126
+        };
+        const piet: Employee = { row: 3, name: 'Piet de Vries', effectiveHours: 32, project: 'Alpha', startDate: new Date(2025, 3, 28) };
+
+        assert.deepEqual(buildAvailability([jan, piet, jan], totals, new Date(2025, 3, 1), new Date(2025, 3, 30), holidays), [
+            { employee: 'Jan Jansen', expectedHours: 168, leaveHours: 8, loggedHours: 126, percentage: 75 },
+            { employee: 'Piet de Vries', expectedHours: 19.2, leaveHours: 0, loggedHours: 0, percentage: 0 }
+        ]);
+    });
+});
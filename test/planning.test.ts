@@ -0,0 +1,98 @@
+import './setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { planIssues } from '../src/planning.js';
+import type { SprintCapacity } from '../src/planning.js';
+import type { IssueLink, JiraIssue } from '../src/types.js';
+import { makePlanningIssue } from './issues.js';
+
+const predecessor = (key: string): IssueLink => ({
+    type: { name: 'Predecessor', inward: 'has as a predecessor', outward: 'is a predecessor of' },
+    inwardIssue: { key }
+});
+
+const planned = (key: string, assignee: string, hours: number, priority: string, predecessors: string[] = []) =>
+    makePlanningIssue(key, assignee, hours, { priority, fields: { issuelinks: predecessors.map(predecessor) } });
+
+const sprintCapacity: SprintCapacity[] = ['Jan Jansen', 'Piet de Vries'].flatMap(employee =>
+    ['1', '2', '3'].map(sprint => ({ employee, sprint, capacity: 8, project: 'Alpha' }))
+);
+
+const sprintsOf = (issues: JiraIssue[], options: Parameters<typeof planIssues>[2] = {}) =>
+    planIssues(issues, sprintCapacity, options).plannedIssues.map(issue => [issue.issue.key, issue.sprint]);
+
+describe('planning met voorgangers', () => {
+    it('plant een issue niet eerder dan de laatste sprint van zijn voorganger', () => {
+        const issues = [
+            planned('ABC-2', 'Piet de Vries', 4, 'Highest', ['ABC-1']),
+            planned('ABC-1', 'Jan Jansen', 12, 'Low')
+        ];
+
+        // De voorganger gaat voor, ondanks de lagere prioriteit, en loopt door tot sprint 2
+        assert.deepEqual(sprintsOf(issues), [['ABC-1', '1'], ['ABC-1', '2'], ['ABC-2', '2']]);
+
+        // Zonder de link wordt ABC-2 direct in sprint 1 gepland
+        assert.deepEqual(sprintsOf([planned('ABC-2', 'Piet de Vries', 4, 'Highest'), issues[1]]), [
+            ['ABC-2', '1'], ['ABC-1', '1'], ['ABC-1', '2']
+        ]);
+    });
+
+    it('plant een issue pas na zijn voorganger in strikte modus', () => {
+        const issues = [
+            planned('ABC-1', 'Jan Jansen', 4, 'Medium'),
+            planned('ABC-2', 'Piet de Vries', 4, 'Medium', ['ABC-1'])
+        ];
+
+        assert.deepEqual(sprintsOf(issues), [['ABC-1', '1'], ['ABC-2', '1']]);
+        assert.deepEqual(sprintsOf(issues, { strictPredecessors: true }), [['ABC-1', '1'], ['ABC-2', '2']]);
+    });
+
+    it('plant een issue niet als zijn voorganger niet gepland kan worden', () => {
+        const issues = [
+            planned('ABC-1', 'Jan Jansen', 30, 'Medium'),
+            planned('ABC-2', 'Piet de Vries', 4, 'Medium', ['ABC-1'])
+        ];
+
+        assert.deepEqual(sprintsOf(issues), [
+            ['ABC-1', '1'], ['ABC-1', '2'], ['ABC-1', '3'], ['ABC-1', 'Niet gepland'], ['ABC-2', 'Niet gepland']
+        ]);
+    });
+
+    it('meldt afhankelijkheidscycli en plant de issues toch in', () => {
+        const issues = [
+            planned('ABC-1', 'Jan Jansen', 4, 'Low', ['ABC-2']),
+            planned('ABC-2', 'Jan Jansen', 4, 'High', ['ABC-1']),
+            planned('ABC-3', 'Piet de Vries', 4, 'Medium', ['ABC-3']),
+            planned('ABC-4', 'Piet de Vries', 4, 'Highest', ['ABC-1'])
+        ];
+
+        const planning = planIssues(issues, sprintCapacity);
+        assert.deepEqual(planning.dependencyCycles.map(cycle => [...cycle].sort()).sort(), [['ABC-1', 'ABC-2'], ['ABC-3']]);
+
+        // Het issue met de hoogste prioriteit uit de cyclus gaat eerst; ABC-4 wacht op ABC-1
+        assert.deepEqual(planning.plannedIssues.map(issue => [issue.issue.key, issue.sprint]), [
+            ['ABC-2', '1'], ['ABC-1', '1'], ['ABC-4', '1'], ['ABC-3', '1']
+        ]);
+    });
+
+    it('meldt voorgangers in een ander project als externe blokkade', () => {
+        const issues = [
+            planned('ABC-1', 'Jan Jansen', 4, 'Medium', ['XYZ-9', 'ABC-50']),
+            planned('ABC-2', 'Piet de Vries', 4, 'Medium', ['DEF-3'])
+        ];
+
+        const planning = planIssues(issues, sprintCapacity);
+        assert.deepEqual(planning.externalBlockers, [
+            { key: 'ABC-1', predecessors: ['XYZ-9'] },
+            { key: 'ABC-2', predecessors: ['DEF-3'] }
+        ]);
+
+        // Externe en afgesloten voorgangers (niet in de planning) houden het issue niet tegen
+        assert.deepEqual(planning.plannedIssues.map(issue => [issue.issue.key, issue.sprint]), [['ABC-1', '1'], ['ABC-2', '1']]);
+
+        // Projecten die samen gepland worden tellen niet als extern
+        assert.deepEqual(planIssues(issues, sprintCapacity, { projectCodes: ['ABC', 'DEF'] }).externalBlockers, [
+            { key: 'ABC-1', predecessors: ['XYZ-9'] }
+        ]);
+    });
+});
@@ -0,0 +1,104 @@
+import './setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import ExcelJS from 'exceljs';
+import { buildExportTables, toCsv, toXlsx } from '../src/report-export.js';
+import type { ExportWorklog } from '../src/report-export.js';
+import type { WorkLogsResponse } from '../src/types.js';
+
+const report: WorkLogsResponse = {
+    startDate: '2025-03-01',
+    endDate: '2025-03-31',
+    projects: [{
+        projectName: 'Alpha',
+        worklogName: 'Alpha',
+        columns: ['Overleg', 'Ontwikkeling'],
+        employees: [{ employee: 'Jan Jansen', hours: { Overleg: 1.5, Ontwikkeling: 2 }, total: 3.5 }],
+        columnTotals: { Overleg: 1.5, Ontwikkeling: 2 },
+        total: 3.5
+    }],
+    totals: {
+        columns: ['Overleg', 'Ontwikkeling'],
+        employees: [{ employee: 'Jan Jansen', hours: { Overleg: 1.5, Ontwikkeling: 2 }, total: 3.5 }],
+        columnTotals: { Overleg: 1.5, Ontwikkeling: 2 },
+        total: 3.5
+    },
+    availability: [{ employee: 'Jan Jansen', expectedHours: 160, leaveHours: 8, loggedHours: 3.5, percentage: 2 }],
+    efficiencyTable: {
+        normal: [
+            { employee: 'Jan Jansen', estimatedHours: 8, loggedHours: 6, efficiency: 75, totalHours: 0, nonWorkingHours: 0, nonIssueHours: 0, numberOfIssues: 1 },
+            { employee: 'Piet de Vries', estimatedHours: 2, loggedHours: 4, efficiency: 200, totalHours: 0, nonWorkingHours: 0, nonIssueHours: 0, numberOfIssues: 2 }
+        ],
+        pure: []
+    },
+    jiraFailures: []
+};
+
+const worklogs: ExportWorklog[] = [
+    { projectName: 'Alpha', issueKey: 'ABC-2', issueSummary: 'Overleg', author: 'Jan Jansen', started: '2025-03-04T09:00:00.000+0100', timeSpentSeconds: 5400, comment: 'Sprint review; "demo"', category: 'Overleg', rule: 'Worklogs rij 2' },
+    { projectName: 'Alpha', issueKey: 'ABC-1', issueSummary: 'Login pagina', author: { displayName: 'Jan Jansen' }, started: '2025-03-03T10:00:00.000+0100', timeSpentSeconds: 7200, category: 'Ontwikkeling', rule: 'Worklogs rij 3' }
+];
+
+describe('export van het worklog overzicht', () => {
+    const tables = buildExportTables(report, worklogs);
+
+    it('bevat dezelfde tabellen als de pagina en de worklog regels', () => {
+        assert.deepEqual(tables.map(table => table.id), ['project-alpha', 'totaal', 'verwacht', 'efficientie', 'efficientie-zuiver', 'worklogs']);
+
+        const availability = tables.find(table => table.id === 'verwacht')!;
+        assert.deepEqual(availability.rows, [['Jan Jansen', 160, 8, 3.5, 2]]);
+
+        const efficiency = tables.find(table => table.id === 'efficientie')!;
+        assert.deepEqual(efficiency.rows.map(row => row[0]), ['Piet de Vries', 'Jan Jansen']);
+
+        const lines = tables.find(table => table.id === 'worklogs')!;
+        assert.deepEqual(lines.rows, [
+            ['Alpha', 'ABC-1', 'Login pagina', 'Jan Jansen', '2025-03-03', 2, 'Ontwikkeling', 'Worklogs rij 3', ''],
+            ['Alpha', 'ABC-2', 'Overleg', 'Jan Jansen', '2025-03-04', 1.5, 'Overleg', 'Worklogs rij 2', 'Sprint review; "demo"']
+        ]);
+    });
+
+    it('schrijft CSV met puntkomma\'s en decimale komma\'s', () => {
+        const csv = toCsv(tables.find(table => table.id === 'worklogs')!);
+
+        assert.equal(csv, '\uFEFF' + [
+            'Project;Issue;Samenvatting;Medewerker;Datum;Uren;Categorie;Regel;Omschrijving',
+            'Alpha;ABC-1;Login pagina;Jan Jansen;2025-03-03;2;Ontwikkeling;Worklogs rij 3;',
+            'Alpha;ABC-2;Overleg;Jan Jansen;2025-03-04;1,5;Overleg;Worklogs rij 2;"Sprint review; ""demo"""',
+            ''
+        ].join('\r\n'));
+    });
+
+    it('voorkomt dat Excel tekst uit de CSV als formule uitvoert', () => {
+        const csv = toCsv({
+            id: 'worklogs',
+            name: 'Worklogs',
+            headers: ['Omschrijving', 'Uren'],
+            rows: [['=HYPERLINK("http://example.com")', -1.5], ['+31 6 12345678', 2], ['-', 0], ['@SUM(A1)', 1], ['a=b', 1]]
+        });
+
+        assert.deepEqual(csv.slice(1).split('\r\n').slice(1, -1), [
+            '"\'=HYPERLINK(""http://example.com"")";-1,5',
+            '\'+31 6 12345678;2',
+            '\'-;0',
+            '\'@SUM(A1);1',
+            'a=b;1'
+        ]);
+    });
+
+    it('schrijft een Excel werkmap met een werkblad per tabel', async () => {
+        const workbook = new ExcelJS.Workbook();
+        const buffer = await toXlsx(tables);
+        await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+
+        assert.deepEqual(workbook.worksheets.map(sheet => sheet.name), ['Alpha', 'Worklogs Totaal', 'Verwachte uren', 'Efficiëntie', 'Efficiëntie (Zuiver)', 'Worklogs']);
+
+        const totals = workbook.getWorksheet('Worklogs Totaal')!;
+        const rows = [1, 2, 3].map(index => (totals.getRow(index).values as ExcelJS.CellValue[]).slice(1));
+        assert.deepEqual(rows, [
+            ['Medewerker', 'Overleg', 'Ontwikkeling', 'Totaal'],
+            ['Jan Jansen', 1.5, 2, 3.5],
+            ['Totaal', 1.5, 2, 3.5]
+        ]);
+    });
+});
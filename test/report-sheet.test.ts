@@ -0,0 +1,47 @@
+import './setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getReportSheetTitle, buildReportSheetRows } from '../src/report-sheet.js';
+import type { ExportTable } from '../src/report-export.js';
+import type { WorkLogsResponse } from '../src/types.js';
+
+const report: WorkLogsResponse = {
+    startDate: '2025-03-01',
+    endDate: '2025-03-31',
+    projects: [],
+    totals: { columns: [], employees: [], columnTotals: {}, total: 0 },
+    availability: [],
+    efficiencyTable: { normal: [], pure: [] },
+    jiraFailures: []
+};
+
+const tables: ExportTable[] = [
+    { id: 'totaal', name: 'Worklogs Totaal', headers: ['Medewerker', 'Overleg', 'Totaal'], rows: [['Jan Jansen', 1.5, 1.5], ['Totaal', 1.5, 1.5]] },
+    { id: 'worklogs', name: 'Worklogs', headers: ['Project', 'Issue'], rows: [['Alpha', 'ABC-1']] }
+];
+
+describe('rapport in Google Sheets', () => {
+    it('gebruikt de periode in de naam van het tabblad', () => {
+        assert.equal(getReportSheetTitle('2025-03-01', '2025-03-31'), 'Rapport 2025-03-01 t/m 2025-03-31');
+    });
+
+    it('zet de tabellen onder elkaar, zonder de losse worklog regels', () => {
+        const rows = buildReportSheetRows(report, tables, new Date(2025, 3, 1, 8, 30));
+
+        assert.deepEqual(rows, [
+            ['Worklog rapport 2025-03-01 t/m 2025-03-31'],
+            ['Bijgewerkt op 2025-04-01 08:30'],
+            [],
+            ['Worklogs Totaal'],
+            ['Medewerker', 'Overleg', 'Totaal'],
+            ['Jan Jansen', 1.5, 1.5],
+            ['Totaal', 1.5, 1.5]
+        ]);
+    });
+
+    it('vermeldt mislukte Jira requests', () => {
+        const rows = buildReportSheetRows({ ...report, jiraFailures: [{ context: 'Worklogs', message: 'Timeout' }] }, []);
+
+        assert.match(String(rows[2][0]), /1 Jira request\(s\) zijn mislukt/);
+    });
+});
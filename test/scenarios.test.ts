@@ -0,0 +1,104 @@
+import './setup.js';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { applyScenario, diffPlannings, parseScenario, saveScenario, loadScenarios, getScenario, deleteScenario } from '../src/scenarios.js';
+import type { Scenario } from '../src/scenarios.js';
+import { planIssues } from '../src/planning.js';
+import type { SprintCapacity } from '../src/planning.js';
+import { makePlanningIssue } from './issues.js';
+
+const issues = [
+    makePlanningIssue('ABC-1', 'Jan Jansen', 8),
+    makePlanningIssue('ABC-2', 'Jan Jansen', 8),
+    makePlanningIssue('ABC-3', 'Piet de Vries', 4, { epic: 'ABC-100' }),
+    makePlanningIssue('ABC-4', 'Piet de Vries', 4, { epic: 'ABC-100' })
+];
+
+const sprintCapacity: SprintCapacity[] = ['Jan Jansen', 'Piet de Vries'].flatMap(employee =>
+    ['1', '2'].map(sprint => ({ employee, sprint, capacity: 10, project: 'Alpha' }))
+);
+
+const scenario = (overrides: Partial<Scenario>): Scenario => parseScenario({ project: 'Alpha', name: 'Test', ...overrides });
+
+describe('scenario\'s', () => {
+    let directory: string;
+
+    before(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scenarios-'));
+        process.env.SCENARIOS_PATH = path.join(directory, 'scenarios.json');
+    });
+
+    after(() => {
+        delete process.env.SCENARIOS_PATH;
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('controleert een scenario uit een request', () => {
+        assert.deepEqual(parseScenario({ project: 'Alpha', name: 'Test', capacity: [{ employee: 'Jan Jansen', sprint: 1, capacity: '0' }] }), {
+            project: 'Alpha',
+            name: 'Test',
+            capacity: [{ employee: 'Jan Jansen', sprint: '1', capacity: 0 }],
+            assignees: [],
+            estimates: [],
+            excluded: [],
+            priorities: []
+        });
+        assert.throws(() => parseScenario({ project: 'Alpha' }), /name is verplicht/);
+        assert.throws(() => scenario({ estimates: [{ issue: 'ABC-1', hours: -1 }] }), /estimates.hours/);
+        assert.throws(() => scenario({ excluded: 'ABC-1' as any }), /excluded moet een lijst zijn/);
+        assert.throws(() => scenario({ priorities: [{ issue: 'ABC-1', priority: 'Urgent' }] }), /priorities.priority moet een van Highest, High/);
+        assert.deepEqual(scenario({ priorities: [{ issue: 'ABC-1', priority: 'highest' }] }).priorities, [{ issue: 'ABC-1', priority: 'Highest' }]);
+    });
+
+    it('past capaciteit, toewijzing, schatting, uitsluitingen en prioriteit aan', () => {
+        const applied = applyScenario(issues, sprintCapacity, scenario({
+            capacity: [{ employee: 'Jan Jansen', sprint: '1', capacity: 0 }, { employee: 'Kees Klaassen', sprint: '2', capacity: 20 }],
+            assignees: [{ issue: 'ABC-2', assignee: 'Kees Klaassen' }],
+            estimates: [{ issue: 'ABC-1', hours: 2 }],
+            excluded: ['ABC-100'],
+            priorities: [{ issue: 'ABC-2', priority: 'Highest' }]
+        }));
+
+        assert.deepEqual(applied.issues.map(({ key, fields }) => [key, fields.assignee.displayName, fields.timeestimate / 3600, fields.priority.name]), [
+            ['ABC-1', 'Jan Jansen', 2, 'Medium'],
+            ['ABC-2', 'Kees Klaassen', 8, 'Highest']
+        ]);
+        assert.deepEqual(applied.sprintCapacity.map(({ employee, sprint, capacity }) => [employee, sprint, capacity]), [
+            ['Jan Jansen', '1', 0],
+            ['Jan Jansen', '2', 10],
+            ['Piet de Vries', '1', 10],
+            ['Piet de Vries', '2', 10],
+            ['Kees Klaassen', '2', 20]
+        ]);
+    });
+
+    it('toont de verschuivingen in de sprintverdeling', () => {
+        const baseline = planIssues(issues, sprintCapacity);
+        const applied = applyScenario(issues, sprintCapacity, scenario({ capacity: [{ employee: 'Jan Jansen', sprint: '1', capacity: 0 }] }));
+        const diff = diffPlannings(baseline, planIssues(applied.issues, applied.sprintCapacity));
+
+        assert.deepEqual(diff.allocations, [
+            { key: 'ABC-1', summary: 'Issue ABC-1', baseline: ['1 (8 uur)'], scenario: ['2 (8 uur)'] },
+            { key: 'ABC-2', summary: 'Issue ABC-2', baseline: ['1 (2 uur)', '2 (6 uur)'], scenario: ['2 (2 uur)', 'Niet gepland (6 uur)'] }
+        ]);
+        assert.deepEqual(diff.load, [
+            { sprint: '1', employee: 'Jan Jansen', baselineHours: 10, scenarioHours: 0 },
+            { sprint: '2', employee: 'Jan Jansen', baselineHours: 6, scenarioHours: 10 }
+        ]);
+    });
+
+    it('slaat scenario\'s op per project en naam', () => {
+        saveScenario(scenario({ description: 'Jan afwezig' }));
+        saveScenario(scenario({ excluded: ['ABC-1'] }));
+        saveScenario({ ...scenario({}), project: 'Beta' });
+
+        assert.equal(loadScenarios().length, 2);
+        assert.deepEqual(getScenario('Alpha', 'Test')?.excluded, ['ABC-1']);
+        assert.equal(deleteScenario('Alpha', 'Test'), true);
+        assert.equal(deleteScenario('Alpha', 'Test'), false);
+        assert.deepEqual(loadScenarios().map(saved => saved.project), ['Beta']);
+    });
+});
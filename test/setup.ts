@@ -0,0 +1,13 @@
+// Omgeving voor de tests; moet geïmporteerd worden vóór de modules van de applicatie,
+// omdat die hun configuratie bij het laden uit process.env lezen
+process.env.NODE_ENV = 'test';
+process.env.TZ = 'Europe/Amsterdam';
+process.env.JIRA_HOST = 'jira.test';
+process.env.JIRA_USERNAME = 'test@example.com';
+process.env.JIRA_API_TOKEN = 'test-token';
+process.env.GOOGLE_SHEETS_CLIENT_EMAIL = 'test@example.com';
+process.env.GOOGLE_SHEETS_PRIVATE_KEY = 'test-key';
+process.env.GOOGLE_SHEETS_SPREADSHEET_ID = 'test-spreadsheet';
+process.env.JIRA_WORKLOG_MODE = 'search';
+process.env.JIRA_MAX_RETRIES = '0';
+process.env.FIXTURE_MODE = 'off';
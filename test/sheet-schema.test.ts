@@ -0,0 +1,102 @@
+import './setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSheet, resolveColumns, formatSheetRowError } from '../src/sheet-schema.js';
+import type { SheetSchema } from '../src/sheet-schema.js';
+import { parseEmployees, parseSprintNames, getSheetValidationErrors } from '../src/google-sheets.js';
+
+const schema: SheetSchema = {
+    tab: 'Projects',
+    columns: {
+        projectName: { header: 'Project', aliases: ['Projectnaam'], type: 'string', required: true, legacyIndex: 0 },
+        projectCodes: { header: 'Projectcodes', type: 'list', required: true, legacyIndex: 1 },
+        hours: { header: 'Uren', type: 'number', legacyIndex: 2 },
+        sprint: { header: 'Sprint', type: 'integer', legacyIndex: 3 }
+    }
+};
+
+describe('sheet schema', () => {
+    it('leest kolommen op kolomkop, ongeacht volgorde en schrijfwijze', () => {
+        const { records, errors } = parseSheet(schema, [
+            ['sprint', 'Uren', 'Project Codes', 'Projectnaam'],
+            ['3', '7,5', 'ABC, XYZ', 'Alpha']
+        ]);
+
+        assert.deepEqual(errors, []);
+        assert.deepEqual(records, [{ row: 2, projectName: 'Alpha', projectCodes: ['ABC', 'XYZ'], hours: 7.5, sprint: 3 }]);
+    });
+
+    it('meldt ongeldige regels met het regelnummer en slaat lege regels over', () => {
+        const { records, errors } = parseSheet(schema, [
+            ['Project', 'Projectcodes', 'Uren', 'Sprint'],
+            ['Alpha', 'ABC', 'veel', '1'],
+            [],
+            ['', 'XYZ'],
+            ['Beta', 'BET', '4', '1.5']
+        ]);
+
+        assert.deepEqual(records.map(record => record.row), [2, 5]);
+        assert.deepEqual(errors.map(formatSheetRowError), [
+            'Projects rij 2: Uren is geen getal (\'veel\')',
+            'Projects rij 4: Project ontbreekt',
+            'Projects rij 5: Sprint is geen geheel getal (\'1.5\')'
+        ]);
+    });
+
+    it('geeft een fout als een verplichte kolom ontbreekt', () => {
+        assert.throws(() => resolveColumns(schema, ['Project', 'Uren']), /Verplichte kolom\(men\) ontbreken in Projects sheet: Projectcodes/);
+    });
+
+    it('valt terug op de vaste kolomposities als geen kolomkop herkend wordt', () => {
+        const { records } = parseSheet(schema, [
+            ['A', 'B', 'C', 'D'],
+            ['Alpha', 'ABC', '', '2']
+        ]);
+
+        assert.deepEqual(records, [{ row: 2, projectName: 'Alpha', projectCodes: ['ABC'], sprint: 2 }]);
+    });
+
+    it('leest datums als yyyy-mm-dd of dd-mm-jjjj', () => {
+        const dates: SheetSchema = { tab: 'Employees', columns: { startDate: { header: 'In dienst', type: 'date' } } };
+        const { records, errors } = parseSheet<{ startDate?: Date }>(dates, [['In dienst'], ['2025-03-10'], ['1-4-2025'], ['31-02-2025']]);
+
+        assert.deepEqual(records.map(record => record.row), [2, 3, 4]);
+        assert.deepEqual(records.slice(0, 2).map(record => record.startDate), [new Date(2025, 2, 10), new Date(2025, 3, 1)]);
+        assert.deepEqual(errors.map(formatSheetRowError), ['Employees rij 4: In dienst is geen geldige datum (\'31-02-2025\')']);
+    });
+
+    it('leest de Employees sheet op kolomkop en bewaart de validatiefouten', () => {
+        const employees = parseEmployees([
+            ['Project', 'Naam', 'Effectieve uren'],
+            ['Alpha', 'Jan Jansen', '32'],
+            ['Alpha', 'Piet de Vries', 'n.v.t.'],
+            ['', 'Klaas Extern', '']
+        ]);
+
+        assert.deepEqual(employees, [
+            { row: 2, name: 'Jan Jansen', effectiveHours: 32, project: 'Alpha' },
+            { row: 3, name: 'Piet de Vries', effectiveHours: 0, project: 'Alpha' },
+            { row: 4, name: 'Klaas Extern', effectiveHours: 0, project: '' }
+        ]);
+        assert.deepEqual(getSheetValidationErrors().map(formatSheetRowError), [
+            'Employees rij 3: Effectieve uren is geen getal (\'n.v.t.\')'
+        ]);
+    });
+
+    it('leest de sprintnamen uit de Employees sheet op kolomkop', () => {
+        const sprintNames = parseSprintNames([
+            ['Naam', 'Sprint', 'Project', 'Sprint nummer'],
+            ['Jan Jansen', 'Sprint Appel', 'Alpha', '1'],
+            ['Piet de Vries', 'Sprint Banaan', 'Alpha', 'twee'],
+            ['Klaas Extern', '', 'Beta', '']
+        ]);
+
+        assert.deepEqual(Array.from(sprintNames), [['1', 'Sprint Appel']]);
+        assert.ok(getSheetValidationErrors().map(formatSheetRowError).includes(
+            'Employees rij 3: Sprint nummer is geen getal (\'twee\')'
+        ));
+
+        // Zonder sprintkolommen zijn er geen sprintnamen
+        assert.equal(parseSprintNames([['Naam', 'Project'], ['Jan Jansen', 'Alpha']]).size, 0);
+    });
+});
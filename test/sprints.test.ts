@@ -0,0 +1,155 @@
+import './setup.js';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startFakeJiraServer, loadFixture } from './fake-jira-server.js';
+import type { FakeJiraServer } from './fake-jira-server.js';
+import { jiraClient, getIssues } from '../src/jira.js';
+import { getSprintsForProjects, getIssueSprints, getSprintName, getIssueSprintIds, buildSprintCalendar, getSprintCalendarForProjects } from '../src/sprints.js';
+import { getSprintCalendar } from '../src/capacity.js';
+import { buildSprintCapacity, planIssues } from '../src/planning.js';
+import type { Issue } from '../src/types.js';
+import { makePlanningIssue } from './issues.js';
+
+const fixture = {
+    ...loadFixture('jira-basic'),
+    sprints: [
+        { id: 1, boardId: 1, name: 'Sprint 1', state: 'active' as const, startDate: '2025-03-03T08:00:00.000Z', endDate: '2025-03-14T17:00:00.000Z' },
+        { id: 2, boardId: 1, name: 'Sprint 2', state: 'future' as const },
+        { id: 3, boardId: 1, name: 'Sprint 0', state: 'closed' as const, startDate: '2025-02-17T08:00:00.000Z', endDate: '2025-02-28T17:00:00.000Z', completeDate: '2025-02-27T15:00:00.000Z' },
+        { id: 4, boardId: 1, name: 'Sprint 3', state: 'future' as const, startDate: '2025-03-31T07:00:00.000Z', endDate: '2025-04-11T16:00:00.000Z' }
+    ]
+};
+
+const issueInSprints = (key: string, sprints: { id: number; name: string; state: string }[]): Issue => ({
+    key,
+    fields: { customfield_10020: sprints.map(sprint => ({ ...sprint, id: String(sprint.id), self: '' })) }
+});
+
+describe('sprints', () => {
+    let jira: FakeJiraServer;
+
+    before(async () => {
+        // Kleine pagina's, zodat de paginering van de Agile API getest wordt
+        jira = await startFakeJiraServer(fixture, { maxResults: 2 });
+        jiraClient.defaults.baseURL = jira.baseURL;
+    });
+
+    after(() => jira.close());
+
+    beforeEach(() => {
+        jira.requests.length = 0;
+    });
+
+    it('haalt de sprints van de boards van een project op via de Agile API', async () => {
+        const sprints = await getSprintsForProjects(['ABC']);
+
+        // Gesorteerd op startdatum, sprints zonder startdatum achteraan
+        assert.deepEqual(sprints.map(sprint => [sprint.id, sprint.name, sprint.state, sprint.boardId]), [
+            [3, 'Sprint 0', 'closed', 1],
+            [1, 'Sprint 1', 'active', 1],
+            [4, 'Sprint 3', 'future', 1],
+            [2, 'Sprint 2', 'future', 1]
+        ]);
+        assert.equal(sprints[0].completeDate, '2025-02-27T15:00:00.000Z');
+        assert.deepEqual(
+            jira.requests.filter(request => request.path === '/rest/agile/1.0/board/1/sprint').map(request => request.query.startAt),
+            ['0', '2']
+        );
+    });
+
+    it('koppelt issues aan hun actieve en toekomstige sprints', async () => {
+        const sprints = await getSprintsForProjects(['ABC']);
+        const issues = await getIssues('project = ABC');
+        assert.deepEqual(issues.map(issue => getSprintName(issue, sprints)), ['Sprint 1', 'Niet gepland', 'Sprint 2', 'Niet gepland']);
+
+        // Het sprint veld van het issue kan een verouderde status hebben; de Agile API is leidend
+        const moved = issueInSprints('ABC-5', [
+            { id: 3, name: 'Sprint 0', state: 'active' },
+            { id: 2, name: 'Sprint 2', state: 'future' },
+            { id: 4, name: 'Sprint 3', state: 'future' }
+        ]);
+        const { current, future } = getIssueSprints(moved, sprints);
+        assert.equal(current, null);
+        assert.deepEqual(future.map(sprint => sprint.name), ['Sprint 3', 'Sprint 2']);
+        assert.equal(getSprintName(moved, sprints), 'Sprint 3');
+
+        // Alleen afgesloten sprints: het issue staat op de backlog
+        assert.equal(getSprintName(issueInSprints('ABC-6', [{ id: 3, name: 'Sprint 0', state: 'closed' }]), sprints), 'Niet gepland');
+    });
+
+    it('bouwt een sprintkalender voor capaciteit en planning', async () => {
+        const calendar = buildSprintCalendar(await getSprintsForProjects(['ABC']));
+
+        // Sprint 2 heeft nog geen datums; voor de afgesloten sprint telt de datum van afsluiten
+        assert.deepEqual(calendar, [
+            { sprintId: 0, startDate: new Date(2025, 1, 17), endDate: new Date(2025, 1, 27), name: 'Sprint 0', state: 'closed' },
+            { sprintId: 1, startDate: new Date(2025, 2, 3), endDate: new Date(2025, 2, 14), name: 'Sprint 1', state: 'active' },
+            { sprintId: 3, startDate: new Date(2025, 2, 31), endDate: new Date(2025, 3, 11), name: 'Sprint 3', state: 'future' }
+        ]);
+
+        // Zonder SPRINT_START_DATE zijn alleen de datums van de Jira sprints bekend
+        assert.deepEqual(getSprintCalendar([1, 2], calendar), [calendar[1]]);
+        assert.equal(getSprintCalendar([2], calendar), null);
+
+        // Actieve en toekomstige Jira sprints krijgen capaciteit, ook als ze niet in de sheet staan
+        const capacity = buildSprintCapacity('Alpha', [{ row: 2, name: 'Jan Jansen', effectiveHours: 40, project: 'Alpha' }], [
+            { assignee: 'Jan Jansen', capacity: 60, sprintId: 2 }
+        ], [], calendar, new Date(2025, 2, 10));
+        assert.deepEqual(capacity.map(entry => [entry.sprint, entry.capacity]), [['1', 80], ['2', 60], ['3', 80]]);
+
+        // Een sprint die in Jira is afgesloten krijgt geen capaciteit, ook als de sheet hem nog noemt
+        const closedEarly = calendar.map(period => period.sprintId === 1 ? { ...period, state: 'closed' as const } : period);
+        const withSheet = buildSprintCapacity('Alpha', [{ row: 2, name: 'Jan Jansen', effectiveHours: 40, project: 'Alpha' }], [
+            { assignee: 'Jan Jansen', capacity: 60, sprintId: 0 },
+            { assignee: 'Jan Jansen', capacity: 60, sprintId: 1 }
+        ], [], closedEarly, new Date(2025, 2, 10));
+        assert.deepEqual(withSheet.map(entry => entry.sprint), ['3']);
+    });
+
+    it('slaat sprints met een nummer dat al in de kalender staat over', () => {
+        const calendar = buildSprintCalendar([
+            { id: 1, boardId: 1, name: 'ABC Sprint 4', state: 'closed', startDate: '2025-03-03T08:00:00.000Z', endDate: '2025-03-14T17:00:00.000Z' },
+            { id: 2, boardId: 2, name: 'DEF Sprint 4', state: 'active', startDate: '2025-05-05T08:00:00.000Z', endDate: '2025-05-16T17:00:00.000Z' }
+        ]);
+        assert.deepEqual(calendar.map(period => period.name), ['ABC Sprint 4']);
+    });
+
+    it('plant issues vanaf de sprint waarin ze in Jira staan', async () => {
+        const sprints = await getSprintsForProjects(['ABC']);
+        const planned = (key: string, priority: string, hours: number, inSprints: { id: number; name: string; state: string }[]) =>
+            makePlanningIssue(key, 'Jan Jansen', hours, { priority, fields: issueInSprints(key, inSprints).fields });
+        const issues = [
+            planned('ABC-1', 'Highest', 8, []),
+            planned('ABC-2', 'Low', 8, [{ id: 2, name: 'Sprint 2', state: 'future' }]),
+            planned('ABC-3', 'Medium', 8, [{ id: 1, name: 'Sprint 1', state: 'active' }]),
+            planned('ABC-4', 'High', 8, [{ id: 3, name: 'Sprint 0', state: 'closed' }])
+        ];
+
+        // Afgesloten sprints tellen niet; de sprint komt als sprintnummer uit de capaciteit terug
+        const issueSprints = getIssueSprintIds(issues, sprints);
+        assert.deepEqual(Array.from(issueSprints), [['ABC-2', '2'], ['ABC-3', '1']]);
+
+        const sprintCapacity = ['1', '2', '3'].map(sprint => ({ employee: 'Jan Jansen', sprint, capacity: 16, project: 'Alpha' }));
+        const planning = planIssues(issues, sprintCapacity, { issueSprints });
+
+        // Issues in een Jira sprint krijgen als eerste capaciteit en komen niet eerder dan die sprint
+        assert.deepEqual(planning.plannedIssues.map(issue => [issue.issue.key, issue.sprint]), [
+            ['ABC-3', '1'], ['ABC-2', '2'], ['ABC-1', '1'], ['ABC-4', '2']
+        ]);
+        assert.deepEqual(planning.issueSprints, issueSprints);
+
+        // Zonder sprints in de capaciteit vervalt de koppeling
+        assert.equal(planIssues(issues, sprintCapacity.filter(entry => entry.sprint === '3'), { issueSprints }).issueSprints, undefined);
+    });
+
+    it('valt terug op een lege sprintkalender als de Agile API niet beschikbaar is', async () => {
+        const failing = await startFakeJiraServer({ ...fixture, errors: [{ path: '/rest/agile/1.0/board', status: 500 }] });
+        jiraClient.defaults.baseURL = failing.baseURL;
+        try {
+            assert.deepEqual(await getSprintCalendarForProjects(['DEF']), []);
+        } finally {
+            jiraClient.defaults.baseURL = jira.baseURL;
+            await failing.close();
+        }
+    });
+});
@@ -0,0 +1,63 @@
+import './setup.js';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startFakeJiraServer, loadFixture } from './fake-jira-server.js';
+import type { FakeJiraServer } from './fake-jira-server.js';
+import { jiraClient, getAllWorklogsForPeriod } from '../src/jira.js';
+import { buildTimesheetReport } from '../src/timesheet.js';
+import type { Employee } from '../src/google-sheets.js';
+import type { WorkLog } from '../src/types.js';
+
+const employees: Employee[] = [
+    { row: 2, name: 'Jan Jansen', effectiveHours: 40, project: 'Alpha' },
+    { row: 3, name: 'Piet de Vries', effectiveHours: 8, project: 'Alpha' }
+];
+
+describe('urenregistratie', () => {
+    let jira: FakeJiraServer;
+    let worklogs: WorkLog[];
+
+    before(async () => {
+        jira = await startFakeJiraServer(loadFixture('jira-basic'));
+        jiraClient.defaults.baseURL = jira.baseURL;
+        worklogs = await getAllWorklogsForPeriod(new Date(2025, 2, 3), new Date(2025, 2, 9));
+    });
+
+    after(() => jira.close());
+
+    it('haalt de worklogs van alle projecten in de periode op', () => {
+        assert.deepEqual(worklogs.map(log => log.id).sort(), ['20002', '20003', '20004', '20005', '20008']);
+    });
+
+    it('markeert ontbrekende, te lage, te hoge en toekomstige registraties', () => {
+        const report = buildTimesheetReport(
+            employees,
+            [
+                ...worklogs,
+                { id: '1', issueKey: 'ABC-3', author: 'Piet de Vries', started: '2025-03-04T09:00:00.000+0100', timeSpentSeconds: 3 * 3600 },
+                { id: '2', issueKey: 'ABC-3', author: 'Jan Jansen', started: '2025-03-06T09:00:00.000+0100', timeSpentSeconds: 3600 }
+            ],
+            new Date(2025, 2, 3),
+            new Date(2025, 2, 9),
+            [{ employee: 'Piet de Vries', startDate: new Date(2025, 2, 3), endDate: new Date(2025, 2, 3), description: 'Verlof' }],
+            new Date(2025, 2, 5, 12, 0)
+        );
+
+        const [jan, piet] = report.employees;
+        assert.deepEqual(jan.days.map(day => day.status), ['under', 'under', 'missing', 'future', 'future', 'future', 'future']);
+        assert.deepEqual(jan.days.slice(0, 3).map(day => day.loggedHours), [7, 1.5, 0]);
+        assert.deepEqual(
+            { expected: jan.expectedHours, logged: jan.loggedHours, missing: jan.missingDays, under: jan.underDays, over: jan.overDays },
+            { expected: 24, logged: 8.5, missing: 1, under: 2, over: 0 }
+        );
+        assert.deepEqual(jan.futureWorklogs, [{ issueKey: 'ABC-3', date: '2025-03-06', hours: 1 }]);
+
+        // Klaas Extern staat niet in de Employees sheet en komt niet in het overzicht
+        assert.equal(report.employees.length, 2);
+        assert.deepEqual(piet.days.slice(0, 3).map(day => [day.expectedHours, day.loggedHours, day.status]), [
+            [0, 0, 'leave'],
+            [1.6, 3, 'over'],
+            [1.6, 1, 'under']
+        ]);
+    });
+});
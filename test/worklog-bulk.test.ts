@@ -0,0 +1,78 @@
+import './setup.js';
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startFakeJiraServer } from './fake-jira-server.js';
+import type { FakeJiraFixture, FakeJiraServer } from './fake-jira-server.js';
+
+// De worklog mode wordt bij het laden van de jira module gelezen
+process.env.JIRA_WORKLOG_MODE = 'bulk';
+const { jiraClient, getWorklogsForPeriod } = await import('../src/jira.js');
+
+const fixture: FakeJiraFixture = {
+    issues: [
+        {
+            id: '10001',
+            key: 'ABC-1',
+            fields: { summary: 'Login pagina', project: { key: 'ABC' }, status: { name: 'In Progress' } },
+            worklogs: [
+                // Een week vóór de periode vooruit geboekt
+                { id: '30001', author: 'Jan Jansen', started: '2025-03-04T10:00:00.000+0100', updated: '2025-02-25T09:00:00.000+0100', timeSpentSeconds: 3600 },
+                { id: '30002', author: 'Jan Jansen', started: '2025-03-05T10:00:00.000+0100', timeSpentSeconds: 7200 },
+                // In de periode gewijzigd, maar gestart vóór de periode
+                { id: '30003', author: 'Piet de Vries', started: '2025-02-20T10:00:00.000+0100', updated: '2025-03-06T09:00:00.000+0100', timeSpentSeconds: 3600 }
+            ]
+        },
+        {
+            id: '20001',
+            key: 'DEF-1',
+            fields: { summary: 'Rapportage', project: { key: 'DEF' }, status: { name: 'Open' } },
+            worklogs: [
+                { id: '30004', author: 'Piet de Vries', started: '2025-03-06T10:00:00.000+0100', timeSpentSeconds: 1800 }
+            ]
+        }
+    ]
+};
+
+describe('worklogs in bulk mode', () => {
+    let jira: FakeJiraServer;
+
+    before(async () => {
+        // Kleine pagina's, zodat de paginering van /worklog/updated getest wordt
+        jira = await startFakeJiraServer(fixture, { maxResults: 2 });
+        jiraClient.defaults.baseURL = jira.baseURL;
+    });
+
+    after(() => jira.close());
+
+    beforeEach(() => {
+        jira.requests.length = 0;
+    });
+
+    afterEach(() => {
+        delete process.env.JIRA_WORKLOG_LOOKBACK_DAYS;
+    });
+
+    it('vindt ook worklogs die vóór de periode vooruit zijn geboekt', async () => {
+        const worklogs = await getWorklogsForPeriod('2025-03-03', '2025-03-14');
+
+        assert.deepEqual(worklogs.map(log => [log.id, log.issueKey]), [['30001', 'ABC-1'], ['30002', 'ABC-1'], ['30004', 'DEF-1']]);
+        const since = jira.requests.find(request => request.path === '/rest/api/2/worklog/updated')?.query.since;
+        assert.equal(Number(since), new Date(2025, 1, 1).getTime());
+    });
+
+    it('zoekt zonder terugkijkperiode alleen vanaf de startdatum', async () => {
+        process.env.JIRA_WORKLOG_LOOKBACK_DAYS = '0';
+
+        const worklogs = await getWorklogsForPeriod('2025-03-03', '2025-03-14');
+        assert.deepEqual(worklogs.map(log => log.id), ['30002', '30004']);
+    });
+
+    it('geeft met een JQL filter alleen worklogs van de issues die eraan voldoen', async () => {
+        const worklogs = await getWorklogsForPeriod('2025-03-03', '2025-03-14', 'project = ABC ORDER BY key');
+
+        assert.deepEqual(worklogs.map(log => [log.id, log.author, log.issueSummary]), [
+            ['30001', 'Jan Jansen', 'Login pagina'],
+            ['30002', 'Jan Jansen', 'Login pagina']
+        ]);
+    });
+});
@@ -0,0 +1,107 @@
+import './setup.js';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startFakeJiraServer, loadFixture } from './fake-jira-server.js';
+import type { FakeJiraServer } from './fake-jira-server.js';
+import { jiraClient } from '../src/jira.js';
+import { getActiveEmployees, buildColumnJql, calculateProjectWorklogHours, toWorkLogsTable, mergeWorkLogsTables } from '../src/worklog-report.js';
+import { parseEmployees } from '../src/google-sheets.js';
+import type { ProjectConfig } from '../src/google-sheets.js';
+import type { WorklogConfig } from '../src/types.js';
+
+const alpha: ProjectConfig = {
+    projectName: 'Alpha',
+    projectCodes: ['ABC'],
+    jqlFilter: '',
+    worklogName: 'Alpha',
+    worklogJql: '{projectFilter} AND {periodeFilter}'
+};
+
+const columns: WorklogConfig[] = [
+    { projectName: 'Alpha', columnName: 'Overleg', issues: ['{projectFilter} AND key in (ABC-2)'] },
+    { projectName: 'Alpha', columnName: 'Ontwikkeling', issues: [] }
+];
+
+// Employees sheet: header rij, daarna Naam in kolom C, Effectieve uren in G en Project in H
+const employees = parseEmployees([
+    ['Nr', 'Functie', 'Naam', '', '', '', 'Effectieve uren', 'Project'],
+    ['1', 'Developer', 'Jan Jansen', '', '', '', '32', 'Alpha'],
+    ['2', 'Developer', 'Piet de Vries', '', '', '', '24', ' Alpha '],
+    ['3', 'Developer', 'Klaas Extern', '', '', '', '40', 'Beta']
+]);
+
+describe('worklog rapport', () => {
+    let jira: FakeJiraServer;
+
+    before(async () => {
+        jira = await startFakeJiraServer(loadFixture('jira-basic'));
+        jiraClient.defaults.baseURL = jira.baseURL;
+    });
+
+    after(() => jira.close());
+
+    it('bepaalt de actieve medewerkers van een project', () => {
+        assert.deepEqual(getActiveEmployees(employees, 'Alpha'), ['Jan Jansen', 'Piet de Vries']);
+    });
+
+    it('bouwt de JQL van een kolom uit het issuefilter of de worklogJql', () => {
+        const periodeFilter = 'worklogDate >= "2025-03-01" AND worklogDate <= "2025-03-31"';
+
+        assert.equal(buildColumnJql(columns[0], alpha, periodeFilter), 'project in ("ABC") AND key in (ABC-2)');
+        assert.equal(buildColumnJql(columns[1], alpha, periodeFilter), `project in ("ABC") AND ${periodeFilter}`);
+        assert.equal(buildColumnJql(columns[1], { ...alpha, worklogJql: '' }, periodeFilter), '');
+    });
+
+    it('verdeelt de uren per medewerker over de kolommen', async () => {
+        const { hoursByEmployee: hours, worklogs } = await calculateProjectWorklogHours(
+            alpha,
+            columns,
+            getActiveEmployees(employees, 'Alpha'),
+            new Date('2025-03-01'),
+            new Date('2025-03-31')
+        );
+
+        // Klaas is niet actief voor Alpha; XYZ-1 en worklogs buiten de periode tellen niet mee
+        assert.deepEqual(Array.from(hours.keys()), ['Jan Jansen', 'Piet de Vries']);
+
+        // De kolom zonder issuefilter krijgt de uren die niet in een kolom met issuefilter vallen
+        assert.deepEqual(Object.fromEntries(hours.get('Jan Jansen')!), { Overleg: 1.5, Ontwikkeling: 2, Totaal: 3.5 });
+        assert.deepEqual(Object.fromEntries(hours.get('Piet de Vries')!), { Ontwikkeling: 1.5, Totaal: 1.5 });
+        assert.deepEqual(worklogs.map(log => log.id).sort(), ['20002', '20003', '20004', '20006']);
+    });
+
+    it('zet de uren om naar een tabel met totalen per medewerker en kolom', () => {
+        const table = toWorkLogsTable(['Overleg', 'Ontwikkeling'], new Map([
+            ['Jan Jansen', new Map([['Overleg', 1.5], ['Ontwikkeling', 2], ['Totaal', 3.5]])],
+            ['Piet de Vries', new Map([['Ontwikkeling', 1 / 3]])]
+        ]));
+
+        assert.deepEqual(table, {
+            columns: ['Overleg', 'Ontwikkeling'],
+            employees: [
+                { employee: 'Jan Jansen', hours: { Overleg: 1.5, Ontwikkeling: 2 }, total: 3.5 },
+                { employee: 'Piet de Vries', hours: { Overleg: 0, Ontwikkeling: 0.33 }, total: 0.33 }
+            ],
+            columnTotals: { Overleg: 1.5, Ontwikkeling: 2.33 },
+            total: 3.83
+        });
+    });
+
+    it('telt de tabellen van meerdere projecten op', () => {
+        const alphaTable = toWorkLogsTable(['Overleg', 'Ontwikkeling'], new Map([
+            ['Jan Jansen', new Map([['Overleg', 1], ['Ontwikkeling', 2]])]
+        ]));
+        const betaTable = toWorkLogsTable(['Ontwikkeling', 'Support'], new Map([
+            ['Jan Jansen', new Map([['Ontwikkeling', 3]])],
+            ['Klaas Extern', new Map([['Support', 4]])]
+        ]));
+
+        const totals = mergeWorkLogsTables([alphaTable, betaTable]);
+        assert.deepEqual(totals.columns, ['Overleg', 'Ontwikkeling', 'Support']);
+        assert.deepEqual(totals.employees, [
+            { employee: 'Jan Jansen', hours: { Overleg: 1, Ontwikkeling: 5, Support: 0 }, total: 6 },
+            { employee: 'Klaas Extern', hours: { Overleg: 0, Ontwikkeling: 0, Support: 4 }, total: 4 }
+        ]);
+        assert.equal(totals.total, 10);
+    });
+});
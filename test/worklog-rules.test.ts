@@ -0,0 +1,153 @@
+import './setup.js';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startFakeJiraServer, loadFixture } from './fake-jira-server.js';
+import type { FakeJiraServer } from './fake-jira-server.js';
+import { jiraClient } from '../src/jira.js';
+import { categoriseWorklogs, rulesFromWorklogConfigs, sortRules, UNCATEGORISED } from '../src/worklog-rules.js';
+import type { WorklogRule } from '../src/worklog-rules.js';
+import { calculateProjectWorklogHours, getProjectCategories } from '../src/worklog-report.js';
+import type { ProjectConfig } from '../src/google-sheets.js';
+import type { WorkLog, WorklogConfig } from '../src/types.js';
+
+const log = (id: string, fields: Partial<WorkLog>): WorkLog => ({
+    id,
+    issueKey: 'ABC-1',
+    author: 'Jan Jansen',
+    started: '2025-03-03T09:00:00.000+0100',
+    timeSpentSeconds: 3600,
+    ...fields
+});
+
+const alpha: ProjectConfig = {
+    projectName: 'Alpha',
+    projectCodes: ['ABC'],
+    jqlFilter: '',
+    worklogName: 'Alpha',
+    worklogJql: '{projectFilter} AND {periodeFilter}'
+};
+
+describe('indeling van worklogs', () => {
+    it('deelt elke worklog in bij de eerste regel die past', () => {
+        const rules: WorklogRule[] = [
+            { id: 'Worklogs rij 2', category: 'Ontwikkeling' },
+            { id: 'Worklogs rij 3', category: 'Bugs', issueTypes: ['bug'] },
+            { id: 'Worklogs rij 4', category: 'Overleg', labels: ['Overleg'] },
+            { id: 'Worklogs rij 5', category: 'Niet gewerkt', commentPattern: 'niet[ -]gewerkt', priority: 1 },
+            { id: 'Worklogs rij 6', category: 'Epic', parents: ['ABC-100'], issueKeys: ['ABC-7'] }
+        ];
+
+        const worklogs = categoriseWorklogs([
+            log('1', { issueType: 'Bug', comment: 'Niet gewerkt, ziek' }),
+            log('2', { issueType: 'Bug', issueLabels: ['overleg'] }),
+            log('3', { issueLabels: ['overleg'] }),
+            log('4', { issueKey: 'ABC-7', issueParent: 'ABC-100' }),
+            log('5', { issueKey: 'ABC-8', issueParent: 'ABC-100' })
+        ], rules);
+
+        assert.deepEqual(worklogs.map(({ id, category, rule }) => [id, category, rule]), [
+            ['1', 'Niet gewerkt', 'Worklogs rij 5'],
+            ['2', 'Bugs', 'Worklogs rij 3'],
+            ['3', 'Overleg', 'Worklogs rij 4'],
+            ['4', 'Epic', 'Worklogs rij 6'],
+            ['5', 'Ontwikkeling', 'Worklogs rij 2']
+        ]);
+    });
+
+    it('zet regels met criteria voor de opvangregels en sorteert op prioriteit', () => {
+        const rules: WorklogRule[] = [
+            { id: 'a', category: 'Rest', priority: 1 },
+            { id: 'b', category: 'Labels', labels: ['x'] },
+            { id: 'c', category: 'Keys', issueKeys: ['ABC-1'], priority: 2 }
+        ];
+
+        assert.deepEqual(sortRules(rules).map(rule => rule.id), ['c', 'b', 'a']);
+    });
+
+    it('gebruikt de resultaten van een JQL query en zoekt bij een ongeldig patroon op de letterlijke tekst', () => {
+        const rules: WorklogRule[] = [
+            { id: 'jql', category: 'Support', jql: 'labels = support' },
+            { id: 'patroon', category: 'Vragen', commentPattern: 'vraag (klant' }
+        ];
+
+        const worklogs = categoriseWorklogs([
+            log('1', { issueKey: 'ABC-2' }),
+            log('2', { comment: 'Vraag (klant X)' }),
+            log('3', {})
+        ], rules, new Map([['jql', new Set(['ABC-2'])]]));
+
+        assert.deepEqual(worklogs.map(({ category, rule }) => [category, rule]), [
+            ['Support', 'jql'],
+            ['Vragen', 'patroon'],
+            [UNCATEGORISED, '']
+        ]);
+    });
+
+    it('maakt de regels uit de Worklogs sheet', () => {
+        const configs: WorklogConfig[] = [
+            { projectName: 'Alpha', columnName: 'Overleg', issues: ['key in (ABC-2)'], row: 2 },
+            { projectName: 'Alpha', columnName: 'Bugs', issueTypes: ['Bug'], priority: 1, row: 3 }
+        ];
+
+        assert.deepEqual(rulesFromWorklogConfigs(configs).map(rule => [rule.id, rule.category, rule.jql, rule.issueTypes, rule.priority]), [
+            ['Worklogs rij 2', 'Overleg', 'key in (ABC-2)', undefined, undefined],
+            ['Worklogs rij 3', 'Bugs', undefined, ['Bug'], 1]
+        ]);
+    });
+
+    describe('in het worklog overzicht', () => {
+        let jira: FakeJiraServer;
+
+        before(async () => {
+            jira = await startFakeJiraServer(loadFixture('jira-basic'));
+            jiraClient.defaults.baseURL = jira.baseURL;
+        });
+
+        after(() => jira.close());
+
+        it('telt elke worklog bij één categorie en toont de regel', async () => {
+            const columns: WorklogConfig[] = [
+                { projectName: 'Alpha', columnName: 'Overleg', labels: ['overleg'], row: 2 },
+                { projectName: 'Alpha', columnName: 'Rapportage', parents: ['ABC-1'], row: 3 },
+                { projectName: 'Alpha', columnName: 'Bugs', issueTypes: ['Bug'], row: 4 }
+            ];
+
+            const { hoursByEmployee, worklogs } = await calculateProjectWorklogHours(
+                alpha,
+                columns,
+                ['Jan Jansen', 'Piet de Vries'],
+                new Date('2025-03-01'),
+                new Date('2025-03-31')
+            );
+
+            // ABC-3 is een Bug met ABC-1 als parent: de eerste regel die past wint
+            assert.deepEqual(worklogs.map(({ id, category, rule }) => [id, category, rule]).sort(), [
+                ['20002', UNCATEGORISED, ''],
+                ['20003', UNCATEGORISED, ''],
+                ['20004', 'Overleg', 'Worklogs rij 2'],
+                ['20006', 'Rapportage', 'Worklogs rij 3']
+            ]);
+            assert.deepEqual(Object.fromEntries(hoursByEmployee.get('Piet de Vries')!), { [UNCATEGORISED]: 1, Rapportage: 0.5, Totaal: 1.5 });
+            assert.deepEqual(getProjectCategories(columns, worklogs), ['Overleg', 'Rapportage', 'Bugs', UNCATEGORISED]);
+        });
+
+        it('deelt een worklog die door meerdere regels is opgehaald één keer in, alleen voor dit project', async () => {
+            const columns: WorklogConfig[] = [
+                { projectName: 'Alpha', columnName: 'Overleg', issues: ['{projectFilter} AND key in (ABC-2)'], row: 2 },
+                { projectName: 'Alpha', columnName: 'Ontwikkeling', issues: ['{projectFilter} AND key in (ABC-1, ABC-2)'], row: 3 }
+            ];
+
+            const { hoursByEmployee, worklogs } = await calculateProjectWorklogHours(
+                alpha,
+                columns,
+                ['Jan Jansen'],
+                new Date('2025-03-01'),
+                new Date('2025-03-31')
+            );
+
+            // 20004 (ABC-2) komt uit beide queries; de worklog van Jan op XYZ-1 hoort bij een ander project
+            assert.deepEqual(worklogs.map(({ id, category }) => [id, category]).sort(), [['20002', 'Ontwikkeling'], ['20004', 'Overleg']]);
+            assert.deepEqual(Object.fromEntries(hoursByEmployee.get('Jan Jansen')!), { Ontwikkeling: 2, Overleg: 1.5, Totaal: 3.5 });
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import './setup.js';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { startFakeJiraServer } from './fake-jira-server.js';
+import type { FakeJiraFixture, FakeJiraServer } from './fake-jira-server.js';
+
+// De worklog mode en het synchronisatie interval worden bij het laden van de jira module gelezen
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'worklog-store-'));
+process.env.JIRA_WORKLOG_MODE = 'store';
+process.env.WORKLOG_STORE_PATH = path.join(directory, 'worklogs.db');
+process.env.WORKLOG_STORE_SINCE = '2025-01-01';
+process.env.WORKLOG_STORE_SYNC_INTERVAL = '3600';
+const { jiraClient, getWorklogsForPeriod, syncWorklogStore } = await import('../src/jira.js');
+
+const fixture: FakeJiraFixture = {
+    issues: [
+        {
+            id: '10001',
+            key: 'ABC-1',
+            fields: { summary: 'Login pagina', project: { key: 'ABC' }, status: { name: 'In Progress' }, assignee: { displayName: 'Jan Jansen' } },
+            worklogs: [
+                { id: '30001', author: 'Jan Jansen', started: '2025-03-04T10:00:00.000+0100', timeSpentSeconds: 3600 },
+                { id: '30002', author: 'Piet de Vries', started: '2025-03-05T10:00:00.000+0100', timeSpentSeconds: 7200 }
+            ]
+        },
+        {
+            id: '20001',
+            key: 'DEF-1',
+            fields: { summary: 'Rapportage', project: { key: 'DEF' }, status: { name: 'Open' } },
+            worklogs: [
+                { id: '30003', author: 'Piet de Vries', started: '2025-03-06T10:00:00.000+0100', timeSpentSeconds: 1800 }
+            ]
+        }
+    ],
+    deletedWorklogs: []
+};
+
+const worklogIds = (worklogs: { id?: string; timeSpentSeconds: number }[]) => worklogs.map(log => [log.id, log.timeSpentSeconds]);
+
+describe('worklog store', () => {
+    let jira: FakeJiraServer;
+
+    before(async () => {
+        jira = await startFakeJiraServer(fixture, { maxResults: 2 });
+        jiraClient.defaults.baseURL = jira.baseURL;
+        await syncWorklogStore();
+    });
+
+    after(async () => {
+        await jira.close();
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        jira.requests.length = 0;
+    });
+
+    it('beantwoordt project- en periodevragen uit de store', async () => {
+        const all = await getWorklogsForPeriod('2025-03-01', '2025-03-31');
+        assert.deepEqual(worklogIds(all), [['30001', 3600], ['30002', 7200], ['30003', 1800]]);
+        assert.equal(all[0].issueSummary, 'Login pagina');
+
+        assert.deepEqual(worklogIds(await getWorklogsForPeriod('2025-03-05', '2025-03-31', 'project in ("ABC") AND ')), [['30002', 7200]]);
+        assert.deepEqual(worklogIds(await getWorklogsForPeriod('2025-03-01', '2025-03-31', 'project = DEF ORDER BY key')), [['30003', 1800]]);
+        assert.deepEqual(worklogIds(await getWorklogsForPeriod('2025-03-01', '2025-03-31', 'key in (ABC-1) AND worklogDate >= "2025-03-01"')), [
+            ['30001', 3600], ['30002', 7200]
+        ]);
+        assert.equal(jira.requests.length, 0);
+
+        // Andere filters gaan wel naar Jira
+        await getWorklogsForPeriod('2025-03-01', '2025-03-31', 'project = ABC AND assignee = currentUser()');
+        assert.deepEqual(jira.requests.map(request => request.path), ['/rest/api/2/search']);
+    });
+
+    it('synchroniseert nieuwe en gewijzigde worklogs incrementeel', async () => {
+        fixture.issues[0].worklogs![0] = { ...fixture.issues[0].worklogs![0], timeSpentSeconds: 5400, updated: '2025-03-10T09:00:00.000+0100' };
+        fixture.issues.push({
+            id: '10002',
+            key: 'ABC-2',
+            fields: { summary: 'Overleg', project: { key: 'ABC' }, status: { name: 'Open' } },
+            worklogs: [{ id: '30004', author: 'Jan Jansen', started: '2025-03-11T10:00:00.000+0100', timeSpentSeconds: 900 }]
+        });
+
+        await syncWorklogStore();
+
+        // Alleen het nieuwe issue wordt opgehaald; bestaande issues worden bijgewerkt als ze sinds de vorige synchronisatie zijn gewijzigd
+        const searches = Array.from(new Set(jira.requests.filter(request => request.path === '/rest/api/2/search').map(request => String(request.query.jql))));
+        assert.equal(searches.length, 2);
+        assert.equal(searches[0], 'id in (10002)');
+        assert.match(searches[1], /^project in \("ABC", "DEF"\) AND updated >= "\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}"$/);
+
+        const worklogs = await getWorklogsForPeriod('2025-03-01', '2025-03-31', 'project = ABC');
+        assert.deepEqual(worklogIds(worklogs), [['30001', 5400], ['30002', 7200], ['30004', 900]]);
+        assert.equal(worklogs[2].issueKey, 'ABC-2');
+    });
+
+    it('verwijdert worklogs die in Jira zijn verwijderd', async () => {
+        fixture.issues[0].worklogs!.splice(1, 1);
+        fixture.deletedWorklogs!.push({ id: '30002', deleted: '2025-03-12T09:00:00.000+0100' });
+
+        await syncWorklogStore();
+
+        assert.deepEqual(worklogIds(await getWorklogsForPeriod('2025-03-01', '2025-03-31')), [['30001', 5400], ['30003', 1800], ['30004', 900]]);
+    });
+});